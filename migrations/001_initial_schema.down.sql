@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS relations;
+DROP TABLE IF EXISTS observations;
+DROP TABLE IF EXISTS entities;
+DROP FUNCTION IF EXISTS update_updated_at_column();
@@ -1,5 +1,5 @@
 -- Create entities table
-CREATE TABLE entities (
+CREATE TABLE IF NOT EXISTS entities (
     id SERIAL PRIMARY KEY,
     name TEXT UNIQUE NOT NULL,
     entity_type TEXT NOT NULL,
@@ -8,7 +8,7 @@ CREATE TABLE entities (
 );
 
 -- Create observations table  
-CREATE TABLE observations (
+CREATE TABLE IF NOT EXISTS observations (
     id SERIAL PRIMARY KEY,
     entity_id INTEGER REFERENCES entities(id) ON DELETE CASCADE,
     content TEXT NOT NULL,
@@ -16,7 +16,7 @@ CREATE TABLE observations (
 );
 
 -- Create relations table
-CREATE TABLE relations (
+CREATE TABLE IF NOT EXISTS relations (
     id SERIAL PRIMARY KEY,
     from_entity_id INTEGER REFERENCES entities(id) ON DELETE CASCADE,
     to_entity_id INTEGER REFERENCES entities(id) ON DELETE CASCADE,
@@ -26,16 +26,16 @@ CREATE TABLE relations (
 );
 
 -- Create indexes for performance
-CREATE INDEX idx_entities_name ON entities(name);
-CREATE INDEX idx_entities_type ON entities(entity_type);
-CREATE INDEX idx_observations_entity_id ON observations(entity_id);
-CREATE INDEX idx_relations_from ON relations(from_entity_id);
-CREATE INDEX idx_relations_to ON relations(to_entity_id);
-CREATE INDEX idx_relations_type ON relations(relation_type);
+CREATE INDEX IF NOT EXISTS idx_entities_name ON entities(name);
+CREATE INDEX IF NOT EXISTS idx_entities_type ON entities(entity_type);
+CREATE INDEX IF NOT EXISTS idx_observations_entity_id ON observations(entity_id);
+CREATE INDEX IF NOT EXISTS idx_relations_from ON relations(from_entity_id);
+CREATE INDEX IF NOT EXISTS idx_relations_to ON relations(to_entity_id);
+CREATE INDEX IF NOT EXISTS idx_relations_type ON relations(relation_type);
 
 -- Full-text search index for observations
-CREATE INDEX idx_observations_content_fts ON observations USING gin(to_tsvector('english', content));
-CREATE INDEX idx_entities_name_fts ON entities USING gin(to_tsvector('english', name));
+CREATE INDEX IF NOT EXISTS idx_observations_content_fts ON observations USING gin(to_tsvector('english', content));
+CREATE INDEX IF NOT EXISTS idx_entities_name_fts ON entities USING gin(to_tsvector('english', name));
 
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -47,5 +47,6 @@ END;
 $$ language 'plpgsql';
 
 -- Trigger to automatically update updated_at
+DROP TRIGGER IF EXISTS update_entities_updated_at ON entities;
 CREATE TRIGGER update_entities_updated_at BEFORE UPDATE ON entities
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
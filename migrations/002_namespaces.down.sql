@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS idx_entities_namespace_type;
+ALTER TABLE entities DROP CONSTRAINT IF EXISTS entities_namespace_name_key;
+ALTER TABLE entities ADD CONSTRAINT entities_name_key UNIQUE (name);
+ALTER TABLE entities DROP COLUMN IF EXISTS namespace;
@@ -0,0 +1,8 @@
+-- Scope entities to a namespace so several users or projects can share one database
+ALTER TABLE entities ADD COLUMN IF NOT EXISTS namespace TEXT NOT NULL DEFAULT 'default';
+
+-- Entity names are unique per namespace instead of globally
+ALTER TABLE entities DROP CONSTRAINT IF EXISTS entities_name_key;
+ALTER TABLE entities ADD CONSTRAINT entities_namespace_name_key UNIQUE (namespace, name);
+
+CREATE INDEX IF NOT EXISTS idx_entities_namespace_type ON entities(namespace, entity_type);
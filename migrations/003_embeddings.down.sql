@@ -0,0 +1,6 @@
+DROP INDEX IF EXISTS idx_observations_embedding_model;
+DROP INDEX IF EXISTS idx_entities_embedding_model;
+ALTER TABLE observations DROP COLUMN IF EXISTS embedding;
+ALTER TABLE observations DROP COLUMN IF EXISTS embedding_model;
+ALTER TABLE entities DROP COLUMN IF EXISTS embedding;
+ALTER TABLE entities DROP COLUMN IF EXISTS embedding_model;
@@ -0,0 +1,22 @@
+-- Optional semantic search. Embedding columns are only created when the pgvector
+-- extension is available; without it the migration is a no-op and semantic_search
+-- reports that it is disabled.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'vector') THEN
+        CREATE EXTENSION IF NOT EXISTS vector;
+
+        -- Vectors are not dimension-constrained because the dimension depends on the
+        -- configured provider; embedding_model records which provider produced them
+        ALTER TABLE observations ADD COLUMN IF NOT EXISTS embedding vector;
+        ALTER TABLE observations ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+        ALTER TABLE entities ADD COLUMN IF NOT EXISTS embedding vector;
+        ALTER TABLE entities ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+        CREATE INDEX IF NOT EXISTS idx_observations_embedding_model ON observations(embedding_model);
+        CREATE INDEX IF NOT EXISTS idx_entities_embedding_model ON entities(embedding_model);
+    ELSE
+        RAISE NOTICE 'pgvector is not installed; semantic search is disabled';
+    END IF;
+END
+$$;
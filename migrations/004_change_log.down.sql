@@ -0,0 +1,8 @@
+DROP TRIGGER IF EXISTS log_relations_change ON relations;
+DROP TRIGGER IF EXISTS log_observations_change ON observations;
+DROP TRIGGER IF EXISTS log_entities_change ON entities;
+DROP TABLE IF EXISTS change_log;
+DROP FUNCTION IF EXISTS reject_change_log_rewrite();
+DROP FUNCTION IF EXISTS log_memory_change();
+DROP FUNCTION IF EXISTS memory_audit_row(TEXT, JSONB);
+DROP FUNCTION IF EXISTS memory_entity_ref(INTEGER);
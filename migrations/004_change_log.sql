@@ -0,0 +1,157 @@
+-- Append-only log of every change to entities, observations and relations. Rows are
+-- written by triggers, so cascaded deletes are recorded too; the application tags each
+-- transaction with the tool, actor and session through the memory.* settings.
+CREATE TABLE IF NOT EXISTS change_log (
+    id BIGSERIAL PRIMARY KEY,
+    changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    namespace TEXT NOT NULL,
+    table_name TEXT NOT NULL CHECK (table_name IN ('entities', 'observations', 'relations')),
+    row_id INTEGER NOT NULL,
+    operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+    -- Every entity the change touches: the entity itself, an observation's owner, or both ends of a relation
+    entity_ids INTEGER[] NOT NULL,
+    tool TEXT,
+    actor TEXT,
+    session_id TEXT,
+    before JSONB,
+    after JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_change_log_namespace_changed_at ON change_log(namespace, changed_at);
+CREATE INDEX IF NOT EXISTS idx_change_log_row ON change_log(table_name, row_id, id);
+CREATE INDEX IF NOT EXISTS idx_change_log_entity_ids ON change_log USING gin(entity_ids);
+
+-- Namespace and name of an entity, falling back to the log once the row is gone (cascaded
+-- deletes of observations and relations run after their entity has been deleted)
+CREATE OR REPLACE FUNCTION memory_entity_ref(p_entity_id INTEGER, OUT namespace TEXT, OUT name TEXT) AS $$
+BEGIN
+    SELECT e.namespace, e.name INTO namespace, name FROM entities e WHERE e.id = p_entity_id;
+    IF NOT FOUND THEN
+        SELECT l.namespace, COALESCE(l.after, l.before)->>'name' INTO namespace, name
+        FROM change_log l
+        WHERE l.table_name = 'entities' AND l.row_id = p_entity_id
+        ORDER BY l.id DESC
+        LIMIT 1;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The logged form of a row: embeddings are left out and entity ids get their names
+CREATE OR REPLACE FUNCTION memory_audit_row(p_table TEXT, p_row JSONB) RETURNS JSONB AS $$
+DECLARE
+    result JSONB := p_row - 'embedding' - 'embedding_model';
+BEGIN
+    IF p_row IS NULL THEN
+        RETURN NULL;
+    END IF;
+    IF p_table = 'observations' THEN
+        result := result || jsonb_build_object('entity', (memory_entity_ref((p_row->>'entity_id')::int)).name);
+    ELSIF p_table = 'relations' THEN
+        result := result || jsonb_build_object(
+            'from', (memory_entity_ref((p_row->>'from_entity_id')::int)).name,
+            'to', (memory_entity_ref((p_row->>'to_entity_id')::int)).name
+        );
+    END IF;
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION log_memory_change() RETURNS TRIGGER AS $$
+DECLARE
+    before_row JSONB;
+    after_row JSONB;
+    row_data JSONB;
+    touched INTEGER[];
+    row_namespace TEXT;
+BEGIN
+    IF TG_OP <> 'INSERT' THEN
+        before_row := memory_audit_row(TG_TABLE_NAME, to_jsonb(OLD));
+    END IF;
+    IF TG_OP <> 'DELETE' THEN
+        after_row := memory_audit_row(TG_TABLE_NAME, to_jsonb(NEW));
+    END IF;
+
+    -- Embedding backfills only move updated_at, which is not a change worth recording
+    IF TG_OP = 'UPDATE' AND before_row - 'updated_at' = after_row - 'updated_at' THEN
+        RETURN NULL;
+    END IF;
+
+    row_data := COALESCE(after_row, before_row);
+    SELECT array_agg(DISTINCT (r->>k)::int) INTO touched
+    FROM (VALUES (before_row), (after_row)) AS v(r),
+         unnest(CASE TG_TABLE_NAME
+                    WHEN 'entities' THEN ARRAY['id']
+                    WHEN 'observations' THEN ARRAY['entity_id']
+                    ELSE ARRAY['from_entity_id', 'to_entity_id']
+                END) AS k
+    WHERE r IS NOT NULL;
+
+    IF TG_TABLE_NAME = 'entities' THEN
+        row_namespace := row_data->>'namespace';
+    ELSE
+        row_namespace := (memory_entity_ref(touched[1])).namespace;
+    END IF;
+
+    INSERT INTO change_log (namespace, table_name, row_id, operation, entity_ids, tool, actor, session_id, before, after)
+    VALUES (
+        COALESCE(row_namespace, 'default'),
+        TG_TABLE_NAME,
+        (row_data->>'id')::int,
+        TG_OP,
+        touched,
+        NULLIF(current_setting('memory.tool', true), ''),
+        NULLIF(current_setting('memory.actor', true), ''),
+        NULLIF(current_setting('memory.session', true), ''),
+        before_row,
+        after_row
+    );
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION reject_change_log_rewrite() RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'change_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS change_log_append_only ON change_log;
+CREATE TRIGGER change_log_append_only BEFORE UPDATE OR DELETE ON change_log
+    FOR EACH ROW EXECUTE FUNCTION reject_change_log_rewrite();
+
+-- Rows that predate the log are recorded as inserted when they were created, so
+-- point-in-time reads cover them
+INSERT INTO change_log (changed_at, namespace, table_name, row_id, operation, entity_ids, tool, after)
+SELECT COALESCE(e.created_at::timestamptz, NOW()), e.namespace, 'entities', e.id, 'INSERT', ARRAY[e.id], '004_change_log',
+       memory_audit_row('entities', to_jsonb(e))
+FROM entities e
+WHERE NOT EXISTS (SELECT 1 FROM change_log l WHERE l.table_name = 'entities' AND l.row_id = e.id)
+ORDER BY e.id;
+
+INSERT INTO change_log (changed_at, namespace, table_name, row_id, operation, entity_ids, tool, after)
+SELECT COALESCE(o.created_at::timestamptz, NOW()), e.namespace, 'observations', o.id, 'INSERT', ARRAY[o.entity_id], '004_change_log',
+       memory_audit_row('observations', to_jsonb(o))
+FROM observations o
+JOIN entities e ON e.id = o.entity_id
+WHERE NOT EXISTS (SELECT 1 FROM change_log l WHERE l.table_name = 'observations' AND l.row_id = o.id)
+ORDER BY o.id;
+
+INSERT INTO change_log (changed_at, namespace, table_name, row_id, operation, entity_ids, tool, after)
+SELECT COALESCE(r.created_at::timestamptz, NOW()), e.namespace, 'relations', r.id, 'INSERT', ARRAY[r.from_entity_id, r.to_entity_id], '004_change_log',
+       memory_audit_row('relations', to_jsonb(r))
+FROM relations r
+JOIN entities e ON e.id = r.from_entity_id
+WHERE NOT EXISTS (SELECT 1 FROM change_log l WHERE l.table_name = 'relations' AND l.row_id = r.id)
+ORDER BY r.id;
+
+DROP TRIGGER IF EXISTS log_entities_change ON entities;
+CREATE TRIGGER log_entities_change AFTER INSERT OR UPDATE OR DELETE ON entities
+    FOR EACH ROW EXECUTE FUNCTION log_memory_change();
+
+DROP TRIGGER IF EXISTS log_observations_change ON observations;
+CREATE TRIGGER log_observations_change AFTER INSERT OR UPDATE OR DELETE ON observations
+    FOR EACH ROW EXECUTE FUNCTION log_memory_change();
+
+DROP TRIGGER IF EXISTS log_relations_change ON relations;
+CREATE TRIGGER log_relations_change AFTER INSERT OR UPDATE OR DELETE ON relations
+    FOR EACH ROW EXECUTE FUNCTION log_memory_change();
@@ -0,0 +1,21 @@
+-- The full unique constraints cannot coexist with trashed duplicates, so the trash is emptied
+DELETE FROM relations WHERE deleted_at IS NOT NULL;
+DELETE FROM observations WHERE deleted_at IS NOT NULL;
+DELETE FROM entities WHERE deleted_at IS NOT NULL;
+
+DROP INDEX IF EXISTS idx_relations_deleted_with;
+DROP INDEX IF EXISTS idx_relations_trash;
+DROP INDEX IF EXISTS idx_observations_deleted_with;
+DROP INDEX IF EXISTS idx_observations_trash;
+DROP INDEX IF EXISTS idx_entities_trash;
+
+DROP INDEX IF EXISTS relations_live_key;
+ALTER TABLE relations ADD CONSTRAINT relations_from_entity_id_to_entity_id_relation_type_key UNIQUE (from_entity_id, to_entity_id, relation_type);
+DROP INDEX IF EXISTS entities_namespace_name_live_key;
+ALTER TABLE entities ADD CONSTRAINT entities_namespace_name_key UNIQUE (namespace, name);
+
+ALTER TABLE relations DROP COLUMN IF EXISTS deleted_with_entity_id;
+ALTER TABLE relations DROP COLUMN IF EXISTS deleted_at;
+ALTER TABLE observations DROP COLUMN IF EXISTS deleted_with_entity_id;
+ALTER TABLE observations DROP COLUMN IF EXISTS deleted_at;
+ALTER TABLE entities DROP COLUMN IF EXISTS deleted_at;
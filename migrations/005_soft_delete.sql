@@ -0,0 +1,22 @@
+-- Deleted rows stay in place with deleted_at set until they are purged from the trash.
+-- Observations and relations trashed because their entity was deleted point back to it,
+-- so restoring the entity brings exactly those rows back.
+ALTER TABLE entities ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE observations ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE observations ADD COLUMN IF NOT EXISTS deleted_with_entity_id INTEGER;
+ALTER TABLE relations ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE relations ADD COLUMN IF NOT EXISTS deleted_with_entity_id INTEGER;
+
+-- Names and relations only need to be unique among live rows, so a trashed entity does not
+-- block creating a new one with the same name
+ALTER TABLE entities DROP CONSTRAINT IF EXISTS entities_namespace_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS entities_namespace_name_live_key ON entities(namespace, name) WHERE deleted_at IS NULL;
+
+ALTER TABLE relations DROP CONSTRAINT IF EXISTS relations_from_entity_id_to_entity_id_relation_type_key;
+CREATE UNIQUE INDEX IF NOT EXISTS relations_live_key ON relations(from_entity_id, to_entity_id, relation_type) WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_entities_trash ON entities(namespace, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_observations_trash ON observations(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_observations_deleted_with ON observations(deleted_with_entity_id) WHERE deleted_with_entity_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_relations_trash ON relations(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_relations_deleted_with ON relations(deleted_with_entity_id) WHERE deleted_with_entity_id IS NOT NULL;
@@ -0,0 +1,14 @@
+DROP TRIGGER IF EXISTS log_entity_aliases_change ON entity_aliases;
+DROP TABLE IF EXISTS entity_aliases;
+
+-- The log is append-only, so its guard is lifted while alias entries are removed.
+-- log_memory_change keeps handling aliases, which is harmless without the table.
+ALTER TABLE change_log DISABLE TRIGGER change_log_append_only;
+DELETE FROM change_log WHERE table_name = 'entity_aliases';
+ALTER TABLE change_log ENABLE TRIGGER change_log_append_only;
+ALTER TABLE change_log DROP CONSTRAINT IF EXISTS change_log_table_name_check;
+ALTER TABLE change_log ADD CONSTRAINT change_log_table_name_check
+    CHECK (table_name IN ('entities', 'observations', 'relations'));
+
+DROP INDEX IF EXISTS idx_entities_name_trgm;
+DROP INDEX IF EXISTS idx_entities_lower_name;
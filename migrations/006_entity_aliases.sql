@@ -0,0 +1,108 @@
+-- Alternative names that resolve to an entity, unique within a namespace
+CREATE TABLE IF NOT EXISTS entity_aliases (
+    id SERIAL PRIMARY KEY,
+    namespace TEXT NOT NULL,
+    entity_id INTEGER NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+    alias TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (namespace, alias)
+);
+
+CREATE INDEX IF NOT EXISTS idx_entity_aliases_entity_id ON entity_aliases(entity_id);
+CREATE INDEX IF NOT EXISTS idx_entity_aliases_lower_alias ON entity_aliases(namespace, lower(alias));
+CREATE INDEX IF NOT EXISTS idx_entities_lower_name ON entities(namespace, lower(name));
+
+-- Optional fuzzy name matching. Without pg_trgm, names are still resolved exactly or
+-- case-insensitively and suggestions fall back to substring matches.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_trgm') THEN
+        CREATE EXTENSION IF NOT EXISTS pg_trgm;
+        CREATE INDEX IF NOT EXISTS idx_entities_name_trgm ON entities USING gin (name gin_trgm_ops);
+        CREATE INDEX IF NOT EXISTS idx_entity_aliases_alias_trgm ON entity_aliases USING gin (alias gin_trgm_ops);
+    ELSE
+        RAISE NOTICE 'pg_trgm is not installed; fuzzy entity name matching is disabled';
+    END IF;
+END
+$$;
+
+-- Alias changes go to the change log like every other change to the graph
+ALTER TABLE change_log DROP CONSTRAINT IF EXISTS change_log_table_name_check;
+ALTER TABLE change_log ADD CONSTRAINT change_log_table_name_check
+    CHECK (table_name IN ('entities', 'observations', 'relations', 'entity_aliases'));
+
+CREATE OR REPLACE FUNCTION memory_audit_row(p_table TEXT, p_row JSONB) RETURNS JSONB AS $$
+DECLARE
+    result JSONB := p_row - 'embedding' - 'embedding_model';
+BEGIN
+    IF p_row IS NULL THEN
+        RETURN NULL;
+    END IF;
+    IF p_table IN ('observations', 'entity_aliases') THEN
+        result := result || jsonb_build_object('entity', (memory_entity_ref((p_row->>'entity_id')::int)).name);
+    ELSIF p_table = 'relations' THEN
+        result := result || jsonb_build_object(
+            'from', (memory_entity_ref((p_row->>'from_entity_id')::int)).name,
+            'to', (memory_entity_ref((p_row->>'to_entity_id')::int)).name
+        );
+    END IF;
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION log_memory_change() RETURNS TRIGGER AS $$
+DECLARE
+    before_row JSONB;
+    after_row JSONB;
+    row_data JSONB;
+    touched INTEGER[];
+    row_namespace TEXT;
+BEGIN
+    IF TG_OP <> 'INSERT' THEN
+        before_row := memory_audit_row(TG_TABLE_NAME, to_jsonb(OLD));
+    END IF;
+    IF TG_OP <> 'DELETE' THEN
+        after_row := memory_audit_row(TG_TABLE_NAME, to_jsonb(NEW));
+    END IF;
+
+    -- Embedding backfills only move updated_at, which is not a change worth recording
+    IF TG_OP = 'UPDATE' AND before_row - 'updated_at' = after_row - 'updated_at' THEN
+        RETURN NULL;
+    END IF;
+
+    row_data := COALESCE(after_row, before_row);
+    SELECT array_agg(DISTINCT (r->>k)::int) INTO touched
+    FROM (VALUES (before_row), (after_row)) AS v(r),
+         unnest(CASE TG_TABLE_NAME
+                    WHEN 'entities' THEN ARRAY['id']
+                    WHEN 'relations' THEN ARRAY['from_entity_id', 'to_entity_id']
+                    ELSE ARRAY['entity_id']
+                END) AS k
+    WHERE r IS NOT NULL;
+
+    IF TG_TABLE_NAME IN ('entities', 'entity_aliases') THEN
+        row_namespace := row_data->>'namespace';
+    ELSE
+        row_namespace := (memory_entity_ref(touched[1])).namespace;
+    END IF;
+
+    INSERT INTO change_log (namespace, table_name, row_id, operation, entity_ids, tool, actor, session_id, before, after)
+    VALUES (
+        COALESCE(row_namespace, 'default'),
+        TG_TABLE_NAME,
+        (row_data->>'id')::int,
+        TG_OP,
+        touched,
+        NULLIF(current_setting('memory.tool', true), ''),
+        NULLIF(current_setting('memory.actor', true), ''),
+        NULLIF(current_setting('memory.session', true), ''),
+        before_row,
+        after_row
+    );
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS log_entity_aliases_change ON entity_aliases;
+CREATE TRIGGER log_entity_aliases_change AFTER INSERT OR UPDATE OR DELETE ON entity_aliases
+    FOR EACH ROW EXECUTE FUNCTION log_memory_change();
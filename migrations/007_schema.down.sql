@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS schema_relation_types;
+DROP TABLE IF EXISTS schema_entity_types;
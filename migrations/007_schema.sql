@@ -0,0 +1,38 @@
+-- Optional ontology per namespace. Synonyms, case variants and inverse names are mapped
+-- to the registered names when entities and relations are written, and by normalize_types.
+CREATE TABLE IF NOT EXISTS schema_entity_types (
+    id SERIAL PRIMARY KEY,
+    namespace TEXT NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    synonyms TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (namespace, name)
+);
+
+CREATE TABLE IF NOT EXISTS schema_relation_types (
+    id SERIAL PRIMARY KEY,
+    namespace TEXT NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    synonyms TEXT[] NOT NULL DEFAULT '{}',
+    -- NULL allows any entity type at that end
+    source_types TEXT[],
+    target_types TEXT[],
+    -- The name of the relation read from target to source, e.g. employs for works_at
+    inverse_name TEXT,
+    cardinality TEXT NOT NULL DEFAULT 'many-to-many'
+        CHECK (cardinality IN ('one-to-one', 'one-to-many', 'many-to-one', 'many-to-many')),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (namespace, name)
+);
+
+DROP TRIGGER IF EXISTS update_schema_entity_types_updated_at ON schema_entity_types;
+CREATE TRIGGER update_schema_entity_types_updated_at BEFORE UPDATE ON schema_entity_types
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_schema_relation_types_updated_at ON schema_relation_types;
+CREATE TRIGGER update_schema_relation_types_updated_at BEFORE UPDATE ON schema_relation_types
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS idx_relations_properties;
+DROP INDEX IF EXISTS idx_entities_properties;
+ALTER TABLE relations DROP COLUMN IF EXISTS properties;
+ALTER TABLE entities DROP COLUMN IF EXISTS properties;
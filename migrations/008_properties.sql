@@ -0,0 +1,7 @@
+-- Structured key/value facts on entities and relations. jsonb_path_ops indexes serve the
+-- containment (@>) filters used by search.
+ALTER TABLE entities ADD COLUMN IF NOT EXISTS properties JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE relations ADD COLUMN IF NOT EXISTS properties JSONB NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_entities_properties ON entities USING gin (properties jsonb_path_ops);
+CREATE INDEX IF NOT EXISTS idx_relations_properties ON relations USING gin (properties jsonb_path_ops);
@@ -0,0 +1,7 @@
+DROP INDEX IF EXISTS idx_observations_valid_until;
+DROP INDEX IF EXISTS idx_observations_tags;
+ALTER TABLE observations DROP COLUMN IF EXISTS valid_until;
+ALTER TABLE observations DROP COLUMN IF EXISTS tags;
+ALTER TABLE observations DROP COLUMN IF EXISTS author;
+ALTER TABLE observations DROP COLUMN IF EXISTS confidence;
+ALTER TABLE observations DROP COLUMN IF EXISTS source;
@@ -0,0 +1,10 @@
+-- Provenance of observations: where they came from, who asserted them, how sure they were
+-- and until when they hold. Observations past valid_until are hidden from reads by default.
+ALTER TABLE observations ADD COLUMN IF NOT EXISTS source TEXT;
+ALTER TABLE observations ADD COLUMN IF NOT EXISTS confidence REAL CHECK (confidence >= 0 AND confidence <= 1);
+ALTER TABLE observations ADD COLUMN IF NOT EXISTS author TEXT;
+ALTER TABLE observations ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE observations ADD COLUMN IF NOT EXISTS valid_until TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_observations_tags ON observations USING gin (tags);
+CREATE INDEX IF NOT EXISTS idx_observations_valid_until ON observations (valid_until) WHERE valid_until IS NOT NULL;
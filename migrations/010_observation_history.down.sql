@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_observations_superseded_by;
+ALTER TABLE observations DROP COLUMN IF EXISTS superseded_by;
@@ -0,0 +1,5 @@
+-- supersede_observation keeps the replaced observation as history, pointing at the one that
+-- replaced it. Reads only show observations that have not been superseded unless asked.
+ALTER TABLE observations ADD COLUMN IF NOT EXISTS superseded_by INTEGER REFERENCES observations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_observations_superseded_by ON observations (superseded_by) WHERE superseded_by IS NOT NULL;
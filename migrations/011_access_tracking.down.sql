@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS retention_policies;
+DROP FUNCTION IF EXISTS memory_decayed_importance(DOUBLE PRECISION, TIMESTAMPTZ, DOUBLE PRECISION);
+DROP TABLE IF EXISTS observation_access;
+DROP TABLE IF EXISTS entity_access;
@@ -0,0 +1,40 @@
+-- Reads recorded by open_nodes and search_nodes. They live apart from entities and
+-- observations so recording a read neither writes the change log nor moves updated_at.
+-- `importance` is the access count decayed up to last_accessed_at; each read adds 1.
+CREATE TABLE IF NOT EXISTS entity_access (
+    entity_id INTEGER PRIMARY KEY REFERENCES entities(id) ON DELETE CASCADE,
+    access_count INTEGER NOT NULL DEFAULT 0,
+    last_accessed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    importance DOUBLE PRECISION NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS observation_access (
+    observation_id INTEGER PRIMARY KEY REFERENCES observations(id) ON DELETE CASCADE,
+    access_count INTEGER NOT NULL DEFAULT 0,
+    last_accessed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    importance DOUBLE PRECISION NOT NULL DEFAULT 0
+);
+
+-- A stored importance decayed from `at` until now, halving every `half_life_days`. The
+-- exponent is capped because power() raises an error on underflow.
+CREATE OR REPLACE FUNCTION memory_decayed_importance(importance DOUBLE PRECISION, at TIMESTAMPTZ, half_life_days DOUBLE PRECISION)
+RETURNS DOUBLE PRECISION AS $$
+    SELECT COALESCE(importance * power(0.5, LEAST(EXTRACT(EPOCH FROM (NOW() - at)) / (half_life_days * 86400), 1000)), 0)
+$$ LANGUAGE sql STABLE;
+
+-- Opt-in per entity type: observations of entities of that type that have not been read
+-- for max_idle_days and whose importance decayed below min_importance go to the trash
+CREATE TABLE IF NOT EXISTS retention_policies (
+    id SERIAL PRIMARY KEY,
+    namespace TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    max_idle_days REAL NOT NULL CHECK (max_idle_days > 0),
+    min_importance REAL NOT NULL DEFAULT 1 CHECK (min_importance >= 0),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (namespace, entity_type)
+);
+
+DROP TRIGGER IF EXISTS update_retention_policies_updated_at ON retention_policies;
+CREATE TRIGGER update_retention_policies_updated_at BEFORE UPDATE ON retention_policies
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
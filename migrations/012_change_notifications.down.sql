@@ -0,0 +1,2 @@
+DROP TRIGGER IF EXISTS change_log_notify ON change_log;
+DROP FUNCTION IF EXISTS notify_memory_change();
@@ -0,0 +1,43 @@
+-- Every change_log row is announced on the memory_changes channel, so servers can tell
+-- subscribed clients what changed, whichever process made the change. NOTIFY is only
+-- delivered once the transaction commits; rolled back and dry-run writes stay silent.
+-- The payload names the touched entities, and for entity rows also their names and types
+-- before and after the change, so renames and retypes reach both sides.
+CREATE OR REPLACE FUNCTION notify_memory_change() RETURNS TRIGGER AS $$
+DECLARE
+    payload TEXT;
+BEGIN
+    payload := json_build_object(
+        'namespace', NEW.namespace,
+        'entityIds', NEW.entity_ids,
+        'names', ARRAY(
+            SELECT DISTINCT n FROM (
+                SELECT e.name AS n FROM entities e WHERE e.id = ANY(NEW.entity_ids)
+                UNION ALL SELECT NEW.before->>'name' WHERE NEW.table_name = 'entities'
+                UNION ALL SELECT NEW.after->>'name' WHERE NEW.table_name = 'entities'
+            ) names
+            WHERE n IS NOT NULL
+        ),
+        'entityTypes', ARRAY(
+            SELECT DISTINCT t FROM (
+                SELECT NEW.before->>'entity_type' AS t WHERE NEW.table_name = 'entities'
+                UNION ALL SELECT NEW.after->>'entity_type' WHERE NEW.table_name = 'entities'
+            ) types
+            WHERE t IS NOT NULL
+        )
+    )::text;
+
+    -- Payloads are limited to 8000 bytes. Without names and types, listeners treat every
+    -- entity of the namespace as possibly changed.
+    IF octet_length(payload) >= 8000 THEN
+        payload := json_build_object('namespace', NEW.namespace, 'entityIds', NEW.entity_ids, 'truncated', true)::text;
+    END IF;
+
+    PERFORM pg_notify('memory_changes', payload);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS change_log_notify ON change_log;
+CREATE TRIGGER change_log_notify AFTER INSERT ON change_log
+    FOR EACH ROW EXECUTE FUNCTION notify_memory_change();
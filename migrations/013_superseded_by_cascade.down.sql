@@ -0,0 +1,3 @@
+ALTER TABLE observations DROP CONSTRAINT IF EXISTS observations_superseded_by_fkey;
+ALTER TABLE observations ADD CONSTRAINT observations_superseded_by_fkey
+    FOREIGN KEY (superseded_by) REFERENCES observations(id) ON DELETE SET NULL;
@@ -0,0 +1,6 @@
+-- Removing an observation for good also removes the observations it superseded. With
+-- ON DELETE SET NULL, purging a correction from the trash made the fact it replaced
+-- current again.
+ALTER TABLE observations DROP CONSTRAINT IF EXISTS observations_superseded_by_fkey;
+ALTER TABLE observations ADD CONSTRAINT observations_superseded_by_fkey
+    FOREIGN KEY (superseded_by) REFERENCES observations(id) ON DELETE CASCADE;
@@ -0,0 +1 @@
+DROP INDEX IF EXISTS idx_change_log_row_state;
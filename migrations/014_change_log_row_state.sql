@@ -0,0 +1,3 @@
+-- asOf reads take the latest logged state of each row of a namespace; this index hands
+-- them over in that order instead of sorting the namespace's whole change log
+CREATE INDEX IF NOT EXISTS idx_change_log_row_state ON change_log(namespace, table_name, row_id, id DESC);
@@ -0,0 +1,195 @@
+import { IncomingHttpHeaders } from 'http';
+import { promises as fs } from 'fs';
+import { createHash, timingSafeEqual } from 'crypto';
+import { isRecord } from './properties.js';
+
+export type Scope = 'read' | 'write' | 'admin';
+
+export const SCOPES: Scope[] = ['read', 'write', 'admin'];
+
+// Each scope includes the ones before it: admin can do everything write can, and so on
+const SCOPE_LEVEL: Record<Scope, number> = { read: 0, write: 1, admin: 2 };
+
+export interface ApiKey {
+  name: string;
+  keyHash: Buffer;
+  scopes: Scope[];
+  namespace?: string;
+}
+
+export interface Principal {
+  name: string;
+  scopes: Scope[];
+  namespace?: string;
+  // Hash of the key presented; unset when authentication is disabled
+  keyHash?: Buffer;
+}
+
+export class AuthError extends Error {
+  readonly statusCode: 401 | 403;
+
+  constructor(statusCode: 401 | 403, message: string) {
+    super(message);
+    this.name = 'AuthError';
+    this.statusCode = statusCode;
+  }
+}
+
+function hashKey(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
+
+function parseScopes(value: unknown, keyName: string): Scope[] {
+  const scopes = Array.isArray(value) ? value : [value];
+  for (const scope of scopes) {
+    if (!SCOPES.includes(scope as Scope)) {
+      throw new Error(`API key ${keyName} has unknown scope "${scope}". Expected one of ${SCOPES.join(', ')}`);
+    }
+  }
+  return scopes as Scope[];
+}
+
+// MEMORY_API_KEYS holds comma-separated `key:scope[+scope][:namespace]` entries
+export function parseApiKeysEnv(value: string): ApiKey[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean).map((entry, index) => {
+    const parts = entry.split(':');
+    const [key, scopes = 'read', namespace] = parts;
+    const name = `env-key-${index + 1}`;
+    if (!key) {
+      throw new Error(`MEMORY_API_KEYS entry ${index + 1} has no key`);
+    }
+    // A key or namespace with a colon would otherwise be cut short without notice
+    if (parts.length > 3) {
+      throw new Error(`MEMORY_API_KEYS entry ${index + 1} has more than three ":"-separated parts; use --api-keys-file for keys or namespaces containing ":"`);
+    }
+    return { name, keyHash: hashKey(key), scopes: parseScopes(scopes.split('+'), name), namespace: namespace || undefined };
+  });
+}
+
+// The key file is a JSON array of { name, key | keySha256, scopes, namespace? } objects
+export async function loadApiKeysFile(file: string): Promise<ApiKey[]> {
+  const entries: unknown = JSON.parse(await fs.readFile(file, 'utf8'));
+  if (!Array.isArray(entries)) {
+    throw new Error(`API key file ${file} must contain a JSON array`);
+  }
+
+  return entries.map((entry: unknown, index: number) => {
+    if (!isRecord(entry)) {
+      throw new Error(`API key ${index + 1} in ${file} must be an object`);
+    }
+    const name = typeof entry.name === 'string' ? entry.name : `file-key-${index + 1}`;
+    let keyHash: Buffer;
+    if (typeof entry.key === 'string') {
+      keyHash = hashKey(entry.key);
+    } else if (typeof entry.keySha256 === 'string' && /^[0-9a-f]{64}$/i.test(entry.keySha256)) {
+      keyHash = Buffer.from(entry.keySha256, 'hex');
+    } else {
+      throw new Error(`API key ${name} in ${file} needs a "key" or a hex "keySha256"`);
+    }
+    return {
+      name,
+      keyHash,
+      scopes: parseScopes(entry.scopes ?? 'read', name),
+      namespace: typeof entry.namespace === 'string' ? entry.namespace : undefined,
+    };
+  });
+}
+
+// Names show up in logs and errors, so they have to tell keys apart
+export async function loadApiKeys(options: { keysFile?: string; keysEnv?: string }): Promise<ApiKey[]> {
+  const keys: ApiKey[] = [];
+  if (options.keysEnv) {
+    keys.push(...parseApiKeysEnv(options.keysEnv));
+  }
+  if (options.keysFile) {
+    keys.push(...await loadApiKeysFile(options.keysFile));
+  }
+  const names = new Set<string>();
+  for (const key of keys) {
+    if (names.has(key.name)) {
+      throw new Error(`Duplicate API key name ${key.name}`);
+    }
+    names.add(key.name);
+  }
+  return keys;
+}
+
+export function hasScope(principal: Principal, required: Scope): boolean {
+  return principal.scopes.some(scope => SCOPE_LEVEL[scope] >= SCOPE_LEVEL[required]);
+}
+
+// A key bound to a namespace may only use that namespace, including as the target of a tool
+export function authorizeNamespace(principal: Principal, namespace: string): void {
+  if (principal.namespace && namespace !== principal.namespace) {
+    throw new AuthError(403, `Key ${principal.name} is not allowed to access namespace ${namespace}`);
+  }
+}
+
+// Whether both principals authenticated with the same key. Names are only labels, so the
+// key hashes are compared.
+export function isSameKey(a: Principal, b: Principal): boolean {
+  if (!a.keyHash || !b.keyHash) {
+    return !a.keyHash && !b.keyHash;
+  }
+  return timingSafeEqual(a.keyHash, b.keyHash);
+}
+
+export class Authenticator {
+  private keys: ApiKey[];
+
+  constructor(keys: ApiKey[]) {
+    this.keys = keys;
+  }
+
+  get enabled(): boolean {
+    return this.keys.length > 0;
+  }
+
+  // Accepts `Authorization: Bearer <token>` or `X-API-Key: <key>`
+  authenticate(headers: IncomingHttpHeaders): Principal {
+    if (!this.enabled) {
+      return { name: 'anonymous', scopes: ['admin'] };
+    }
+
+    const authorization = headers['authorization'];
+    const apiKeyHeader = headers['x-api-key'];
+    let credential: string | undefined;
+    if (typeof authorization === 'string' && /^Bearer\s+/i.test(authorization)) {
+      credential = authorization.replace(/^Bearer\s+/i, '').trim();
+    } else if (typeof apiKeyHeader === 'string') {
+      credential = apiKeyHeader.trim();
+    }
+
+    if (!credential) {
+      throw new AuthError(401, 'Missing credentials');
+    }
+
+    const credentialHash = hashKey(credential);
+    const key = this.keys.find(k => timingSafeEqual(k.keyHash, credentialHash));
+    if (!key) {
+      throw new AuthError(401, 'Invalid credentials');
+    }
+
+    return { name: key.name, scopes: key.scopes, namespace: key.namespace, keyHash: key.keyHash };
+  }
+
+  authorize(principal: Principal, required: Scope, action: string): void {
+    if (!hasScope(principal, required)) {
+      throw new AuthError(403, `${action} requires the ${required} scope`);
+    }
+  }
+
+  resolveNamespace(principal: Principal, requested: string | undefined, fallback: string): string {
+    if (principal.namespace) {
+      if (requested !== undefined) {
+        authorizeNamespace(principal, requested);
+      }
+      return principal.namespace;
+    }
+    return requested ?? fallback;
+  }
+}
+
+export function isOriginAllowed(origin: string, allowedOrigins: string[]): boolean {
+  return allowedOrigins.includes('*') || allowedOrigins.includes(origin);
+}
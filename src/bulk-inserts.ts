@@ -0,0 +1,80 @@
+import { PoolClient } from 'pg';
+import { ObservationInput, Properties } from './types.js';
+
+export interface EntityRow {
+  name: string;
+  entityType: string;
+  properties?: Properties;
+  // Kept by imports; NOW() otherwise
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ObservationRow {
+  entityId: number;
+  observation: ObservationInput & { createdAt?: string };
+}
+
+// Aliases left behind by trashed entities give way to new names and aliases
+export async function releaseTrashedAliases(client: PoolClient, namespace: string, aliases: string[]): Promise<void> {
+  await client.query(`
+    DELETE FROM entity_aliases a
+    USING entities e
+    WHERE e.id = a.entity_id AND a.namespace = $1 AND a.alias = ANY($2) AND e.deleted_at IS NOT NULL
+  `, [namespace, aliases]);
+}
+
+// Inserts new entities with one statement and returns their IDs by name. Names created
+// concurrently since they were resolved conflict and are left out.
+export async function insertEntities(client: PoolClient, namespace: string, entities: EntityRow[]): Promise<Map<string, number>> {
+  if (entities.length === 0) {
+    return new Map();
+  }
+  await releaseTrashedAliases(client, namespace, entities.map(entity => entity.name));
+  const inserted = await client.query(`
+    INSERT INTO entities (namespace, name, entity_type, properties, created_at, updated_at)
+    SELECT $1, x.name, x.entity_type, x.properties::jsonb, COALESCE(x.created_at, NOW()), COALESCE(x.updated_at, NOW())
+    FROM unnest($2::text[], $3::text[], $4::text[], $5::timestamp[], $6::timestamp[])
+      WITH ORDINALITY AS x(name, entity_type, properties, created_at, updated_at, ord)
+    ORDER BY x.ord
+    ON CONFLICT (namespace, name) WHERE deleted_at IS NULL DO NOTHING
+    RETURNING id, name
+  `, [
+    namespace,
+    entities.map(entity => entity.name),
+    entities.map(entity => entity.entityType),
+    entities.map(entity => JSON.stringify(entity.properties ?? {})),
+    entities.map(entity => entity.createdAt ?? null),
+    entities.map(entity => entity.updatedAt ?? null),
+  ]);
+  return new Map(inserted.rows.map(row => [row.name, row.id]));
+}
+
+// Inserts the observations in one statement and returns their IDs in the given order.
+// Rows are inserted in ordinality order and draw their IDs as they go, so sorting the
+// returned IDs restores that order.
+export async function insertObservations(client: PoolClient, rows: ObservationRow[]): Promise<number[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+  const result = await client.query(`
+    INSERT INTO observations (entity_id, content, source, confidence, author, tags, valid_until, created_at)
+    SELECT x.entity_id, x.content, x.source, x.confidence, x.author,
+           ARRAY(SELECT jsonb_array_elements_text(x.tags::jsonb)), x.valid_until, COALESCE(x.created_at, NOW())
+    FROM unnest($1::int[], $2::text[], $3::text[], $4::real[], $5::text[], $6::text[], $7::timestamptz[], $8::timestamp[])
+      WITH ORDINALITY AS x(entity_id, content, source, confidence, author, tags, valid_until, created_at, ord)
+    ORDER BY x.ord
+    RETURNING id
+  `, [
+    rows.map(row => row.entityId),
+    rows.map(row => row.observation.content),
+    rows.map(row => row.observation.source ?? null),
+    rows.map(row => row.observation.confidence ?? null),
+    rows.map(row => row.observation.author ?? null),
+    // Tags differ in length per row, which a two-dimensional array cannot hold
+    rows.map(row => JSON.stringify(row.observation.tags ?? [])),
+    rows.map(row => row.observation.validUntil ?? null),
+    rows.map(row => row.observation.createdAt ?? null),
+  ]);
+  return result.rows.map(row => row.id as number).sort((a, b) => a - b);
+}
@@ -0,0 +1,121 @@
+import { DatabaseConnection } from './database.js';
+
+// A committed change, as announced by the change_log trigger of migration 012
+export interface GraphChange {
+  namespace: string;
+  // Entities the change touched
+  entityIds: number[];
+  // Their names, and for changes to entity rows the names and types before and after
+  names: string[];
+  entityTypes: string[];
+  // Names and types did not fit the notification; any entity of the namespace may be affected
+  truncated: boolean;
+}
+
+export type ChangeListener = (changes: GraphChange[]) => void;
+
+const CHANNEL = 'memory_changes';
+// Changes arriving within this window are delivered together, so a bulk write is one batch
+const BATCH_DELAY_MS = 250;
+const RECONNECT_DELAY_MS = 5000;
+
+// Delivers the committed changes of every process writing to the database. One connection
+// listens while there are listeners; changes made while it is reconnecting are missed.
+export class ChangeFeed {
+  private static instance: ChangeFeed;
+  private db: DatabaseConnection;
+  private listeners = new Set<ChangeListener>();
+  private connection: Promise<() => void> | null = null;
+  private pending: GraphChange[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  private constructor() {
+    this.db = DatabaseConnection.getInstance();
+  }
+
+  static getInstance(): ChangeFeed {
+    if (!ChangeFeed.instance) {
+      ChangeFeed.instance = new ChangeFeed();
+    }
+    return ChangeFeed.instance;
+  }
+
+  // Returns a function that removes the listener again
+  async subscribe(listener: ChangeListener): Promise<() => void> {
+    this.listeners.add(listener);
+    try {
+      await this.connect();
+    } catch (error) {
+      this.remove(listener);
+      throw error;
+    }
+    return () => this.remove(listener);
+  }
+
+  private remove(listener: ChangeListener): void {
+    this.listeners.delete(listener);
+    if (this.listeners.size === 0 && this.connection) {
+      const connection = this.connection;
+      this.connection = null;
+      connection.then(stop => stop(), () => undefined);
+    }
+  }
+
+  private connect(): Promise<() => void> {
+    if (!this.connection) {
+      const connection = this.db.listen(CHANNEL, payload => this.receive(payload), error => {
+        console.error('Change notifications interrupted, reconnecting:', error.message);
+        if (this.connection === connection) {
+          this.connection = null;
+        }
+        const timer = setTimeout(() => {
+          if (this.listeners.size > 0) {
+            this.connect().catch(reconnectError => console.error('Reconnecting change notifications failed:', reconnectError));
+          }
+        }, RECONNECT_DELAY_MS);
+        timer.unref();
+      });
+      this.connection = connection;
+      connection.catch(() => {
+        if (this.connection === connection) {
+          this.connection = null;
+        }
+      });
+    }
+    return this.connection;
+  }
+
+  private receive(payload: string): void {
+    try {
+      const change = JSON.parse(payload);
+      this.pending.push({
+        namespace: change.namespace,
+        entityIds: change.entityIds ?? [],
+        names: change.names ?? [],
+        entityTypes: change.entityTypes ?? [],
+        truncated: Boolean(change.truncated),
+      });
+    } catch (error) {
+      console.error('Ignoring malformed change notification:', error);
+      return;
+    }
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), BATCH_DELAY_MS);
+      this.flushTimer.unref();
+    }
+  }
+
+  private flush(): void {
+    const changes = this.pending;
+    this.pending = [];
+    this.flushTimer = null;
+    for (const listener of this.listeners) {
+      try {
+        listener(changes);
+      } catch (error) {
+        console.error('Change listener failed:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { DatabaseConnection } from './database.js';
+import { AuditContext, applyAuditContext } from './history.js';
+import { NameResolver } from './name-resolver.js';
+import { OBSERVATION_JSON, observationDetailFromRow } from './observation-metadata.js';
+import { Summarizer, getSummarizer } from './summarizers.js';
+import { ObservationDetail } from './types.js';
+
+export interface ConsolidationOptions {
+  // Only observations at least this many days old are consolidated, so recent ones stay verbatim
+  minAgeDays?: number;
+  // Compute the summary without keeping it
+  dryRun?: boolean;
+}
+
+export interface ConsolidationReport {
+  entityName: string;
+  summarizer: string;
+  // Observations archived behind the summary
+  consolidated: number;
+  // null when there were fewer than two observations to consolidate
+  summary: ObservationDetail | null;
+}
+
+export interface ConsolidationJobOptions {
+  intervalHours: number;
+  // Entities are consolidated once they have this many observations old enough to consolidate
+  threshold: number;
+  minAgeDays: number;
+}
+
+const SUMMARY_TAG = 'consolidated';
+const SUMMARY_SOURCE_PREFIX = 'consolidation:';
+const MIN_CONSOLIDATED = 2;
+const MAX_ENTITIES_PER_RUN = 100;
+
+// Replaces an entity's observations with one summary observation. The originals are kept as
+// observations superseded by the summary, so they stay available with `includeSuperseded`.
+// Observations with a validUntil are left alone, as they expire on their own.
+export class Consolidator {
+  private db: DatabaseConnection;
+  private namespace: string;
+  private audit: AuditContext;
+  private summarizer: Summarizer | null;
+  private resolver: NameResolver;
+
+  constructor(namespace: string, audit: AuditContext = {}, summarizer: Summarizer | null = getSummarizer()) {
+    this.db = DatabaseConnection.getInstance();
+    this.namespace = namespace;
+    this.audit = audit;
+    this.summarizer = summarizer;
+    this.resolver = new NameResolver(namespace);
+  }
+
+  async consolidateEntity(name: string, options: ConsolidationOptions = {}): Promise<ConsolidationReport> {
+    const summarizer = this.summarizer;
+    if (!summarizer) {
+      throw new Error('Consolidation is disabled (MEMORY_SUMMARIZER_PROVIDER=none)');
+    }
+    const minAgeDays = Math.max(options.minAgeDays ?? 0, 0);
+
+    const entity = await this.resolver.require(this.db, name);
+    // Earlier summaries are always included, however recent, so they are folded into the new one
+    const observations = await this.db.query(`
+      SELECT id, content, ($2 = ANY(tags) AND source LIKE $3) AS summary
+      FROM observations
+      WHERE entity_id = $1 AND deleted_at IS NULL AND superseded_by IS NULL AND valid_until IS NULL
+        AND (created_at <= NOW() - $4::float * interval '1 day' OR ($2 = ANY(tags) AND source LIKE $3))
+      ORDER BY created_at, id
+    `, [entity.id, SUMMARY_TAG, `${SUMMARY_SOURCE_PREFIX}%`, minAgeDays]);
+
+    const report: ConsolidationReport = { entityName: entity.name, summarizer: summarizer.id, consolidated: 0, summary: null };
+    if (observations.rows.length < MIN_CONSOLIDATED) {
+      return report;
+    }
+
+    // Summarizing may take a while with an HTTP provider, so it happens outside the transaction
+    const content = await summarizer.summarize({
+      name: entity.name,
+      entityType: entity.entity_type,
+      observations: observations.rows.map(row => ({ content: row.content, summary: row.summary })),
+    });
+
+    const ids = observations.rows.map(row => row.id);
+    const client = await this.db.getClient();
+
+    try {
+      await client.query('BEGIN');
+      await applyAuditContext(client, this.audit);
+
+      const summary = await client.query(`
+        INSERT INTO observations AS o (entity_id, content, source, tags)
+        VALUES ($1, $2, $3, $4)
+        RETURNING ${OBSERVATION_JSON} AS observation
+      `, [entity.id, content, SUMMARY_SOURCE_PREFIX + summarizer.id, [SUMMARY_TAG]]);
+      const summaryId = summary.rows[0].observation.id;
+
+      const archived = await client.query(
+        'UPDATE observations SET superseded_by = $1 WHERE id = ANY($2) AND deleted_at IS NULL AND superseded_by IS NULL',
+        [summaryId, ids]
+      );
+      if (archived.rowCount !== ids.length) {
+        throw new Error(`Observations of ${entity.name} changed during consolidation; try again`);
+      }
+
+      await client.query(options.dryRun ? 'ROLLBACK' : 'COMMIT');
+      report.consolidated = ids.length;
+      report.summary = observationDetailFromRow(summary.rows[0].observation);
+      return report;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+// Consolidates, in every namespace, the entities with at least `threshold` observations
+// older than `minAgeDays`, now and then every `intervalHours`
+export function startConsolidationJob(options: ConsolidationJobOptions): NodeJS.Timeout {
+  const summarizer = getSummarizer();
+  if (!summarizer) {
+    throw new Error('Scheduled consolidation needs a summarizer, but MEMORY_SUMMARIZER_PROVIDER is none');
+  }
+
+  const db = DatabaseConnection.getInstance();
+  let running = false;
+  const consolidate = async () => {
+    // A slow summarizer may still be working through the previous run
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const candidates = await db.query(`
+        SELECT e.namespace, e.name
+        FROM entities e
+        JOIN observations o ON o.entity_id = e.id
+        WHERE e.deleted_at IS NULL AND o.deleted_at IS NULL AND o.superseded_by IS NULL AND o.valid_until IS NULL
+          AND o.created_at <= NOW() - $2::float * interval '1 day'
+        GROUP BY e.id, e.namespace, e.name
+        HAVING COUNT(*) >= $1
+        ORDER BY COUNT(*) DESC
+        LIMIT $3
+      `, [options.threshold, options.minAgeDays, MAX_ENTITIES_PER_RUN]);
+
+      let consolidated = 0;
+      for (const { namespace, name } of candidates.rows) {
+        try {
+          const consolidator = new Consolidator(namespace, { tool: 'consolidation-job' }, summarizer);
+          consolidated += (await consolidator.consolidateEntity(name, { minAgeDays: options.minAgeDays })).consolidated;
+        } catch (error) {
+          console.error(`Consolidating ${name} in namespace ${namespace} failed:`, error);
+        }
+      }
+      if (candidates.rows.length > 0) {
+        console.error(`Consolidated ${consolidated} observations of ${candidates.rows.length} entities`);
+      }
+    } catch (error) {
+      console.error('Consolidation failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void consolidate();
+  const timer = setInterval(consolidate, options.intervalHours * 60 * 60 * 1000);
+  timer.unref();
+  return timer;
+}
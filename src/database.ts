@@ -1,13 +1,11 @@
 import { Pool, PoolClient } from 'pg';
-import { promises as fs } from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
-
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
+import { MigrationRunner } from './migrations.js';
 
 export class DatabaseConnection {
   private static instance: DatabaseConnection;
   private pool: Pool;
+  // Connections held by listen(); close() ends them so the pool can drain
+  private listeners = new Set<PoolClient>();
 
   private constructor() {
     const connectionString = process.env.DATABASE_URL || 
@@ -46,7 +44,42 @@ export class DatabaseConnection {
     return this.pool.query(text, params);
   }
 
+  // Holds a pooled connection that LISTENs on `channel` and passes on each payload. The
+  // returned function ends it; when the connection is lost, `onError` is called instead.
+  public async listen(channel: string, onNotification: (payload: string) => void, onError: (error: Error) => void): Promise<() => void> {
+    const client = await this.getClient();
+    // The connection would keep listening, so it is closed rather than returned to the pool
+    const end = (error?: Error) => {
+      if (this.listeners.delete(client)) {
+        client.release(error ?? true);
+      }
+    };
+
+    this.listeners.add(client);
+    client.on('notification', message => {
+      if (message.channel === channel && message.payload !== undefined) {
+        onNotification(message.payload);
+      }
+    });
+    client.on('error', error => {
+      end(error);
+      onError(error);
+    });
+
+    try {
+      await client.query(`LISTEN ${client.escapeIdentifier(channel)}`);
+    } catch (error) {
+      end(error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+    return () => end();
+  }
+
   public async close(): Promise<void> {
+    for (const client of this.listeners) {
+      client.release(true);
+    }
+    this.listeners.clear();
     await this.pool.end();
   }
 
@@ -83,100 +116,25 @@ export class DatabaseConnection {
     // Wait for database to be available
     await this.waitForDatabase();
 
-    const client = await this.getClient();
     try {
-      // Check if entities table exists
-      const result = await client.query(`
-        SELECT EXISTS (
-          SELECT FROM information_schema.tables 
-          WHERE table_schema = 'public' AND table_name = 'entities'
-        );
-      `);
-
-      if (!result.rows[0].exists) {
-        console.error('Database not initialized. Running migrations...');
-        await this.runMigrations();
-      } else {
-        console.error('Database already initialized');
-      }
+      await this.runMigrations();
     } catch (error) {
-      console.error('Error checking database state:', error);
+      console.error('Error running migrations:', error);
       throw error;
-    } finally {
-      client.release();
     }
   }
 
-  private async runMigrations(): Promise<void> {
-    const client = await this.getClient();
-    try {
-      console.error('Creating database schema inline...');
-      const migrationSQL = `
-        -- Create entities table
-        CREATE TABLE IF NOT EXISTS entities (
-            id SERIAL PRIMARY KEY,
-            name TEXT UNIQUE NOT NULL,
-            entity_type TEXT NOT NULL,
-            created_at TIMESTAMP DEFAULT NOW(),
-            updated_at TIMESTAMP DEFAULT NOW()
-        );
-
-        -- Create observations table  
-        CREATE TABLE IF NOT EXISTS observations (
-            id SERIAL PRIMARY KEY,
-            entity_id INTEGER REFERENCES entities(id) ON DELETE CASCADE,
-            content TEXT NOT NULL,
-            created_at TIMESTAMP DEFAULT NOW()
-        );
-
-        -- Create relations table
-        CREATE TABLE IF NOT EXISTS relations (
-            id SERIAL PRIMARY KEY,
-            from_entity_id INTEGER REFERENCES entities(id) ON DELETE CASCADE,
-            to_entity_id INTEGER REFERENCES entities(id) ON DELETE CASCADE,
-            relation_type TEXT NOT NULL,
-            created_at TIMESTAMP DEFAULT NOW(),
-            UNIQUE(from_entity_id, to_entity_id, relation_type)
-        );
-
-        -- Create indexes for performance
-        CREATE INDEX IF NOT EXISTS idx_entities_name ON entities(name);
-        CREATE INDEX IF NOT EXISTS idx_entities_type ON entities(entity_type);
-        CREATE INDEX IF NOT EXISTS idx_observations_entity_id ON observations(entity_id);
-        CREATE INDEX IF NOT EXISTS idx_relations_from ON relations(from_entity_id);
-        CREATE INDEX IF NOT EXISTS idx_relations_to ON relations(to_entity_id);
-        CREATE INDEX IF NOT EXISTS idx_relations_type ON relations(relation_type);
-
-        -- Full-text search index for observations
-        CREATE INDEX IF NOT EXISTS idx_observations_content_fts ON observations USING gin(to_tsvector('english', content));
-        CREATE INDEX IF NOT EXISTS idx_entities_name_fts ON entities USING gin(to_tsvector('english', name));
-
-        -- Function to update updated_at timestamp
-        CREATE OR REPLACE FUNCTION update_updated_at_column()
-        RETURNS TRIGGER AS $$
-        BEGIN
-            NEW.updated_at = NOW();
-            RETURN NEW;
-        END;
-        $$ language 'plpgsql';
-
-        -- Trigger to automatically update updated_at
-        DROP TRIGGER IF EXISTS update_entities_updated_at ON entities;
-        CREATE TRIGGER update_entities_updated_at BEFORE UPDATE ON entities
-            FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-      `;
-      
-      await client.query('BEGIN');
-      await client.query(migrationSQL);
-      await client.query('COMMIT');
-      
-      console.error('Database migrations completed successfully');
-    } catch (error) {
-      await client.query('ROLLBACK');
-      console.error('Error running migrations:', error);
-      throw error;
-    } finally {
-      client.release();
+  // Like initializeDatabase, but fails on an out-of-date schema instead of migrating it
+  public async verifyDatabase(): Promise<void> {
+    await this.waitForDatabase();
+    const pending = await new MigrationRunner(this.pool).pending();
+    if (pending.length > 0) {
+      throw new Error(`Database schema is out of date, pending: ${pending.map(m => m.filename).join(', ')}. Run npm run migrate first`);
     }
   }
-}
\ No newline at end of file
+
+  public async runMigrations(): Promise<void> {
+    const runner = new MigrationRunner(this.pool);
+    await runner.up();
+  }
+}
@@ -0,0 +1,305 @@
+import { DatabaseConnection } from './database.js';
+import { hasEmbeddingColumns } from './semantic-search.js';
+import { hasTrigramSupport } from './name-resolver.js';
+
+export interface DuplicateOptions {
+  entityTypes?: string[];
+  // Clusters are built from pairs scoring at least this much (0-1)
+  minScore?: number;
+  // Maximum number of clusters returned
+  limit?: number;
+}
+
+export interface DuplicateEvidence {
+  entities: [string, string];
+  score: number;
+  // Trigram similarity of the names, or 1 when they only differ in case and punctuation
+  nameSimilarity: number;
+  // Cosine similarity of the name embeddings; null when they are not comparable
+  embeddingSimilarity: number | null;
+  // Jaccard overlap of the observations and of the neighbours
+  observationOverlap: number;
+  sharedObservations: string[];
+  neighborOverlap: number;
+  sharedNeighbors: string[];
+}
+
+export interface DuplicateEntity {
+  name: string;
+  entityType: string;
+  observations: number;
+  relations: number;
+}
+
+// `target` and `sources` are the arguments of merge_entities. The target is the member
+// with the most observations and relations.
+export interface DuplicateCluster {
+  target: string;
+  sources: string[];
+  // The best pair score in the cluster
+  score: number;
+  entities: DuplicateEntity[];
+  evidence: DuplicateEvidence[];
+}
+
+export interface DuplicateReport {
+  clusters: DuplicateCluster[];
+  // Without pg_trgm, names only count as similar when they differ in case and punctuation
+  trigramMatching: boolean;
+  // More candidate pairs or clusters were found than were scored or returned
+  truncated: boolean;
+}
+
+const DEFAULT_MIN_SCORE = 0.6;
+const DEFAULT_CLUSTER_LIMIT = 50;
+const MAX_CLUSTER_LIMIT = 500;
+const MAX_CANDIDATE_PAIRS = 5000;
+// Observations and neighbours shared by more entities than this say little about identity
+// and would make the candidate set quadratic
+const MAX_SHARED_BY = 25;
+const MAX_EVIDENCE_ITEMS = 5;
+
+// Each signal on its own can push a pair up to its weight; together they combine as
+// independent evidence, so a missing signal never drags the score down
+const SIGNAL_WEIGHTS = {
+  name: 0.9,
+  observations: 0.7,
+  embedding: 0.6,
+  neighbors: 0.4,
+};
+// Unrelated names still embed with some similarity; only the part above this counts
+const EMBEDDING_FLOOR = 0.6;
+
+interface EntityRow {
+  id: number;
+  name: string;
+  entityType: string;
+  // Normalised content -> original content
+  observations: Map<string, string>;
+  neighbors: Map<number, string>;
+  relations: number;
+}
+
+function overlap<K>(a: Map<K, unknown>, b: Map<K, unknown>, ignore: K[] = []): { score: number; shared: K[] } {
+  const keysA = [...a.keys()].filter(k => !ignore.includes(k));
+  const keysB = new Set([...b.keys()].filter(k => !ignore.includes(k)));
+  const shared = keysA.filter(k => keysB.has(k));
+  const union = keysA.length + keysB.size - shared.length;
+  return { score: union === 0 ? 0 : shared.length / union, shared };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Scores pairs of live entities in one namespace that look like the same thing. Candidate
+// pairs come from similar names, shared observations or shared neighbours; every candidate
+// is then scored on all signals and pairs above the threshold are joined into clusters.
+export class DuplicateFinder {
+  private db: DatabaseConnection;
+  private namespace: string;
+
+  constructor(namespace: string) {
+    this.db = DatabaseConnection.getInstance();
+    this.namespace = namespace;
+  }
+
+  async find(options: DuplicateOptions = {}): Promise<DuplicateReport> {
+    const minScore = Math.min(Math.max(options.minScore ?? DEFAULT_MIN_SCORE, 0), 1);
+    const limit = Math.min(Math.max(Math.floor(options.limit ?? DEFAULT_CLUSTER_LIMIT), 1), MAX_CLUSTER_LIMIT);
+    const trigram = await hasTrigramSupport(this.db);
+
+    const candidates = await this.db.query(`
+      WITH live AS (
+        SELECT id, name, regexp_replace(lower(name), '[^[:alnum:]]+', '', 'g') AS norm
+        FROM entities
+        WHERE namespace = $1 AND deleted_at IS NULL AND ($2::text[] IS NULL OR entity_type = ANY($2))
+      ),
+      obs AS (
+        SELECT DISTINCT o.entity_id, lower(btrim(o.content)) AS content
+        FROM observations o
+        JOIN live l ON l.id = o.entity_id
+        WHERE o.deleted_at IS NULL
+      ),
+      adj AS (
+        SELECT l.id AS entity_id, CASE WHEN r.from_entity_id = l.id THEN r.to_entity_id ELSE r.from_entity_id END AS neighbor_id
+        FROM live l
+        JOIN relations r ON (r.from_entity_id = l.id OR r.to_entity_id = l.id) AND r.deleted_at IS NULL
+        WHERE r.from_entity_id <> r.to_entity_id
+      ),
+      pairs AS (
+        SELECT a.id AS a_id, b.id AS b_id FROM live a JOIN live b ON a.id < b.id AND a.norm = b.norm
+        ${trigram ? 'UNION SELECT a.id, b.id FROM live a JOIN live b ON a.id < b.id AND a.name % b.name' : ''}
+        UNION
+        SELECT x.entity_id, y.entity_id
+        FROM obs x
+        JOIN obs y ON y.content = x.content AND x.entity_id < y.entity_id
+        WHERE x.content IN (SELECT content FROM obs GROUP BY content HAVING COUNT(*) <= $3)
+        UNION
+        SELECT x.entity_id, y.entity_id
+        FROM adj x
+        JOIN adj y ON y.neighbor_id = x.neighbor_id AND x.entity_id < y.entity_id
+        WHERE x.neighbor_id IN (SELECT neighbor_id FROM adj GROUP BY neighbor_id HAVING COUNT(DISTINCT entity_id) <= $3)
+      )
+      SELECT p.a_id, p.b_id,
+             GREATEST(CASE WHEN a.norm = b.norm AND a.norm <> '' THEN 1 ELSE 0 END,
+                      ${trigram ? 'similarity(a.name, b.name)' : '0'}) AS name_similarity
+      FROM pairs p
+      JOIN live a ON a.id = p.a_id
+      JOIN live b ON b.id = p.b_id
+      ORDER BY name_similarity DESC, p.a_id, p.b_id
+      LIMIT $4
+    `, [this.namespace, options.entityTypes ?? null, MAX_SHARED_BY, MAX_CANDIDATE_PAIRS + 1]);
+
+    let truncated = candidates.rows.length > MAX_CANDIDATE_PAIRS;
+    const pairs = candidates.rows.slice(0, MAX_CANDIDATE_PAIRS).map(row => ({
+      a: row.a_id as number,
+      b: row.b_id as number,
+      nameSimilarity: Number(row.name_similarity),
+    }));
+    if (pairs.length === 0) {
+      return { clusters: [], trigramMatching: trigram, truncated };
+    }
+
+    const entities = await this.loadEntities([...new Set(pairs.flatMap(p => [p.a, p.b]))]);
+    const embeddings = await this.embeddingSimilarities(pairs);
+
+    const scored: { a: EntityRow; b: EntityRow; evidence: DuplicateEvidence }[] = [];
+    for (const pair of pairs) {
+      const a = entities.get(pair.a)!;
+      const b = entities.get(pair.b)!;
+      const observations = overlap(a.observations, b.observations);
+      const neighbors = overlap(a.neighbors, b.neighbors, [a.id, b.id]);
+      const embedding = embeddings.get(`${pair.a}:${pair.b}`) ?? null;
+      const embeddingSignal = embedding === null ? 0 : Math.max(0, (embedding - EMBEDDING_FLOOR) / (1 - EMBEDDING_FLOOR));
+
+      const score = 1
+        - (1 - SIGNAL_WEIGHTS.name * pair.nameSimilarity)
+        * (1 - SIGNAL_WEIGHTS.observations * observations.score)
+        * (1 - SIGNAL_WEIGHTS.embedding * embeddingSignal)
+        * (1 - SIGNAL_WEIGHTS.neighbors * neighbors.score);
+      if (score < minScore) {
+        continue;
+      }
+
+      scored.push({
+        a,
+        b,
+        evidence: {
+          entities: [a.name, b.name],
+          score: round(score),
+          nameSimilarity: round(pair.nameSimilarity),
+          embeddingSimilarity: embedding === null ? null : round(embedding),
+          observationOverlap: round(observations.score),
+          sharedObservations: observations.shared.slice(0, MAX_EVIDENCE_ITEMS).map(k => a.observations.get(k)!),
+          neighborOverlap: round(neighbors.score),
+          sharedNeighbors: neighbors.shared.slice(0, MAX_EVIDENCE_ITEMS).map(id => a.neighbors.get(id)!),
+        },
+      });
+    }
+
+    const clusters = this.cluster(scored);
+    truncated = truncated || clusters.length > limit;
+    return { clusters: clusters.slice(0, limit), trigramMatching: trigram, truncated };
+  }
+
+  private async loadEntities(ids: number[]): Promise<Map<number, EntityRow>> {
+    const result = await this.db.query(
+      'SELECT id, name, entity_type FROM entities WHERE id = ANY($1)',
+      [ids]
+    );
+    const entities = new Map<number, EntityRow>(result.rows.map(row => [row.id, {
+      id: row.id,
+      name: row.name,
+      entityType: row.entity_type,
+      observations: new Map(),
+      neighbors: new Map(),
+      relations: 0,
+    }]));
+
+    const observations = await this.db.query(
+      'SELECT entity_id, content FROM observations WHERE entity_id = ANY($1) AND deleted_at IS NULL ORDER BY created_at, id',
+      [ids]
+    );
+    for (const row of observations.rows) {
+      entities.get(row.entity_id)!.observations.set(row.content.trim().toLowerCase(), row.content);
+    }
+
+    const relations = await this.db.query(`
+      SELECT r.from_entity_id, r.to_entity_id, ef.name AS from_name, et.name AS to_name
+      FROM relations r
+      JOIN entities ef ON ef.id = r.from_entity_id
+      JOIN entities et ON et.id = r.to_entity_id
+      WHERE (r.from_entity_id = ANY($1) OR r.to_entity_id = ANY($1))
+        AND r.deleted_at IS NULL AND ef.deleted_at IS NULL AND et.deleted_at IS NULL
+    `, [ids]);
+    for (const row of relations.rows) {
+      const from = entities.get(row.from_entity_id);
+      const to = entities.get(row.to_entity_id);
+      if (from) {
+        from.relations++;
+        from.neighbors.set(row.to_entity_id, row.to_name);
+      }
+      if (to && to !== from) {
+        to.relations++;
+        to.neighbors.set(row.from_entity_id, row.from_name);
+      }
+    }
+    return entities;
+  }
+
+  // Only name embeddings from the same model are comparable
+  private async embeddingSimilarities(pairs: { a: number; b: number }[]): Promise<Map<string, number>> {
+    if (!(await hasEmbeddingColumns(this.db))) {
+      return new Map();
+    }
+    const result = await this.db.query(`
+      SELECT v.a_id, v.b_id, 1 - (a.embedding <=> b.embedding) AS similarity
+      FROM unnest($1::int[], $2::int[]) AS v(a_id, b_id)
+      JOIN entities a ON a.id = v.a_id
+      JOIN entities b ON b.id = v.b_id
+      WHERE a.embedding IS NOT NULL AND b.embedding IS NOT NULL AND a.embedding_model = b.embedding_model
+    `, [pairs.map(p => p.a), pairs.map(p => p.b)]);
+    return new Map(result.rows.map(row => [`${row.a_id}:${row.b_id}`, Number(row.similarity)]));
+  }
+
+  // Connected components of the scored pairs, best first
+  private cluster(scored: { a: EntityRow; b: EntityRow; evidence: DuplicateEvidence }[]): DuplicateCluster[] {
+    const parent = new Map<number, number>();
+    const find = (id: number): number => {
+      const p = parent.get(id) ?? id;
+      if (p === id) {
+        return id;
+      }
+      const root = find(p);
+      parent.set(id, root);
+      return root;
+    };
+    for (const { a, b } of scored) {
+      parent.set(find(a.id), find(b.id));
+    }
+
+    const groups = new Map<number, { members: Map<number, EntityRow>; evidence: DuplicateEvidence[] }>();
+    for (const { a, b, evidence } of scored) {
+      const root = find(a.id);
+      const group = groups.get(root) ?? { members: new Map<number, EntityRow>(), evidence: [] as DuplicateEvidence[] };
+      group.members.set(a.id, a);
+      group.members.set(b.id, b);
+      group.evidence.push(evidence);
+      groups.set(root, group);
+    }
+
+    return [...groups.values()].map(({ members, evidence }) => {
+      const ranked = [...members.values()].sort((x, y) =>
+        (y.observations.size + y.relations) - (x.observations.size + x.relations) || x.id - y.id);
+      evidence.sort((x, y) => y.score - x.score);
+      return {
+        target: ranked[0].name,
+        sources: ranked.slice(1).map(e => e.name),
+        score: evidence[0].score,
+        entities: ranked.map(e => ({ name: e.name, entityType: e.entityType, observations: e.observations.size, relations: e.relations })),
+        evidence,
+      };
+    }).sort((x, y) => y.score - x.score || x.target.localeCompare(y.target));
+  }
+}
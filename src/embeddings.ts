@@ -0,0 +1,137 @@
+export interface EmbeddingProvider {
+  // Stored next to every vector so embeddings from different models are never compared
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Offline embedder based on feature hashing of words and character trigrams. It needs no
+// model download and is fully deterministic, but only captures lexical similarity
+// ("invoice" ~ "invoicing"), not meaning; use an HTTP provider for real semantics.
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private dimensions: number;
+
+  constructor(dimensions: number = 256) {
+    if (!Number.isInteger(dimensions) || dimensions < 8) {
+      throw new Error(`Invalid embedding dimensions: ${dimensions}`);
+    }
+    this.dimensions = dimensions;
+    this.id = `hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * weight;
+    };
+
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+      add(`w:${word}`, 1);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+    return norm === 0 ? vector : vector.map(x => x / norm);
+  }
+}
+
+// Calls an OpenAI-compatible `/embeddings` endpoint (OpenAI, Ollama, vLLM, LocalAI, ...)
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private url: string;
+  private model: string;
+  private apiKey?: string;
+  private batchSize: number;
+
+  constructor(options: { url: string; model: string; apiKey?: string; batchSize?: number }) {
+    this.url = options.url;
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.batchSize = options.batchSize ?? 64;
+    this.id = `http:${options.model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const batch = texts.slice(i, i + this.batchSize);
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: this.model, input: batch }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding request failed with HTTP ${response.status}: ${await response.text()}`);
+      }
+
+      const result = await response.json() as { data?: { index?: number; embedding: number[] }[] };
+      if (!Array.isArray(result.data) || result.data.length !== batch.length) {
+        throw new Error(`Embedding response has ${result.data?.length ?? 0} embeddings for ${batch.length} inputs`);
+      }
+
+      const ordered = [...result.data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+      embeddings.push(...ordered.map(item => item.embedding));
+    }
+
+    return embeddings;
+  }
+}
+
+// MEMORY_EMBEDDING_PROVIDER selects `hash` (default), `http` or `none`
+export function createEmbeddingProvider(env: NodeJS.ProcessEnv = process.env): EmbeddingProvider | null {
+  const provider = env.MEMORY_EMBEDDING_PROVIDER || 'hash';
+
+  switch (provider) {
+    case 'none':
+      return null;
+    case 'hash':
+      return new HashingEmbeddingProvider(parseInt(env.MEMORY_EMBEDDING_DIMENSIONS || '256', 10));
+    case 'http':
+      if (!env.MEMORY_EMBEDDING_URL || !env.MEMORY_EMBEDDING_MODEL) {
+        throw new Error('MEMORY_EMBEDDING_URL and MEMORY_EMBEDDING_MODEL are required for the http embedding provider');
+      }
+      return new HttpEmbeddingProvider({
+        url: env.MEMORY_EMBEDDING_URL,
+        model: env.MEMORY_EMBEDDING_MODEL,
+        apiKey: env.MEMORY_EMBEDDING_API_KEY,
+      });
+    default:
+      throw new Error(`Unknown embedding provider: ${provider}. Expected hash, http or none`);
+  }
+}
+
+let defaultProvider: EmbeddingProvider | null | undefined;
+
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (defaultProvider === undefined) {
+    defaultProvider = createEmbeddingProvider();
+  }
+  return defaultProvider;
+}
+
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
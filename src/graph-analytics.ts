@@ -0,0 +1,375 @@
+import { PoolClient } from 'pg';
+import { DatabaseConnection } from './database.js';
+
+export type CentralityMeasure = 'pagerank' | 'degree';
+
+export const CENTRALITY_MEASURES: CentralityMeasure[] = ['pagerank', 'degree'];
+
+export interface GraphStatsOptions {
+  // Maximum number of names listed per section
+  limit?: number;
+}
+
+export interface AnalyticsOptions {
+  centrality?: CentralityMeasure;
+  // Only relations of these types count as edges
+  relationTypes?: string[];
+  // Maximum number of entities listed per section
+  limit?: number;
+}
+
+export interface EntityGroup {
+  size: number;
+  // Most connected first, up to the limit
+  entities: string[];
+}
+
+export interface GraphStats {
+  entities: number;
+  relations: number;
+  observations: number;
+  entityTypes: { entityType: string; count: number }[];
+  relationTypes: { relationType: string; count: number }[];
+  // Entities per degree range; `min` and `max` are inclusive and grow in powers of two
+  degreeDistribution: { min: number; max: number; count: number }[];
+  meanDegree: number;
+  maxDegree: number;
+  // Entities without any relation
+  orphans: { count: number; names: string[] };
+  withoutObservations: { count: number; names: string[] };
+  components: { count: number; largest: EntityGroup[] };
+  computedAt: string;
+}
+
+export interface GraphAnalytics {
+  centrality: {
+    measure: CentralityMeasure;
+    entities: { name: string; entityType: string; score: number; degree: number }[];
+  };
+  components: { count: number; largest: EntityGroup[] };
+  communities: { count: number; largest: EntityGroup[] };
+  computedAt: string;
+}
+
+interface LoadedGraph {
+  names: string[];
+  types: string[];
+  observationCounts: number[];
+  // Directed edges as indexes into names
+  edges: { from: number; to: number; relationType: string }[];
+  computedAt: string;
+}
+
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 1000;
+
+const PAGERANK_DAMPING = 0.85;
+const PAGERANK_TOLERANCE = 1e-9;
+const MAX_PAGERANK_ITERATIONS = 100;
+const MAX_LABEL_PROPAGATION_ROUNDS = 20;
+
+// Results are reused until the namespace's change log moves on. The age limit covers
+// transactions that commit after one that started later, which the log ID alone misses.
+const CACHE_MAX_AGE_MS = 10 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 100;
+
+const cache = new Map<string, { version: string; cachedAt: number; value: unknown }>();
+
+function clampLimit(limit: number | undefined): number {
+  return Math.min(Math.max(Math.floor(limit ?? DEFAULT_LIST_LIMIT), 1), MAX_LIST_LIMIT);
+}
+
+function parseCentrality(value: CentralityMeasure | undefined): CentralityMeasure {
+  if (value === undefined) {
+    return 'pagerank';
+  }
+  if (!CENTRALITY_MEASURES.includes(value)) {
+    throw new Error(`Invalid centrality: ${value}. Expected one of ${CENTRALITY_MEASURES.join(', ')}`);
+  }
+  return value;
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(key(item), (counts.get(key(item)) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+function degrees(graph: LoadedGraph): number[] {
+  const degree = new Array<number>(graph.names.length).fill(0);
+  for (const { from, to } of graph.edges) {
+    degree[from]++;
+    degree[to]++;
+  }
+  return degree;
+}
+
+function neighbors(graph: LoadedGraph): number[][] {
+  const adjacent = graph.names.map((): number[] => []);
+  for (const { from, to } of graph.edges) {
+    if (from !== to) {
+      adjacent[from].push(to);
+      adjacent[to].push(from);
+    }
+  }
+  return adjacent;
+}
+
+// Connected components, ignoring edge direction, as a component index per entity
+function components(graph: LoadedGraph): number[] {
+  const parent = graph.names.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  for (const { from, to } of graph.edges) {
+    const [a, b] = [find(from), find(to)];
+    if (a !== b) {
+      parent[Math.max(a, b)] = Math.min(a, b);
+    }
+  }
+  return parent.map((_, i) => find(i));
+}
+
+// Label propagation: every entity repeatedly takes the label most common among its
+// neighbours until no label changes. Entities are visited in name order and ties go to
+// the smallest label, so the same graph always gives the same communities.
+function communities(graph: LoadedGraph): number[] {
+  const adjacent = neighbors(graph);
+  const labels = graph.names.map((_, i) => i);
+
+  for (let round = 0; round < MAX_LABEL_PROPAGATION_ROUNDS; round++) {
+    let changed = false;
+    for (let i = 0; i < labels.length; i++) {
+      if (adjacent[i].length === 0) {
+        continue;
+      }
+      const counts = new Map<number, number>();
+      for (const j of adjacent[i]) {
+        counts.set(labels[j], (counts.get(labels[j]) ?? 0) + 1);
+      }
+      let best = labels[i];
+      let bestCount = counts.get(best) ?? 0;
+      for (const [label, count] of counts) {
+        if (count > bestCount || (count === bestCount && label < best)) {
+          best = label;
+          bestCount = count;
+        }
+      }
+      if (best !== labels[i]) {
+        labels[i] = best;
+        changed = true;
+      }
+    }
+    if (!changed) {
+      break;
+    }
+  }
+  return labels;
+}
+
+// Edges point from source to target; rank held by entities without outgoing edges is
+// spread over every entity
+function pageRank(graph: LoadedGraph): number[] {
+  const n = graph.names.length;
+  const outDegree = new Array<number>(n).fill(0);
+  for (const { from } of graph.edges) {
+    outDegree[from]++;
+  }
+
+  let rank = new Array<number>(n).fill(1 / n);
+  for (let iteration = 0; iteration < MAX_PAGERANK_ITERATIONS; iteration++) {
+    const dangling = rank.reduce((sum, r, i) => (outDegree[i] === 0 ? sum + r : sum), 0);
+    const next = new Array<number>(n).fill((1 - PAGERANK_DAMPING) / n + (PAGERANK_DAMPING * dangling) / n);
+    for (const { from, to } of graph.edges) {
+      next[to] += (PAGERANK_DAMPING * rank[from]) / outDegree[from];
+    }
+    const delta = next.reduce((sum, r, i) => sum + Math.abs(r - rank[i]), 0);
+    rank = next;
+    if (delta < PAGERANK_TOLERANCE) {
+      break;
+    }
+  }
+  return rank;
+}
+
+// Groups entities by a label per entity, largest groups first, listing up to `limit`
+// groups of up to `limit` entities each. Singletons are counted but not listed.
+function groups(graph: LoadedGraph, labels: number[], degree: number[], limit: number): { count: number; largest: EntityGroup[] } {
+  const members = new Map<number, number[]>();
+  labels.forEach((label, i) => {
+    const list = members.get(label) ?? [];
+    list.push(i);
+    members.set(label, list);
+  });
+
+  const largest = [...members.values()]
+    .filter(list => list.length > 1)
+    .sort((a, b) => b.length - a.length || graph.names[a[0]].localeCompare(graph.names[b[0]]))
+    .slice(0, limit)
+    .map(list => ({
+      size: list.length,
+      entities: [...list]
+        .sort((a, b) => degree[b] - degree[a] || graph.names[a].localeCompare(graph.names[b]))
+        .slice(0, limit)
+        .map(i => graph.names[i]),
+    }));
+  return { count: members.size, largest };
+}
+
+export class GraphAnalyzer {
+  private db: DatabaseConnection;
+  private namespace: string;
+
+  constructor(namespace: string) {
+    this.db = DatabaseConnection.getInstance();
+    this.namespace = namespace;
+  }
+
+  async stats(options: GraphStatsOptions = {}): Promise<GraphStats> {
+    const limit = clampLimit(options.limit);
+
+    return this.cached(`stats:${limit}`, null, graph => {
+      const degree = degrees(graph);
+      const names = (indexes: number[]) => indexes.slice(0, limit).map(i => graph.names[i]);
+      const all = graph.names.map((_, i) => i);
+      const orphans = all.filter(i => degree[i] === 0);
+      const withoutObservations = all.filter(i => graph.observationCounts[i] === 0);
+
+      const degreeDistribution: GraphStats['degreeDistribution'] = [];
+      const maxDegree = degree.reduce((max, d) => Math.max(max, d), 0);
+      for (let min = 0; min <= maxDegree; min = Math.max(1, min * 2)) {
+        const max = Math.max(0, min * 2 - 1);
+        degreeDistribution.push({ min, max, count: degree.filter(d => d >= min && d <= max).length });
+      }
+
+      return {
+        entities: graph.names.length,
+        relations: graph.edges.length,
+        observations: graph.observationCounts.reduce((sum, count) => sum + count, 0),
+        entityTypes: countBy(graph.types, type => type).map(([entityType, count]) => ({ entityType, count })),
+        relationTypes: countBy(graph.edges, e => e.relationType).map(([relationType, count]) => ({ relationType, count })),
+        degreeDistribution,
+        meanDegree: graph.names.length > 0 ? (2 * graph.edges.length) / graph.names.length : 0,
+        maxDegree,
+        orphans: { count: orphans.length, names: names(orphans) },
+        withoutObservations: { count: withoutObservations.length, names: names(withoutObservations) },
+        components: groups(graph, components(graph), degree, limit),
+        computedAt: graph.computedAt,
+      };
+    });
+  }
+
+  async analyze(options: AnalyticsOptions = {}): Promise<GraphAnalytics> {
+    const measure = parseCentrality(options.centrality);
+    const limit = clampLimit(options.limit);
+    const relationTypes = options.relationTypes ? [...new Set(options.relationTypes)].sort() : null;
+
+    return this.cached(`analytics:${measure}:${limit}:${JSON.stringify(relationTypes)}`, relationTypes, graph => {
+      const degree = degrees(graph);
+      const n = graph.names.length;
+      const score = measure === 'pagerank' ? pageRank(graph) : degree.map(d => (n > 1 ? d / (n - 1) : 0));
+
+      return {
+        centrality: {
+          measure,
+          entities: graph.names
+            .map((_, i) => i)
+            .sort((a, b) => score[b] - score[a] || graph.names[a].localeCompare(graph.names[b]))
+            .slice(0, limit)
+            .map(i => ({ name: graph.names[i], entityType: graph.types[i], score: score[i], degree: degree[i] })),
+        },
+        components: groups(graph, components(graph), degree, limit),
+        communities: groups(graph, communities(graph), degree, limit),
+        computedAt: graph.computedAt,
+      };
+    });
+  }
+
+  // Returns the cached result for `key` while no change has been logged in the namespace
+  // and no observation has expired since it was computed, and computes it from a fresh load
+  // of the graph otherwise
+  private async cached<T>(key: string, relationTypes: string[] | null, compute: (graph: LoadedGraph) => T): Promise<T> {
+    const cacheKey = `${this.namespace}\u0000${key}`;
+    const client = await this.db.getClient();
+
+    try {
+      // The version and the graph are read from the same snapshot, so they match
+      await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+      const version = await this.version(client);
+      const hit = cache.get(cacheKey);
+      if (hit && hit.version === version && Date.now() - hit.cachedAt < CACHE_MAX_AGE_MS) {
+        await client.query('COMMIT');
+        return hit.value as T;
+      }
+
+      const graph = await this.load(client, relationTypes);
+      await client.query('COMMIT');
+
+      const value = compute(graph);
+      cache.delete(cacheKey);
+      cache.set(cacheKey, { version, cachedAt: Date.now(), value });
+      if (cache.size > MAX_CACHE_ENTRIES) {
+        cache.delete(cache.keys().next().value!);
+      }
+      return value;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Expiry writes nothing to the change log, so the version also moves with the latest
+  // validUntil that has passed; an observation lapsing always moves it forward
+  private async version(client: PoolClient): Promise<string> {
+    const result = await client.query(`
+      SELECT COALESCE(MAX(id), 0)::text || '/' || COALESCE((
+        SELECT MAX(o.valid_until)::text
+        FROM observations o
+        JOIN entities e ON e.id = o.entity_id
+        WHERE e.namespace = $1 AND o.valid_until <= NOW() AND o.deleted_at IS NULL AND o.superseded_by IS NULL
+      ), '') AS version
+      FROM change_log WHERE namespace = $1
+    `, [this.namespace]);
+    return result.rows[0].version;
+  }
+
+  // Entities are indexed in name order
+  private async load(client: PoolClient, relationTypes: string[] | null): Promise<LoadedGraph> {
+    const entities = await client.query(`
+      SELECT e.id, e.name, e.entity_type,
+             (SELECT COUNT(*) FROM observations o
+              WHERE o.entity_id = e.id AND o.deleted_at IS NULL AND o.superseded_by IS NULL
+                AND (o.valid_until IS NULL OR o.valid_until > NOW()))::int AS observation_count
+      FROM entities e
+      WHERE e.namespace = $1 AND e.deleted_at IS NULL
+      ORDER BY e.name
+    `, [this.namespace]);
+
+    const relations = await client.query(`
+      SELECT r.from_entity_id, r.to_entity_id, r.relation_type
+      FROM relations r
+      JOIN entities ef ON r.from_entity_id = ef.id
+      WHERE ef.namespace = $1 AND r.deleted_at IS NULL
+        AND ($2::text[] IS NULL OR r.relation_type = ANY($2))
+    `, [this.namespace, relationTypes]);
+
+    const index = new Map<number, number>(entities.rows.map((row, i) => [row.id, i]));
+    return {
+      names: entities.rows.map(row => row.name),
+      types: entities.rows.map(row => row.entity_type),
+      observationCounts: entities.rows.map(row => row.observation_count),
+      edges: relations.rows
+        .filter(row => index.has(row.from_entity_id) && index.has(row.to_entity_id))
+        .map(row => ({ from: index.get(row.from_entity_id)!, to: index.get(row.to_entity_id)!, relationType: row.relation_type })),
+      computedAt: new Date().toISOString(),
+    };
+  }
+}
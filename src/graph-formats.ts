@@ -0,0 +1,428 @@
+import { GraphSnapshot, GraphSnapshotEntity, GraphSnapshotRelation, ObservationMetadata, TimestampedObservation } from './types.js';
+import { isRecord, validateProperties } from './properties.js';
+import { normalizeObservation, observationMetadata } from './observation-metadata.js';
+
+export type GraphFormat = 'jsonl' | 'jsonld' | 'graphml';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['jsonl', 'jsonld', 'graphml'];
+
+export interface ParsedGraph {
+  graph: GraphSnapshot;
+  errors: { line: number; message: string }[];
+}
+
+export type MemoryRecord =
+  | ({ type: 'entity' } & GraphSnapshotEntity)
+  | ({ type: 'relation' } & GraphSnapshotRelation);
+
+const JSONLD_VOCAB = 'https://modelcontextprotocol.io/memory#';
+const JSONLD_ENTITY_PREFIX = 'urn:memory:entity:';
+const GRAPHML_NAMESPACE = 'http://graphml.graphdrawing.org/xmlns';
+
+export function isGraphFormat(value: string): value is GraphFormat {
+  return (GRAPH_FORMATS as string[]).includes(value);
+}
+
+export function inferGraphFormat(filename: string): GraphFormat {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('.jsonld')) {
+    return 'jsonld';
+  }
+  if (lower.endsWith('.graphml') || lower.endsWith('.xml')) {
+    return 'graphml';
+  }
+  return 'jsonl';
+}
+
+export function serializeGraph(graph: GraphSnapshot, format: GraphFormat): string {
+  switch (format) {
+    case 'jsonl':
+      return serializeJsonl(graph);
+    case 'jsonld':
+      return serializeJsonLd(graph);
+    case 'graphml':
+      return serializeGraphMl(graph);
+  }
+}
+
+export function parseGraph(data: string, format: GraphFormat): ParsedGraph {
+  switch (format) {
+    case 'jsonl':
+      return parseJsonl(data);
+    case 'jsonld':
+      return { graph: parseJsonLd(data), errors: [] };
+    case 'graphml':
+      return { graph: parseGraphMl(data), errors: [] };
+  }
+}
+
+// JSONL follows the reference server-memory `memory.json` layout. Timestamps and metadata
+// are extra fields, and `observations` stays a plain string array so upstream can still
+// read the file.
+function serializeJsonl(graph: GraphSnapshot): string {
+  const lines = [
+    ...graph.entities.map(entity => JSON.stringify({
+      type: 'entity',
+      name: entity.name,
+      entityType: entity.entityType,
+      observations: entity.observations.map(o => o.content),
+      observationTimestamps: entity.observations.map(o => o.createdAt ?? null),
+      observationMetadata: entity.observations.some(o => observationExtras(o))
+        ? entity.observations.map(o => observationExtras(o) ?? null)
+        : undefined,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+      properties: entity.properties,
+    })),
+    ...graph.relations.map(relation => JSON.stringify({
+      type: 'relation',
+      from: relation.from,
+      to: relation.to,
+      relationType: relation.relationType,
+      createdAt: relation.createdAt,
+      properties: relation.properties,
+    })),
+  ];
+  return lines.join('\n') + (lines.length > 0 ? '\n' : '');
+}
+
+// Parses one line of the reference server-memory `memory.json` format
+export function parseMemoryRecord(line: string): MemoryRecord {
+  const item = JSON.parse(line);
+
+  if (item.type === 'entity') {
+    if (typeof item.name !== 'string' || typeof item.entityType !== 'string') {
+      throw new Error('Entity record requires string "name" and "entityType"');
+    }
+    const observations = item.observations ?? [];
+    if (!Array.isArray(observations) || !observations.every((o: unknown) => typeof o === 'string')) {
+      throw new Error(`Entity ${item.name} has non-string observations`);
+    }
+    const timestamps: unknown[] = Array.isArray(item.observationTimestamps) ? item.observationTimestamps : [];
+    const metadata: unknown[] = Array.isArray(item.observationMetadata) ? item.observationMetadata : [];
+    return {
+      type: 'entity',
+      name: item.name,
+      entityType: item.entityType,
+      observations: observations.map((content: string, i: number) => ({
+        ...parseObservation({ ...(metadata[i] ?? {}), content }, item.name),
+        createdAt: optionalString(timestamps[i]),
+      })),
+      createdAt: optionalString(item.createdAt),
+      updatedAt: optionalString(item.updatedAt),
+      properties: validateProperties(item.properties, item.name),
+    };
+  }
+
+  if (item.type === 'relation') {
+    if (typeof item.from !== 'string' || typeof item.to !== 'string' || typeof item.relationType !== 'string') {
+      throw new Error('Relation record requires string "from", "to" and "relationType"');
+    }
+    return {
+      type: 'relation',
+      from: item.from,
+      to: item.to,
+      relationType: item.relationType,
+      createdAt: optionalString(item.createdAt),
+      properties: validateProperties(item.properties, `relation ${item.from} -> ${item.to}`),
+    };
+  }
+
+  throw new Error(`Unknown record type: ${item.type}`);
+}
+
+function parseJsonl(data: string): ParsedGraph {
+  const graph: GraphSnapshot = { entities: [], relations: [] };
+  const errors: ParsedGraph['errors'] = [];
+
+  data.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+    try {
+      const { type, ...record } = parseMemoryRecord(line);
+      if (type === 'entity') {
+        graph.entities.push(record as GraphSnapshotEntity);
+      } else {
+        graph.relations.push(record as GraphSnapshotRelation);
+      }
+    } catch (error) {
+      errors.push({ line: index + 1, message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  return { graph, errors };
+}
+
+function entityId(name: string): string {
+  return JSONLD_ENTITY_PREFIX + encodeURIComponent(name);
+}
+
+function serializeJsonLd(graph: GraphSnapshot): string {
+  const document = {
+    '@context': {
+      '@vocab': JSONLD_VOCAB,
+      xsd: 'http://www.w3.org/2001/XMLSchema#',
+      createdAt: { '@type': 'xsd:dateTime' },
+      updatedAt: { '@type': 'xsd:dateTime' },
+      from: { '@type': '@id' },
+      to: { '@type': '@id' },
+      validUntil: { '@type': 'xsd:dateTime' },
+      properties: { '@type': '@json' },
+    },
+    '@graph': [
+      ...graph.entities.map(entity => ({
+        '@id': entityId(entity.name),
+        '@type': 'Entity',
+        name: entity.name,
+        entityType: entity.entityType,
+        createdAt: entity.createdAt,
+        updatedAt: entity.updatedAt,
+        properties: entity.properties,
+        observations: entity.observations.map(o => ({
+          '@type': 'Observation',
+          content: o.content,
+          createdAt: o.createdAt,
+          ...observationExtras(o),
+        })),
+      })),
+      ...graph.relations.map(relation => ({
+        '@type': 'Relation',
+        from: entityId(relation.from),
+        to: entityId(relation.to),
+        relationType: relation.relationType,
+        createdAt: relation.createdAt,
+        properties: relation.properties,
+      })),
+    ],
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+// Reads documents in the shape written by serializeJsonLd; it is not a general JSON-LD processor
+function parseJsonLd(data: string): GraphSnapshot {
+  const document: unknown = JSON.parse(data);
+  const nodes = Array.isArray(document) ? document : isRecord(document) ? document['@graph'] : undefined;
+  if (!Array.isArray(nodes)) {
+    throw new Error('JSON-LD document has no @graph array');
+  }
+
+  const graph: GraphSnapshot = { entities: [], relations: [] };
+  const namesById = new Map<string, string>();
+  const resolveName = (id: unknown): string => {
+    const ref = isRecord(id) ? id['@id'] : id;
+    if (typeof ref !== 'string') {
+      throw new Error('Relation endpoint must be an entity @id');
+    }
+    return namesById.get(ref)
+      ?? (ref.startsWith(JSONLD_ENTITY_PREFIX) ? decodeURIComponent(ref.slice(JSONLD_ENTITY_PREFIX.length)) : ref);
+  };
+  const records = nodes.filter(isRecord);
+
+  for (const node of records) {
+    if (node['@type'] !== 'Entity') {
+      continue;
+    }
+    const { name, entityType } = node;
+    if (typeof name !== 'string' || typeof entityType !== 'string') {
+      throw new Error(`Entity ${optionalString(node['@id']) ?? ''} requires string "name" and "entityType"`);
+    }
+    if (typeof node['@id'] === 'string') {
+      namesById.set(node['@id'], name);
+    }
+    const observations: unknown[] = Array.isArray(node.observations) ? node.observations : [];
+    graph.entities.push({
+      name,
+      entityType,
+      observations: observations.map(o => parseObservation(o, name)),
+      createdAt: optionalString(node.createdAt),
+      updatedAt: optionalString(node.updatedAt),
+      properties: validateProperties(node.properties, name),
+    });
+  }
+
+  for (const node of records) {
+    if (node['@type'] !== 'Relation') {
+      continue;
+    }
+    if (typeof node.relationType !== 'string') {
+      throw new Error('Relation requires a string "relationType"');
+    }
+    const from = resolveName(node.from);
+    const to = resolveName(node.to);
+    graph.relations.push({
+      from,
+      to,
+      relationType: node.relationType,
+      createdAt: optionalString(node.createdAt),
+      properties: validateProperties(node.properties, `relation ${from} -> ${to}`),
+    });
+  }
+
+  return graph;
+}
+
+// Observations and properties are stored as JSON strings so they survive the round trip
+// through GraphML tools, which only understand scalar attributes
+function serializeGraphMl(graph: GraphSnapshot): string {
+  const data = (key: string, value: string | undefined) =>
+    value === undefined ? '' : `\n      <data key="${key}">${escapeXml(value)}</data>`;
+
+  const nodes = graph.entities.map(entity =>
+    `    <node id="${escapeXml(entity.name)}">` +
+    data('label', entity.name) +
+    data('entityType', entity.entityType) +
+    data('observations', JSON.stringify(entity.observations)) +
+    data('createdAt', entity.createdAt) +
+    data('updatedAt', entity.updatedAt) +
+    data('properties', entity.properties && JSON.stringify(entity.properties)) +
+    '\n    </node>'
+  );
+
+  const edges = graph.relations.map((relation, index) =>
+    `    <edge id="e${index}" source="${escapeXml(relation.from)}" target="${escapeXml(relation.to)}">` +
+    data('label', relation.relationType) +
+    data('relationType', relation.relationType) +
+    data('createdAt', relation.createdAt) +
+    data('properties', relation.properties && JSON.stringify(relation.properties)) +
+    '\n    </edge>'
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<graphml xmlns="${GRAPHML_NAMESPACE}">`,
+    '  <key id="label" for="all" attr.name="label" attr.type="string"/>',
+    '  <key id="entityType" for="node" attr.name="entityType" attr.type="string"/>',
+    '  <key id="observations" for="node" attr.name="observations" attr.type="string"/>',
+    '  <key id="createdAt" for="all" attr.name="createdAt" attr.type="string"/>',
+    '  <key id="updatedAt" for="node" attr.name="updatedAt" attr.type="string"/>',
+    '  <key id="relationType" for="edge" attr.name="relationType" attr.type="string"/>',
+    '  <key id="properties" for="all" attr.name="properties" attr.type="string"/>',
+    '  <graph id="memory" edgedefault="directed">',
+    ...nodes,
+    ...edges,
+    '  </graph>',
+    '</graphml>',
+    '',
+  ].join('\n');
+}
+
+// Minimal reader for flat GraphML: keys are resolved through `attr.name`, so files
+// re-saved by Gephi or yEd still import as long as the attributes are kept
+function parseGraphMl(data: string): GraphSnapshot {
+  const keyNames = new Map<string, string>();
+  for (const match of data.matchAll(/<key\b([^>]*?)\/?>/g)) {
+    const attrs = parseXmlAttributes(match[1]);
+    if (attrs.id) {
+      keyNames.set(attrs.id, attrs['attr.name'] ?? attrs.id);
+    }
+  }
+
+  const readData = (body: string | undefined): Map<string, string> => {
+    const values = new Map<string, string>();
+    for (const match of (body ?? '').matchAll(/<data\b([^>]*)>([\s\S]*?)<\/data>/g)) {
+      const key = parseXmlAttributes(match[1]).key;
+      if (key) {
+        values.set(keyNames.get(key) ?? key, unescapeXml(match[2]));
+      }
+    }
+    return values;
+  };
+
+  const graph: GraphSnapshot = { entities: [], relations: [] };
+
+  for (const match of data.matchAll(/<node\b([^>]*?)(?:\/>|>([\s\S]*?)<\/node>)/g)) {
+    const id = parseXmlAttributes(match[1]).id;
+    const values = readData(match[2]);
+    const entityType = values.get('entityType');
+    if (!id || !entityType) {
+      throw new Error(`GraphML node ${id ?? ''} requires an id and an entityType attribute`);
+    }
+    const observations = values.has('observations') ? JSON.parse(values.get('observations') as string) : [];
+    if (!Array.isArray(observations)) {
+      throw new Error(`GraphML node ${id} has malformed observations`);
+    }
+    graph.entities.push({
+      name: id,
+      entityType,
+      observations: observations.map((o: unknown) => parseObservation(o, id)),
+      createdAt: values.get('createdAt'),
+      updatedAt: values.get('updatedAt'),
+      properties: parseGraphMlProperties(values.get('properties'), id),
+    });
+  }
+
+  for (const match of data.matchAll(/<edge\b([^>]*?)(?:\/>|>([\s\S]*?)<\/edge>)/g)) {
+    const attrs = parseXmlAttributes(match[1]);
+    const values = readData(match[2]);
+    const relationType = values.get('relationType') ?? values.get('label');
+    if (!attrs.source || !attrs.target || !relationType) {
+      throw new Error('GraphML edge requires source, target and a relationType attribute');
+    }
+    graph.relations.push({
+      from: attrs.source,
+      to: attrs.target,
+      relationType,
+      createdAt: values.get('createdAt'),
+      properties: parseGraphMlProperties(values.get('properties'), `relation ${attrs.source} -> ${attrs.target}`),
+    });
+  }
+
+  return graph;
+}
+
+// Metadata and supersession of an observation, beyond its content and timestamp
+function observationExtras(observation: TimestampedObservation): (ObservationMetadata & { supersededBy?: string }) | undefined {
+  const metadata = observationMetadata(observation);
+  if (observation.supersededBy === undefined) {
+    return metadata;
+  }
+  return { ...metadata, supersededBy: observation.supersededBy };
+}
+
+// A plain string, or an object with content, createdAt, metadata and supersededBy
+function parseObservation(value: unknown, owner: string): TimestampedObservation {
+  const observation: TimestampedObservation = normalizeObservation(value, owner);
+  if (isRecord(value)) {
+    observation.createdAt = optionalString(value.createdAt);
+    observation.supersededBy = optionalString(value.supersededBy);
+  }
+  return observation;
+}
+
+function parseGraphMlProperties(value: string | undefined, owner: string) {
+  return value === undefined ? undefined : validateProperties(JSON.parse(value), owner);
+}
+
+function parseXmlAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[match[1]] = unescapeXml(match[2] ?? match[3]);
+  }
+  return attrs;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
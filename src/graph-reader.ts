@@ -0,0 +1,402 @@
+import { DatabaseConnection } from './database.js';
+import { Entity, KnowledgeGraph, ObservationReadOptions, Properties, Relation } from './types.js';
+import { GraphHistory, validateTimestamp } from './history.js';
+import { nonEmptyProperties } from './properties.js';
+import { OBSERVATION_JSON, StoredObservation, observationDetailFromRow } from './observation-metadata.js';
+
+// `full` returns entities with their observations and relations, `names` only names and
+// types, `counts` the number of entities and relations per type, and `top-connected` the
+// entities with the most relations first
+export type ReadGraphMode = 'full' | 'names' | 'counts' | 'top-connected';
+
+export const READ_GRAPH_MODES: ReadGraphMode[] = ['full', 'names', 'counts', 'top-connected'];
+
+export interface ReadGraphOptions extends ObservationReadOptions {
+  mode?: ReadGraphMode;
+  // Rebuild the graph as it was at this time from the change log
+  asOf?: string;
+  entityTypes?: string[];
+  // Only entities with at least one relation of these types, and only those relations
+  relationTypes?: string[];
+  // Only entities that changed at or after this time, including their observations, relations and aliases
+  updatedSince?: string;
+  limit?: number;
+  // nextCursor of the previous page
+  cursor?: string;
+}
+
+export interface ReadGraphPagination {
+  limit: number;
+  // Entities matching the filters across all pages
+  total: number;
+  // Pass as `cursor` to read the next page; null on the last page
+  nextCursor: string | null;
+}
+
+export interface FullGraphPage extends KnowledgeGraph {
+  mode: 'full';
+  pagination: ReadGraphPagination;
+}
+
+export interface NamesPage {
+  mode: 'names';
+  entities: { name: string; entityType: string }[];
+  pagination: ReadGraphPagination;
+}
+
+export interface TypeCounts {
+  mode: 'counts';
+  entities: number;
+  relations: number;
+  entityTypes: { entityType: string; count: number }[];
+  relationTypes: { relationType: string; count: number }[];
+}
+
+export interface ConnectedPage {
+  mode: 'top-connected';
+  // Degree counts relations at either end, of the requested relation types if any
+  entities: { name: string; entityType: string; degree: number }[];
+  pagination: ReadGraphPagination;
+}
+
+export type ReadGraphResult = FullGraphPage | NamesPage | TypeCounts | ConnectedPage;
+
+interface Cursor {
+  mode: ReadGraphMode;
+  name: string;
+  degree?: number;
+}
+
+const DEFAULT_READ_LIMIT = 100;
+const MAX_READ_LIMIT = 1000;
+
+// Live entities of the namespace that pass the filters. $1 is the namespace, $2 the entity
+// types, $3 the relation types and $4 the updated-since timestamp; each filter is off when null.
+const MATCHING_ENTITIES = `
+  SELECT e.id, e.name, e.entity_type, e.properties
+  FROM entities e
+  WHERE e.namespace = $1 AND e.deleted_at IS NULL
+    AND ($2::text[] IS NULL OR e.entity_type = ANY($2))
+    AND ($3::text[] IS NULL OR EXISTS (
+      SELECT 1 FROM relations r
+      WHERE (r.from_entity_id = e.id OR r.to_entity_id = e.id) AND r.relation_type = ANY($3) AND r.deleted_at IS NULL
+    ))
+    AND ($4::timestamptz IS NULL OR e.id IN (
+      SELECT unnest(l.entity_ids) FROM change_log l WHERE l.namespace = $1 AND l.changed_at >= $4
+    ))
+`;
+
+// Relations are listed with their source entity, so each one appears on exactly one page.
+// With entity types, the target has to be of one of them as well.
+const RELATION_FILTER = `
+  r.deleted_at IS NULL
+  AND ($3::text[] IS NULL OR r.relation_type = ANY($3))
+  AND ($2::text[] IS NULL OR et.entity_type = ANY($2))
+`;
+
+// An entity row with its observations aggregated as OBSERVATION_JSON objects
+export interface StoredEntity {
+  name: string;
+  entity_type: string;
+  properties: Properties | null;
+  observations: StoredObservation[];
+}
+
+export function entityFromRow(row: StoredEntity, options: ObservationReadOptions): Entity {
+  const observations = row.observations.map(observationDetailFromRow);
+  return {
+    name: row.name,
+    entityType: row.entity_type,
+    observations: observations.map(o => o.content),
+    observationDetails: options.includeMetadata || options.includeSuperseded ? observations : undefined,
+    properties: nonEmptyProperties(row.properties),
+  };
+}
+
+function parseMode(value: ReadGraphMode | undefined): ReadGraphMode {
+  if (value === undefined) {
+    return 'full';
+  }
+  if (!READ_GRAPH_MODES.includes(value)) {
+    throw new Error(`Invalid mode: ${value}. Expected one of ${READ_GRAPH_MODES.join(', ')}`);
+  }
+  return value;
+}
+
+// Cursors are opaque to callers: the sort key of the last entity on the page
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string | undefined, mode: ReadGraphMode): Cursor | null {
+  if (value === undefined) {
+    return null;
+  }
+  let cursor: Cursor;
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor. Pass the nextCursor of the previous page unchanged');
+  }
+  if (typeof cursor?.name !== 'string') {
+    throw new Error('Invalid cursor. Pass the nextCursor of the previous page unchanged');
+  }
+  if (cursor.mode !== mode) {
+    throw new Error(`The cursor belongs to a read in ${cursor.mode} mode, not ${mode}`);
+  }
+  return cursor;
+}
+
+// Code point order for the in-memory pages of asOf reads
+function compareNames(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export class GraphReader {
+  private db: DatabaseConnection;
+  private namespace: string;
+
+  constructor(namespace: string) {
+    this.db = DatabaseConnection.getInstance();
+    this.namespace = namespace;
+  }
+
+  async read(options: ReadGraphOptions = {}): Promise<ReadGraphResult> {
+    const mode = parseMode(options.mode);
+    const limit = Math.min(Math.max(Math.floor(options.limit ?? DEFAULT_READ_LIMIT), 1), MAX_READ_LIMIT);
+    const cursor = decodeCursor(options.cursor, mode);
+    if (options.updatedSince !== undefined) {
+      validateTimestamp(options.updatedSince, 'updatedSince');
+    }
+
+    if (options.asOf !== undefined) {
+      if (options.updatedSince !== undefined) {
+        throw new Error('updatedSince cannot be combined with asOf');
+      }
+      const graph = await new GraphHistory(this.namespace).readGraphAsOf(options.asOf, undefined, options);
+      return this.readSnapshot(graph, mode, limit, cursor, options);
+    }
+
+    const filters = [this.namespace, options.entityTypes ?? null, options.relationTypes ?? null, options.updatedSince ?? null];
+    switch (mode) {
+      case 'counts':
+        return this.readCounts(filters);
+      case 'top-connected':
+        return this.readConnected(filters, limit, cursor);
+      default:
+        return this.readPage(mode, filters, limit, cursor, options);
+    }
+  }
+
+  private async readPage(
+    mode: 'full' | 'names',
+    filters: unknown[],
+    limit: number,
+    cursor: Cursor | null,
+    options: ObservationReadOptions
+  ): Promise<FullGraphPage | NamesPage> {
+    const client = await this.db.getClient();
+
+    try {
+      // One row more than the limit tells whether there is a next page
+      const entitiesResult = await client.query(`
+        WITH matching AS (
+          SELECT m.*, COUNT(*) OVER () AS total FROM (${MATCHING_ENTITIES}) m
+        ),
+        page AS (
+          SELECT * FROM matching WHERE $5::text IS NULL OR name > $5 ORDER BY name LIMIT $6
+        )
+        SELECT p.id, p.name, p.entity_type, p.properties, p.total,
+               CASE WHEN $7 THEN (
+                 SELECT COALESCE(json_agg(${OBSERVATION_JSON} ORDER BY o.created_at, o.id), '[]'::json)
+                 FROM observations o
+                 WHERE o.entity_id = p.id AND o.deleted_at IS NULL
+                   AND ($8 OR o.valid_until IS NULL OR o.valid_until > NOW())
+                   AND ($9 OR o.superseded_by IS NULL)
+               ) END AS observations
+        FROM page p
+        ORDER BY p.name
+      `, [
+        ...filters, cursor?.name ?? null, limit + 1,
+        mode === 'full', Boolean(options.includeExpired), Boolean(options.includeSuperseded),
+      ]);
+
+      const rows = entitiesResult.rows.slice(0, limit);
+      const pagination: ReadGraphPagination = {
+        limit,
+        total: entitiesResult.rows.length > 0 ? Number(entitiesResult.rows[0].total) : 0,
+        nextCursor: entitiesResult.rows.length > limit ? encodeCursor({ mode, name: rows[rows.length - 1].name }) : null,
+      };
+
+      if (mode === 'names') {
+        return { mode, entities: rows.map(row => ({ name: row.name, entityType: row.entity_type })), pagination };
+      }
+
+      const relationsResult = await client.query(`
+        SELECT ef.name as from_name, et.name as to_name, r.relation_type, r.properties
+        FROM relations r
+        JOIN entities ef ON r.from_entity_id = ef.id
+        JOIN entities et ON r.to_entity_id = et.id
+        WHERE r.from_entity_id = ANY($1) AND et.namespace = $4 AND ${RELATION_FILTER}
+        ORDER BY ef.name, et.name, r.relation_type
+      `, [rows.map(row => row.id), filters[1], filters[2], this.namespace]);
+
+      return {
+        mode,
+        entities: rows.map(row => entityFromRow(row, options)),
+        relations: relationsResult.rows.map(row => ({
+          from: row.from_name,
+          to: row.to_name,
+          relationType: row.relation_type,
+          properties: nonEmptyProperties(row.properties),
+        })),
+        pagination,
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  private async readCounts(filters: unknown[]): Promise<TypeCounts> {
+    const entityTypes = await this.db.query(`
+      SELECT entity_type, COUNT(*)::int AS count
+      FROM (${MATCHING_ENTITIES}) m
+      GROUP BY entity_type
+      ORDER BY count DESC, entity_type
+    `, filters);
+    const relationTypes = await this.db.query(`
+      SELECT r.relation_type, COUNT(*)::int AS count
+      FROM (${MATCHING_ENTITIES}) m
+      JOIN relations r ON r.from_entity_id = m.id
+      JOIN entities et ON r.to_entity_id = et.id
+      WHERE et.namespace = $1 AND ${RELATION_FILTER}
+      GROUP BY r.relation_type
+      ORDER BY count DESC, r.relation_type
+    `, filters);
+
+    return {
+      mode: 'counts',
+      entities: entityTypes.rows.reduce((sum, row) => sum + row.count, 0),
+      relations: relationTypes.rows.reduce((sum, row) => sum + row.count, 0),
+      entityTypes: entityTypes.rows.map(row => ({ entityType: row.entity_type, count: row.count })),
+      relationTypes: relationTypes.rows.map(row => ({ relationType: row.relation_type, count: row.count })),
+    };
+  }
+
+  private async readConnected(filters: unknown[], limit: number, cursor: Cursor | null): Promise<ConnectedPage> {
+    const result = await this.db.query(`
+      WITH degrees AS (
+        SELECT id, COUNT(*)::int AS degree
+        FROM (
+          SELECT r.from_entity_id AS id FROM relations r JOIN entities e ON e.id = r.from_entity_id
+          WHERE e.namespace = $1 AND r.deleted_at IS NULL AND ($3::text[] IS NULL OR r.relation_type = ANY($3))
+          UNION ALL
+          SELECT r.to_entity_id FROM relations r JOIN entities e ON e.id = r.to_entity_id
+          WHERE e.namespace = $1 AND r.deleted_at IS NULL AND ($3::text[] IS NULL OR r.relation_type = ANY($3))
+        ) ends
+        GROUP BY id
+      ),
+      matching AS (
+        SELECT m.name, m.entity_type, COALESCE(d.degree, 0) AS degree, COUNT(*) OVER () AS total
+        FROM (${MATCHING_ENTITIES}) m
+        LEFT JOIN degrees d ON d.id = m.id
+      )
+      SELECT * FROM matching
+      WHERE $5::text IS NULL OR degree < $6 OR (degree = $6 AND name > $5)
+      ORDER BY degree DESC, name
+      LIMIT $7
+    `, [...filters, cursor?.name ?? null, cursor?.degree ?? null, limit + 1]);
+
+    const rows = result.rows.slice(0, limit);
+    const last = rows[rows.length - 1];
+    return {
+      mode: 'top-connected',
+      entities: rows.map(row => ({ name: row.name, entityType: row.entity_type, degree: row.degree })),
+      pagination: {
+        limit,
+        total: result.rows.length > 0 ? Number(result.rows[0].total) : 0,
+        nextCursor: result.rows.length > limit ? encodeCursor({ mode: 'top-connected', name: last.name, degree: last.degree }) : null,
+      },
+    };
+  }
+
+  // The same modes and filters applied to a graph rebuilt from the change log
+  private readSnapshot(
+    graph: KnowledgeGraph,
+    mode: ReadGraphMode,
+    limit: number,
+    cursor: Cursor | null,
+    options: ReadGraphOptions
+  ): ReadGraphResult {
+    const relationTypes = options.relationTypes ? new Set(options.relationTypes) : null;
+    const entityTypes = options.entityTypes ? new Set(options.entityTypes) : null;
+    const typeOf = new Map(graph.entities.map(e => [e.name, e.entityType]));
+
+    const typedRelations = graph.relations.filter(r => !relationTypes || relationTypes.has(r.relationType));
+    const related = new Set(typedRelations.flatMap(r => [r.from, r.to]));
+    const entities = graph.entities.filter(e =>
+      (!entityTypes || entityTypes.has(e.entityType)) && (!relationTypes || related.has(e.name))
+    );
+    const matching = new Set(entities.map(e => e.name));
+    const relations = typedRelations.filter(r => matching.has(r.from) && (!entityTypes || entityTypes.has(typeOf.get(r.to)!)));
+
+    if (mode === 'counts') {
+      const countBy = <T>(items: T[], key: (item: T) => string) => {
+        const counts = new Map<string, number>();
+        items.forEach(item => counts.set(key(item), (counts.get(key(item)) ?? 0) + 1));
+        return [...counts.entries()].sort((a, b) => b[1] - a[1] || compareNames(a[0], b[0]));
+      };
+      return {
+        mode,
+        entities: entities.length,
+        relations: relations.length,
+        entityTypes: countBy(entities, e => e.entityType).map(([entityType, count]) => ({ entityType, count })),
+        relationTypes: countBy(relations, r => r.relationType).map(([relationType, count]) => ({ relationType, count })),
+      };
+    }
+
+    if (mode === 'top-connected') {
+      const degrees = new Map<string, number>();
+      for (const r of typedRelations) {
+        degrees.set(r.from, (degrees.get(r.from) ?? 0) + 1);
+        degrees.set(r.to, (degrees.get(r.to) ?? 0) + 1);
+      }
+      const ranked = entities
+        .map(e => ({ name: e.name, entityType: e.entityType, degree: degrees.get(e.name) ?? 0 }))
+        .sort((a, b) => b.degree - a.degree || compareNames(a.name, b.name));
+      const remaining = cursor
+        ? ranked.filter(e => e.degree < cursor.degree! || (e.degree === cursor.degree && compareNames(e.name, cursor.name) > 0))
+        : ranked;
+      const page = remaining.slice(0, limit);
+      const last = page[page.length - 1];
+      return {
+        mode,
+        entities: page,
+        pagination: {
+          limit,
+          total: ranked.length,
+          nextCursor: remaining.length > limit ? encodeCursor({ mode, name: last.name, degree: last.degree }) : null,
+        },
+      };
+    }
+
+    const sorted = [...entities].sort((a, b) => compareNames(a.name, b.name));
+    const remaining = cursor ? sorted.filter(e => compareNames(e.name, cursor.name) > 0) : sorted;
+    const page = remaining.slice(0, limit);
+    const pagination: ReadGraphPagination = {
+      limit,
+      total: sorted.length,
+      nextCursor: remaining.length > limit ? encodeCursor({ mode, name: page[page.length - 1].name }) : null,
+    };
+
+    if (mode === 'names') {
+      return { mode, entities: page.map(e => ({ name: e.name, entityType: e.entityType })), pagination };
+    }
+
+    const onPage = new Set(page.map(e => e.name));
+    const pageRelations: Relation[] = relations
+      .filter(r => onPage.has(r.from))
+      .sort((a, b) => compareNames(a.from, b.from) || compareNames(a.to, b.to) || compareNames(a.relationType, b.relationType));
+    return { mode, entities: page, relations: pageRelations, pagination };
+  }
+}
@@ -0,0 +1,342 @@
+import { DatabaseConnection } from './database.js';
+import { Entity, KnowledgeGraph, Relation } from './types.js';
+import { NameResolver, ResolvedEntity } from './name-resolver.js';
+
+export type TraversalDirection = 'outgoing' | 'incoming' | 'both';
+
+export const TRAVERSAL_DIRECTIONS: TraversalDirection[] = ['outgoing', 'incoming', 'both'];
+
+export interface TraversalOptions {
+  direction?: TraversalDirection;
+  relationTypes?: string[];
+  depth?: number;
+  // Maximum number of entities returned
+  limit?: number;
+}
+
+export interface PathOptions {
+  direction?: TraversalDirection;
+  relationTypes?: string[];
+  maxDepth?: number;
+  maxPaths?: number;
+}
+
+export interface Neighbor {
+  name: string;
+  entityType: string;
+  distance: number;
+}
+
+export interface NeighborsResult {
+  entity: string;
+  neighbors: Neighbor[];
+  // The relations that reach each neighbor from an entity one step closer to the start
+  relations: Relation[];
+  truncated: boolean;
+}
+
+export interface SubgraphResult extends KnowledgeGraph {
+  truncated: boolean;
+}
+
+export interface GraphPath {
+  entities: string[];
+  relations: Relation[];
+}
+
+export interface PathResult {
+  from: string;
+  to: string;
+  // Number of relations on the shortest path, or null when the entities are not connected
+  length: number | null;
+  paths: GraphPath[];
+}
+
+const MAX_TRAVERSAL_DEPTH = 5;
+const DEFAULT_NODE_LIMIT = 100;
+const MAX_NODE_LIMIT = 1000;
+const DEFAULT_PATH_DEPTH = 6;
+const MAX_PATH_DEPTH = 10;
+const MAX_PATHS = 20;
+
+// Joins live `relations r` to the entity reached so far. $3 is the direction: outgoing
+// edges are followed from their source, incoming ones from their target.
+function edgeJoin(alias: string): string {
+  return `r.deleted_at IS NULL AND (($3 <> 'incoming' AND r.from_entity_id = ${alias}.entity_id) OR ($3 <> 'outgoing' AND r.to_entity_id = ${alias}.entity_id))`;
+}
+
+function otherEnd(alias: string): string {
+  return `CASE WHEN r.from_entity_id = ${alias}.entity_id THEN r.to_entity_id ELSE r.from_entity_id END`;
+}
+
+function clamp(value: number | undefined, fallback: number, min: number, max: number): number {
+  return Math.min(Math.max(Math.floor(value ?? fallback), min), max);
+}
+
+function parseDirection(value: TraversalDirection | undefined, fallback: TraversalDirection): TraversalDirection {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!TRAVERSAL_DIRECTIONS.includes(value)) {
+    throw new Error(`Invalid direction: ${value}. Expected one of ${TRAVERSAL_DIRECTIONS.join(', ')}`);
+  }
+  return value;
+}
+
+interface ReachedEntity {
+  id: number;
+  name: string;
+  entityType: string;
+  depth: number;
+}
+
+// Breadth-first traversal of the relations table with recursive CTEs. Walks keep one row
+// per (entity, depth) instead of one per path, so their size is bounded by the number of
+// entities times the depth even on dense or cyclic graphs.
+export class GraphTraversal {
+  private db: DatabaseConnection;
+  private namespace: string;
+  private resolver: NameResolver;
+
+  constructor(namespace: string) {
+    this.db = DatabaseConnection.getInstance();
+    this.namespace = namespace;
+    this.resolver = new NameResolver(namespace);
+  }
+
+  // Names may also be aliases; results always use the entity's own name
+  private async resolveAll(names: string[]): Promise<Map<string, ResolvedEntity>> {
+    const resolved = await this.resolver.resolveMany(this.db, names);
+    const missing = names.find(name => !resolved.has(name));
+    if (missing !== undefined) {
+      throw await this.resolver.notFoundError(this.db, missing);
+    }
+    return resolved;
+  }
+
+  // Entities within `depth` steps of the seeds, nearest first; fetches one row past the
+  // limit so callers can tell whether the result was cut off
+  private async walk(seedIds: number[], direction: TraversalDirection, relationTypes: string[] | null, depth: number, limit: number): Promise<ReachedEntity[]> {
+    const result = await this.db.query(`
+      WITH RECURSIVE walk(entity_id, depth) AS (
+        SELECT unnest($1::int[]), 0
+        UNION
+        SELECT ${otherEnd('w')}, w.depth + 1
+        FROM walk w
+        JOIN relations r ON ${edgeJoin('w')}
+        WHERE w.depth < $4 AND ($2::text[] IS NULL OR r.relation_type = ANY($2))
+      ),
+      reached AS (
+        SELECT entity_id, MIN(depth) AS depth FROM walk GROUP BY entity_id
+      )
+      SELECT e.id, e.name, e.entity_type, reached.depth
+      FROM reached
+      JOIN entities e ON e.id = reached.entity_id
+      ORDER BY reached.depth, e.name
+      LIMIT $5
+    `, [seedIds, relationTypes, direction, depth, limit + 1]);
+
+    return result.rows.map(row => ({ id: row.id, name: row.name, entityType: row.entity_type, depth: row.depth }));
+  }
+
+  private async relationsAmong(ids: number[], relationTypes: string[] | null): Promise<(Relation & { fromId: number; toId: number })[]> {
+    const result = await this.db.query(`
+      SELECT r.from_entity_id, r.to_entity_id, ef.name as from_name, et.name as to_name, r.relation_type
+      FROM relations r
+      JOIN entities ef ON r.from_entity_id = ef.id
+      JOIN entities et ON r.to_entity_id = et.id
+      WHERE r.from_entity_id = ANY($1) AND r.to_entity_id = ANY($1) AND r.deleted_at IS NULL
+        AND ($2::text[] IS NULL OR r.relation_type = ANY($2))
+      ORDER BY ef.name, et.name, r.relation_type
+    `, [ids, relationTypes]);
+
+    return result.rows.map(row => ({
+      fromId: row.from_entity_id,
+      toId: row.to_entity_id,
+      from: row.from_name,
+      to: row.to_name,
+      relationType: row.relation_type,
+    }));
+  }
+
+  async getNeighbors(name: string, options: TraversalOptions = {}): Promise<NeighborsResult> {
+    const direction = parseDirection(options.direction, 'both');
+    const relationTypes = options.relationTypes ?? null;
+    const depth = clamp(options.depth, 1, 1, MAX_TRAVERSAL_DEPTH);
+    const limit = clamp(options.limit, DEFAULT_NODE_LIMIT, 1, MAX_NODE_LIMIT);
+
+    const entity = (await this.resolveAll([name])).get(name)!;
+    // The starting entity comes back as the first row and does not count towards the limit
+    const reached = await this.walk([entity.id], direction, relationTypes, depth, limit + 1);
+    const truncated = reached.length > limit + 1;
+    const kept = reached.slice(0, limit + 1);
+
+    const depthById = new Map(kept.map(e => [e.id, e.depth]));
+    const relations = (await this.relationsAmong(kept.map(e => e.id), relationTypes)).filter(r => {
+      const fromDepth = depthById.get(r.fromId)!;
+      const toDepth = depthById.get(r.toId)!;
+      return (direction !== 'incoming' && toDepth === fromDepth + 1)
+        || (direction !== 'outgoing' && fromDepth === toDepth + 1);
+    });
+
+    return {
+      entity: entity.name,
+      neighbors: kept.filter(e => e.depth > 0).map(e => ({ name: e.name, entityType: e.entityType, distance: e.depth })),
+      relations: relations.map(({ from, to, relationType }) => ({ from, to, relationType })),
+      truncated,
+    };
+  }
+
+  async getSubgraph(names: string[], options: TraversalOptions = {}): Promise<SubgraphResult> {
+    if (names.length === 0) {
+      return { entities: [], relations: [], truncated: false };
+    }
+
+    const direction = parseDirection(options.direction, 'both');
+    const relationTypes = options.relationTypes ?? null;
+    const depth = clamp(options.depth, 2, 0, MAX_TRAVERSAL_DEPTH);
+    const limit = Math.max(clamp(options.limit, DEFAULT_NODE_LIMIT, 1, MAX_NODE_LIMIT), names.length);
+
+    const resolved = await this.resolveAll(names);
+    const reached = await this.walk([...new Set([...resolved.values()].map(e => e.id))], direction, relationTypes, depth, limit);
+    const truncated = reached.length > limit;
+    const kept = reached.slice(0, limit);
+    const keptIds = kept.map(e => e.id);
+
+    const observationsResult = await this.db.query(`
+      SELECT entity_id, array_agg(content ORDER BY created_at) as observations
+      FROM observations
+      WHERE entity_id = ANY($1) AND deleted_at IS NULL AND superseded_by IS NULL
+        AND (valid_until IS NULL OR valid_until > NOW())
+      GROUP BY entity_id
+    `, [keptIds]);
+    const observationsById = new Map<number, string[]>(observationsResult.rows.map(row => [row.entity_id, row.observations]));
+
+    const entities: Entity[] = kept.map(e => ({
+      name: e.name,
+      entityType: e.entityType,
+      observations: observationsById.get(e.id) ?? [],
+    }));
+    const relations = (await this.relationsAmong(keptIds, relationTypes))
+      .map(({ from, to, relationType }) => ({ from, to, relationType }));
+
+    return { entities, relations, truncated };
+  }
+
+  // Searches forward from `from` and backward from `to`; the entities whose two distances
+  // add up to the shortest length are exactly those on a shortest path. The relations that
+  // lead from one of them a step closer to the target form a DAG without dead ends, so
+  // walking it finds each of the first `maxPaths` paths in `length` steps, however many
+  // shortest paths a dense graph has.
+  async findPath(from: string, to: string, options: PathOptions = {}): Promise<PathResult> {
+    const direction = parseDirection(options.direction, 'both');
+    const relationTypes = options.relationTypes ?? null;
+    const maxDepth = clamp(options.maxDepth, DEFAULT_PATH_DEPTH, 1, MAX_PATH_DEPTH);
+    const maxPaths = clamp(options.maxPaths, 1, 1, MAX_PATHS);
+
+    const resolved = await this.resolveAll([from, to]);
+    const source = resolved.get(from)!;
+    const target = resolved.get(to)!;
+    from = source.name;
+    to = target.name;
+    if (source.id === target.id) {
+      return { from, to, length: 0, paths: [{ entities: [from], relations: [] }] };
+    }
+
+    const result = await this.db.query(`
+      WITH RECURSIVE forward(entity_id, depth) AS (
+        SELECT $1::int, 0
+        UNION
+        SELECT ${otherEnd('f')}, f.depth + 1
+        FROM forward f
+        JOIN relations r ON ${edgeJoin('f')}
+        WHERE f.depth < $5 AND ($4::text[] IS NULL OR r.relation_type = ANY($4))
+      ),
+      backward(entity_id, depth) AS (
+        SELECT $2::int, 0
+        UNION
+        SELECT CASE WHEN r.to_entity_id = b.entity_id THEN r.from_entity_id ELSE r.to_entity_id END, b.depth + 1
+        FROM backward b
+        JOIN relations r ON r.deleted_at IS NULL
+          AND (($3 <> 'incoming' AND r.to_entity_id = b.entity_id) OR ($3 <> 'outgoing' AND r.from_entity_id = b.entity_id))
+        WHERE b.depth < $5 AND ($4::text[] IS NULL OR r.relation_type = ANY($4))
+      ),
+      forward_distance AS (
+        SELECT entity_id, MIN(depth) AS distance FROM forward GROUP BY entity_id
+      ),
+      backward_distance AS (
+        SELECT entity_id, MIN(depth) AS distance FROM backward GROUP BY entity_id
+      ),
+      shortest AS (
+        SELECT distance AS length FROM forward_distance WHERE entity_id = $2
+      ),
+      on_path AS (
+        SELECT fd.entity_id, fd.distance
+        FROM forward_distance fd
+        JOIN backward_distance bd ON bd.entity_id = fd.entity_id
+        CROSS JOIN shortest s
+        WHERE fd.distance + bd.distance = s.length
+      )
+      SELECT r.id AS relation_id, p.entity_id AS from_id, n.entity_id AS to_id
+      FROM on_path p
+      JOIN relations r ON ${edgeJoin('p')}
+      JOIN on_path n ON n.entity_id = ${otherEnd('p')} AND n.distance = p.distance + 1
+      WHERE $4::text[] IS NULL OR r.relation_type = ANY($4)
+      ORDER BY p.distance, r.id
+    `, [source.id, target.id, direction, relationTypes, maxDepth]);
+
+    if (result.rows.length === 0) {
+      return { from, to, length: null, paths: [] };
+    }
+
+    const steps = new Map<number, { relationId: number; toId: number }[]>();
+    for (const row of result.rows) {
+      const list = steps.get(row.from_id) ?? [];
+      list.push({ relationId: row.relation_id, toId: row.to_id });
+      steps.set(row.from_id, list);
+    }
+
+    const found: { entityPath: number[]; relationPath: number[] }[] = [];
+    const extend = (entityPath: number[], relationPath: number[]): void => {
+      const last = entityPath[entityPath.length - 1];
+      if (last === target.id) {
+        found.push({ entityPath, relationPath });
+        return;
+      }
+      for (const step of steps.get(last) ?? []) {
+        if (found.length >= maxPaths) {
+          return;
+        }
+        extend([...entityPath, step.toId], [...relationPath, step.relationId]);
+      }
+    };
+    extend([source.id], []);
+
+    const entityIds = [...new Set(found.flatMap(path => path.entityPath))];
+    const relationIds = [...new Set(found.flatMap(path => path.relationPath))];
+    const namesResult = await this.db.query('SELECT id, name FROM entities WHERE id = ANY($1)', [entityIds]);
+    const relationsResult = await this.db.query(`
+      SELECT r.id, ef.name as from_name, et.name as to_name, r.relation_type
+      FROM relations r
+      JOIN entities ef ON r.from_entity_id = ef.id
+      JOIN entities et ON r.to_entity_id = et.id
+      WHERE r.id = ANY($1)
+    `, [relationIds]);
+
+    const nameById = new Map<number, string>(namesResult.rows.map(row => [row.id, row.name]));
+    const relationById = new Map<number, Relation>(relationsResult.rows.map(row => [
+      row.id,
+      { from: row.from_name, to: row.to_name, relationType: row.relation_type },
+    ]));
+
+    return {
+      from,
+      to,
+      length: found[0].relationPath.length,
+      paths: found.map(path => ({
+        entities: path.entityPath.map(id => nameById.get(id)!),
+        relations: path.relationPath.map(id => relationById.get(id)!),
+      })),
+    };
+  }
+}
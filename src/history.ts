@@ -0,0 +1,238 @@
+import { PoolClient } from 'pg';
+import { DatabaseConnection } from './database.js';
+import { Entity, KnowledgeGraph, ObservationDetail, ObservationReadOptions, Properties, Relation } from './types.js';
+import { NameResolver } from './name-resolver.js';
+import { nonEmptyProperties } from './properties.js';
+import { StoredObservation, isExpired, observationDetailFromRow } from './observation-metadata.js';
+
+// Who made a change; written to the change log with every row the transaction touches
+export interface AuditContext {
+  tool?: string;
+  actor?: string;
+  session?: string;
+}
+
+export type ChangeKind = 'entity' | 'observation' | 'relation' | 'alias';
+
+export interface ChangeLogEntry {
+  id: number;
+  changedAt: string;
+  kind: ChangeKind;
+  operation: 'INSERT' | 'UPDATE' | 'DELETE';
+  tool: string | null;
+  actor: string | null;
+  session: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+// The columns of logged rows that the as-of replay reads
+interface LoggedEntity {
+  id: number;
+  name: string;
+  entity_type: string;
+  properties: Properties | null;
+  deleted_at: string | null;
+}
+
+interface LoggedObservation extends StoredObservation {
+  entity_id: number;
+  deleted_at: string | null;
+}
+
+interface LoggedRelation {
+  from_entity_id: number;
+  to_entity_id: number;
+  relation_type: string;
+  properties: Properties | null;
+  deleted_at: string | null;
+}
+
+type LoggedState =
+  | { table_name: 'entities'; after: LoggedEntity }
+  | { table_name: 'observations'; after: LoggedObservation }
+  | { table_name: 'relations'; after: LoggedRelation }
+  | { table_name: 'entity_aliases'; after: { deleted_at?: undefined } };
+
+export interface EntityHistoryOptions {
+  limit?: number;
+  // Only changes made at or after this timestamp
+  since?: string;
+}
+
+const KIND_BY_TABLE: Record<string, ChangeKind> = {
+  entities: 'entity',
+  observations: 'observation',
+  relations: 'relation',
+  entity_aliases: 'alias',
+};
+
+const DEFAULT_HISTORY_LIMIT = 100;
+const MAX_HISTORY_LIMIT = 1000;
+
+export function validateTimestamp(value: string, label: string): string {
+  if (Number.isNaN(Date.parse(value))) {
+    throw new Error(`Invalid ${label} timestamp: ${value}. Use ISO 8601, e.g. 2024-05-01T12:00:00Z`);
+  }
+  return value;
+}
+
+// Tags the current transaction so the change-log triggers can record who made each change.
+// The settings are transaction-local and vanish on COMMIT or ROLLBACK.
+export async function applyAuditContext(client: PoolClient, context: AuditContext): Promise<void> {
+  await client.query(
+    "SELECT set_config('memory.tool', $1, true), set_config('memory.actor', $2, true), set_config('memory.session', $3, true)",
+    [context.tool ?? '', context.actor ?? '', context.session ?? '']
+  );
+}
+
+// Reads the change log written by the triggers from migration 004
+export class GraphHistory {
+  private db: DatabaseConnection;
+  private namespace: string;
+  private resolver: NameResolver;
+
+  constructor(namespace: string) {
+    this.db = DatabaseConnection.getInstance();
+    this.namespace = namespace;
+    this.resolver = new NameResolver(namespace);
+  }
+
+  // Every change to the entity, its observations and its relations, newest first. Follows
+  // the entity by id, so changes made before a rename are included. Live entities are
+  // found by name or alias; deleted ones by any name they were logged under.
+  async getEntityHistory(name: string, options: EntityHistoryOptions = {}): Promise<ChangeLogEntry[]> {
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_HISTORY_LIMIT, 1), MAX_HISTORY_LIMIT);
+    const since = options.since !== undefined ? validateTimestamp(options.since, 'since') : null;
+
+    let entityIds: number[];
+    const live = await this.resolver.resolve(this.db, name);
+    if (live) {
+      entityIds = [live.id];
+    } else {
+      const ids = await this.db.query(`
+        SELECT DISTINCT row_id FROM change_log
+        WHERE namespace = $1 AND table_name = 'entities'
+          AND (after->>'name' = $2 OR before->>'name' = $2)
+      `, [this.namespace, name]);
+      if (ids.rows.length === 0) {
+        const suggestions = await this.resolver.suggest(this.db, name);
+        const hint = suggestions.length > 0 ? `. Did you mean: ${suggestions.join(', ')}?` : '';
+        throw new Error(`No history found for entity ${name}${hint}`);
+      }
+      entityIds = ids.rows.map(row => row.row_id);
+    }
+
+    const result = await this.db.query(`
+      SELECT id, to_json(changed_at) #>> '{}' as changed_at, table_name, operation,
+             tool, actor, session_id, before, after
+      FROM change_log
+      WHERE namespace = $1 AND entity_ids && $2::int[]
+        AND ($3::timestamptz IS NULL OR changed_at >= $3)
+      ORDER BY id DESC
+      LIMIT $4
+    `, [this.namespace, entityIds, since, limit]);
+
+    return result.rows.map(row => ({
+      id: Number(row.id),
+      changedAt: row.changed_at,
+      kind: KIND_BY_TABLE[row.table_name],
+      operation: row.operation,
+      tool: row.tool,
+      actor: row.actor,
+      session: row.session_id,
+      before: row.before,
+      after: row.after,
+    }));
+  }
+
+  // Rebuilds the graph as it was at `asOf` from the last logged state of every row.
+  // With `names`, only those entities and the relations between them are returned, and
+  // only the changes touching entities that ever had one of the names are replayed.
+  // Observations count as expired when their validUntil had passed at `asOf`.
+  async readGraphAsOf(asOf: string, names?: string[], options: ObservationReadOptions = {}): Promise<KnowledgeGraph> {
+    validateTimestamp(asOf, 'asOf');
+
+    let entityIds: number[] | null = null;
+    if (names !== undefined) {
+      const ids = await this.db.query(`
+        SELECT DISTINCT row_id FROM change_log
+        WHERE namespace = $1 AND table_name = 'entities' AND changed_at <= $2::timestamptz
+          AND after->>'name' = ANY($3)
+      `, [this.namespace, asOf, names]);
+      entityIds = ids.rows.map(row => row.row_id);
+      if (entityIds.length === 0) {
+        return { entities: [], relations: [] };
+      }
+    }
+
+    const result = await this.db.query(`
+      WITH state AS (
+        SELECT DISTINCT ON (table_name, row_id) table_name, operation, after
+        FROM change_log
+        WHERE namespace = $1 AND changed_at <= $2::timestamptz
+          AND ($3::int[] IS NULL OR entity_ids && $3::int[])
+        ORDER BY table_name, row_id, id DESC
+      )
+      SELECT table_name, after FROM state WHERE operation <> 'DELETE'
+    `, [this.namespace, asOf, entityIds]);
+
+    const entityRows = new Map<number, { name: string; entityType: string; properties?: Properties }>();
+    const observationRows: { entityId: number; observation: ObservationDetail; id: number }[] = [];
+    const relationRows: { fromId: number; toId: number; relationType: string; properties?: Properties }[] = [];
+    for (const row of result.rows as LoggedState[]) {
+      // Rows moved to the trash are logged as updates that set deleted_at
+      if (row.after.deleted_at) {
+        continue;
+      }
+      if (row.table_name === 'entities') {
+        const { after } = row;
+        entityRows.set(after.id, { name: after.name, entityType: after.entity_type, properties: nonEmptyProperties(after.properties) });
+      } else if (row.table_name === 'observations') {
+        const { after } = row;
+        const observation = observationDetailFromRow(after);
+        if ((options.includeExpired || !isExpired(observation, Date.parse(asOf)))
+          && (options.includeSuperseded || observation.supersededBy === undefined)) {
+          observationRows.push({ entityId: after.entity_id, observation, id: after.id });
+        }
+      } else if (row.table_name === 'relations') {
+        const { after } = row;
+        relationRows.push({ fromId: after.from_entity_id, toId: after.to_entity_id, relationType: after.relation_type, properties: nonEmptyProperties(after.properties) });
+      }
+    }
+
+    const included = (id: number) => {
+      const entity = entityRows.get(id);
+      return entity !== undefined && (names === undefined || names.includes(entity.name));
+    };
+
+    const observationsById = new Map<number, ObservationDetail[]>();
+    observationRows.sort((a, b) => (a.observation.createdAt ?? '').localeCompare(b.observation.createdAt ?? '') || a.id - b.id);
+    for (const o of observationRows) {
+      const list = observationsById.get(o.entityId) ?? [];
+      list.push(o.observation);
+      observationsById.set(o.entityId, list);
+    }
+
+    const entities: Entity[] = [...entityRows.entries()]
+      .filter(([id]) => included(id))
+      .map(([id, e]) => {
+        const observations = observationsById.get(id) ?? [];
+        return {
+          name: e.name,
+          entityType: e.entityType,
+          observations: observations.map(o => o.content),
+          observationDetails: options.includeMetadata || options.includeSuperseded ? observations : undefined,
+          properties: e.properties,
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    const relations: Relation[] = relationRows
+      .filter(r => included(r.fromId) && included(r.toId))
+      .map(r => ({ from: entityRows.get(r.fromId)!.name, to: entityRows.get(r.toId)!.name, relationType: r.relationType, properties: r.properties }))
+      .sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+
+    return { entities, relations };
+  }
+}
@@ -0,0 +1,285 @@
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest, isJSONRPCRequest } from "@modelcontextprotocol/sdk/types.js";
+import { DatabaseKnowledgeGraphManager } from './knowledge-graph-manager.js';
+import { createMcpServer } from './mcp-server.js';
+import { requiredScope } from './tools.js';
+import { AuthError, Authenticator, Principal, isOriginAllowed, isSameKey } from './auth.js';
+
+export const NAMESPACE_HEADER = 'x-memory-namespace';
+
+// Same limit the SDK applies when it reads request bodies itself
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const STREAMABLE_PATHS = ['/mcp', '/'];
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const MAX_SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+const LEGACY_SSE_PATH = '/sse';
+const LEGACY_MESSAGES_PATH = '/messages';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  defaultNamespace: string;
+  authenticator: Authenticator;
+  corsOrigins: string[];
+  // Streamable sessions without a request for this long are closed; 30 minutes by default
+  sessionIdleTimeoutMs?: number;
+}
+
+// A session is pinned to the key that initialized it and to the namespace chosen at that time
+interface Session<T> {
+  transport: T;
+  principal: Principal;
+}
+
+// Clients may drop a Streamable session without a DELETE, so idle ones are closed. A session
+// counts as idle once no request, including an open GET stream, has been active for a while.
+interface StreamableSession extends Session<StreamableHTTPServerTransport> {
+  activeRequests: number;
+  lastActiveAt: number;
+}
+
+class HttpError extends Error {
+  readonly statusCode: number;
+
+  constructor(statusCode: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+  }
+}
+
+function sendError(res: ServerResponse, statusCode: number, code: number, message: string) {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: "2.0", id: null, error: { code, message } }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Parse error: request body is not valid JSON');
+  }
+}
+
+// Rejects tool calls outside the caller's scopes before they reach the transport, so they
+// get a real HTTP 403 instead of a JSON-RPC error inside a 200 response
+function authorizeMessages(authenticator: Authenticator, principal: Principal, body: unknown) {
+  const messages: unknown[] = Array.isArray(body) ? body : [body];
+  for (const message of messages) {
+    if (isJSONRPCRequest(message) && message.method === 'tools/call') {
+      const name = String(message.params?.name);
+      authenticator.authorize(principal, requiredScope(name), `Tool ${name}`);
+    }
+  }
+}
+
+export function startHttpServer(options: HttpServerOptions): HttpServer {
+  const { authenticator, corsOrigins, defaultNamespace } = options;
+  const sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const streamableSessions = new Map<string, StreamableSession>();
+  const sseSessions = new Map<string, Session<SSEServerTransport>>();
+
+  const authenticate = (req: IncomingMessage): Principal => authenticator.authenticate(req.headers);
+
+  const createSessionServer = (req: IncomingMessage, principal: Principal) => {
+    const namespaceHeader = req.headers[NAMESPACE_HEADER];
+    const namespace = authenticator.resolveNamespace(
+      principal,
+      typeof namespaceHeader === 'string' ? namespaceHeader : undefined,
+      defaultNamespace
+    );
+    let knowledgeGraphManager: DatabaseKnowledgeGraphManager;
+    try {
+      knowledgeGraphManager = new DatabaseKnowledgeGraphManager(namespace);
+    } catch (error) {
+      throw new HttpError(400, error instanceof Error ? error.message : String(error));
+    }
+    return createMcpServer(knowledgeGraphManager, principal);
+  };
+
+  const requireSessionOwner = <S extends Session<unknown>>(session: S | undefined, principal: Principal): S => {
+    if (!session) {
+      throw new HttpError(404, 'Session not found');
+    }
+    if (!isSameKey(session.principal, principal)) {
+      throw new AuthError(403, 'Session belongs to a different key');
+    }
+    return session;
+  };
+
+  const trackActivity = (session: StreamableSession, res: ServerResponse) => {
+    session.activeRequests++;
+    session.lastActiveAt = Date.now();
+    res.on('close', () => {
+      session.activeRequests--;
+      session.lastActiveAt = Date.now();
+    });
+  };
+
+  const closeIdleSessions = async () => {
+    const cutoff = Date.now() - sessionIdleTimeoutMs;
+    for (const [id, session] of streamableSessions) {
+      if (session.activeRequests === 0 && session.lastActiveAt <= cutoff) {
+        streamableSessions.delete(id);
+        await session.transport.close().catch(error => console.error(`Error closing idle session ${id}:`, error));
+      }
+    }
+  };
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse, principal: Principal) => {
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = typeof sessionIdHeader === 'string' ? sessionIdHeader : undefined;
+
+    if (req.method !== 'POST') {
+      // GET opens the server-to-client SSE stream, DELETE ends the session
+      if (!sessionId) {
+        throw new HttpError(400, 'Missing Mcp-Session-Id header');
+      }
+      const session = requireSessionOwner(streamableSessions.get(sessionId), principal);
+      trackActivity(session, res);
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    authorizeMessages(authenticator, principal, body);
+
+    if (sessionId) {
+      const session = requireSessionOwner(streamableSessions.get(sessionId), principal);
+      trackActivity(session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      throw new HttpError(400, 'Missing Mcp-Session-Id header; the first request must be initialize');
+    }
+
+    const server = createSessionServer(req, principal);
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamableSessions.set(id, { transport, principal, activeRequests: 0, lastActiveAt: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        streamableSessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  // The deprecated HTTP+SSE transport (protocol version 2024-11-05) for older clients
+  const handleLegacySse = async (req: IncomingMessage, res: ServerResponse, principal: Principal) => {
+    const server = createSessionServer(req, principal);
+    const transport = new SSEServerTransport(LEGACY_MESSAGES_PATH, res);
+    sseSessions.set(transport.sessionId, { transport, principal });
+    res.on('close', () => {
+      sseSessions.delete(transport.sessionId);
+    });
+    await server.connect(transport);
+  };
+
+  const handleLegacyMessage = async (req: IncomingMessage, res: ServerResponse, principal: Principal, url: URL) => {
+    const session = requireSessionOwner(sseSessions.get(url.searchParams.get('sessionId') ?? ''), principal);
+    const body = await readJsonBody(req);
+    authorizeMessages(authenticator, principal, body);
+    await session.transport.handlePostMessage(req, res, body);
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    // CORS is only granted to configured origins
+    const origin = req.headers.origin;
+    if (origin !== undefined) {
+      if (!isOriginAllowed(origin, corsOrigins)) {
+        res.writeHead(403, { 'Content-Type': 'text/plain' });
+        res.end('Origin not allowed');
+        return;
+      }
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Allow-Methods', 'POST, GET, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', `Content-Type, Accept, Authorization, X-API-Key, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID, ${NAMESPACE_HEADER}`);
+      res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id, WWW-Authenticate');
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('OK');
+      return;
+    }
+
+    const isStreamable = STREAMABLE_PATHS.includes(url.pathname) && ['GET', 'POST', 'DELETE'].includes(req.method ?? '');
+    const isLegacySse = url.pathname === LEGACY_SSE_PATH && req.method === 'GET';
+    const isLegacyMessage = url.pathname === LEGACY_MESSAGES_PATH && req.method === 'POST';
+    if (!isStreamable && !isLegacySse && !isLegacyMessage) {
+      res.writeHead(404);
+      res.end('Not Found');
+      return;
+    }
+
+    try {
+      const principal = authenticate(req);
+      if (isStreamable) {
+        await handleStreamable(req, res, principal);
+      } else if (isLegacySse) {
+        await handleLegacySse(req, res, principal);
+      } else {
+        await handleLegacyMessage(req, res, principal, url);
+      }
+    } catch (error) {
+      if (error instanceof AuthError) {
+        // Never log the request body or the presented credential
+        console.error(`Auth failure (${error.statusCode}) from ${req.socket.remoteAddress} ${req.method} ${url.pathname}: ${error.message}`);
+        if (error.statusCode === 401) {
+          res.setHeader('WWW-Authenticate', 'Bearer realm="memory-server"');
+        }
+        sendError(res, error.statusCode, -32001, error.message);
+      } else if (error instanceof HttpError) {
+        sendError(res, error.statusCode, error.statusCode === 400 ? -32600 : -32000, error.message);
+      } else {
+        console.error('HTTP request error:', error);
+        sendError(res, 500, -32603, error instanceof Error ? error.message : String(error));
+      }
+    }
+  });
+
+  const sweep = setInterval(closeIdleSessions, Math.min(sessionIdleTimeoutMs, MAX_SESSION_SWEEP_INTERVAL_MS));
+  sweep.unref();
+  httpServer.on('close', () => clearInterval(sweep));
+
+  httpServer.listen(options.port, options.host, () => {
+    console.error(`Memory MCP Server running on HTTP at http://${options.host}:${options.port}/mcp (legacy SSE at ${LEGACY_SSE_PATH})`);
+  });
+
+  return httpServer;
+}
@@ -0,0 +1,230 @@
+import { PoolClient } from 'pg';
+import { DatabaseConnection } from './database.js';
+import { AuditContext, applyAuditContext } from './history.js';
+
+export interface RetentionPolicy {
+  entityType: string;
+  // Observations not read for this many days are candidates for archiving
+  maxIdleDays: number;
+  // Candidates are archived once their importance has decayed below this (default: 1, the
+  // weight of a single read today)
+  minImportance?: number;
+}
+
+export interface ArchivedObservation {
+  id: number;
+  entityName: string;
+  entityType: string;
+  content: string;
+  importance: number;
+  accessCount: number;
+  // null when the observation was never read; it has then been idle since it was created
+  lastAccessedAt: string | null;
+}
+
+export interface RetentionReport {
+  // Observations moved to the trash, or that would be with dryRun
+  observations: ArchivedObservation[];
+  dryRun: boolean;
+}
+
+type Queryable = DatabaseConnection | PoolClient;
+
+const DEFAULT_HALF_LIFE_DAYS = 30;
+const DEFAULT_MIN_IMPORTANCE = 1;
+
+// Weight of ln(1 + importance) in the search score: a tiebreaker among similar matches that
+// never outweighs a better text match
+export const IMPORTANCE_SEARCH_WEIGHT = 0.1;
+
+// MEMORY_IMPORTANCE_HALF_LIFE_DAYS: days after which a read counts half as much (default: 30)
+export function halfLifeFromEnv(env: NodeJS.ProcessEnv = process.env): number {
+  const halfLife = Number(env.MEMORY_IMPORTANCE_HALF_LIFE_DAYS || DEFAULT_HALF_LIFE_DAYS);
+  if (!(halfLife > 0)) {
+    throw new Error(`Invalid MEMORY_IMPORTANCE_HALF_LIFE_DAYS: ${env.MEMORY_IMPORTANCE_HALF_LIFE_DAYS}. Expected a positive number`);
+  }
+  return halfLife;
+}
+
+let defaultHalfLife: number | undefined;
+
+export function getHalfLifeDays(): number {
+  if (defaultHalfLife === undefined) {
+    defaultHalfLife = halfLifeFromEnv();
+  }
+  return defaultHalfLife;
+}
+
+// Counts a read of the given entities and observations: the stored importance is decayed to
+// now and 1 is added. Bookkeeping must never fail the read, so errors are only logged.
+export async function recordAccess(db: Queryable, entityIds: number[], observationIds: number[]): Promise<void> {
+  // Sorted and unique, so concurrent reads lock rows in the same order and no row is hit twice
+  const unique = (ids: number[]) => [...new Set(ids)].sort((a, b) => a - b);
+
+  try {
+    for (const [table, column, ids] of [
+      ['entity_access', 'entity_id', unique(entityIds)],
+      ['observation_access', 'observation_id', unique(observationIds)],
+    ] as const) {
+      if (ids.length === 0) {
+        continue;
+      }
+      await db.query(`
+        INSERT INTO ${table} AS a (${column}, access_count, last_accessed_at, importance)
+        SELECT id, 1, NOW(), 1 FROM unnest($1::int[]) AS id
+        ON CONFLICT (${column}) DO UPDATE SET
+          access_count = a.access_count + 1,
+          last_accessed_at = NOW(),
+          importance = memory_decayed_importance(a.importance, a.last_accessed_at, $2) + 1
+      `, [ids, getHalfLifeDays()]);
+    }
+  } catch (error) {
+    console.error('Recording access failed:', error);
+  }
+}
+
+function validatePolicy(policy: RetentionPolicy): void {
+  if (!policy.entityType) {
+    throw new Error('Retention policies need an entityType');
+  }
+  if (!(policy.maxIdleDays > 0)) {
+    throw new Error(`Invalid maxIdleDays for ${policy.entityType}: ${policy.maxIdleDays}. Expected a positive number`);
+  }
+  if (policy.minImportance !== undefined && !(policy.minImportance >= 0)) {
+    throw new Error(`Invalid minImportance for ${policy.entityType}: ${policy.minImportance}. Expected a number of at least 0`);
+  }
+}
+
+export class Retention {
+  private db: DatabaseConnection;
+  private namespace: string | null;
+  private audit: AuditContext;
+  private halfLifeDays: number;
+
+  // A null namespace applies the policies of every namespace (used by the retention job)
+  constructor(namespace: string | null, audit: AuditContext = {}, halfLifeDays: number = getHalfLifeDays()) {
+    this.db = DatabaseConnection.getInstance();
+    this.namespace = namespace;
+    this.audit = audit;
+    this.halfLifeDays = halfLifeDays;
+  }
+
+  async list(): Promise<RetentionPolicy[]> {
+    const result = await this.db.query(
+      'SELECT entity_type, max_idle_days, min_importance FROM retention_policies WHERE namespace = $1 ORDER BY entity_type',
+      [this.namespace]
+    );
+    return result.rows.map(row => ({
+      entityType: row.entity_type,
+      maxIdleDays: Number(row.max_idle_days),
+      minImportance: Number(row.min_importance),
+    }));
+  }
+
+  // Adds policies, replacing existing ones for the same entity type
+  async set(policies: RetentionPolicy[]): Promise<RetentionPolicy[]> {
+    policies.forEach(validatePolicy);
+    const client = await this.db.getClient();
+
+    try {
+      await client.query('BEGIN');
+      for (const policy of policies) {
+        await client.query(`
+          INSERT INTO retention_policies (namespace, entity_type, max_idle_days, min_importance)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT (namespace, entity_type) DO UPDATE SET
+            max_idle_days = EXCLUDED.max_idle_days,
+            min_importance = EXCLUDED.min_importance
+        `, [this.namespace, policy.entityType, policy.maxIdleDays, policy.minImportance ?? DEFAULT_MIN_IMPORTANCE]);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return this.list();
+  }
+
+  async remove(entityTypes: string[]): Promise<string[]> {
+    const result = await this.db.query(
+      'DELETE FROM retention_policies WHERE namespace = $1 AND entity_type = ANY($2) RETURNING entity_type',
+      [this.namespace, entityTypes]
+    );
+    return result.rows.map(row => row.entity_type);
+  }
+
+  // Moves idle, unimportant observations of entities with a policy to the trash, where
+  // restore_entities can bring them back. Superseded observations are left alone, as reads
+  // already skip them.
+  async apply(options: { dryRun?: boolean } = {}): Promise<RetentionReport> {
+    const client = await this.db.getClient();
+
+    try {
+      await client.query('BEGIN');
+      await applyAuditContext(client, this.audit);
+
+      const candidates = await client.query(`
+        SELECT o.id, e.name AS entity_name, e.entity_type, o.content,
+               memory_decayed_importance(a.importance, a.last_accessed_at, $2) AS importance,
+               COALESCE(a.access_count, 0) AS access_count,
+               to_json(a.last_accessed_at) #>> '{}' AS last_accessed_at
+        FROM retention_policies p
+        JOIN entities e ON e.namespace = p.namespace AND e.entity_type = p.entity_type AND e.deleted_at IS NULL
+        JOIN observations o ON o.entity_id = e.id AND o.deleted_at IS NULL AND o.superseded_by IS NULL
+        LEFT JOIN observation_access a ON a.observation_id = o.id
+        WHERE ($1::text IS NULL OR p.namespace = $1)
+          AND COALESCE(a.last_accessed_at, o.created_at::timestamptz) <= NOW() - p.max_idle_days * interval '1 day'
+          AND memory_decayed_importance(a.importance, a.last_accessed_at, $2) < p.min_importance
+        ORDER BY e.namespace, e.name, o.created_at, o.id
+        FOR UPDATE OF o
+      `, [this.namespace, this.halfLifeDays]);
+
+      const ids = candidates.rows.map(row => row.id);
+      if (ids.length > 0) {
+        await client.query('UPDATE observations SET deleted_at = NOW() WHERE id = ANY($1)', [ids]);
+      }
+
+      await client.query(options.dryRun ? 'ROLLBACK' : 'COMMIT');
+      return {
+        observations: candidates.rows.map(row => ({
+          id: row.id,
+          entityName: row.entity_name,
+          entityType: row.entity_type,
+          content: row.content,
+          importance: Number(row.importance),
+          accessCount: row.access_count,
+          lastAccessedAt: row.last_accessed_at,
+        })),
+        dryRun: Boolean(options.dryRun),
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+// Applies the retention policies of every namespace now and then every `intervalHours`
+export function startRetentionJob(intervalHours: number): NodeJS.Timeout {
+  const retention = new Retention(null, { tool: 'retention-job' });
+  const apply = async () => {
+    try {
+      const report = await retention.apply();
+      if (report.observations.length > 0) {
+        console.error(`Archived ${report.observations.length} idle observations to the trash`);
+      }
+    } catch (error) {
+      console.error('Applying retention policies failed:', error);
+    }
+  };
+
+  void apply();
+  const timer = setInterval(apply, intervalHours * 60 * 60 * 1000);
+  timer.unref();
+  return timer;
+}
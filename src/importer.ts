@@ -0,0 +1,215 @@
+import { PoolClient } from 'pg';
+import { GraphSnapshotEntity, GraphSnapshotRelation, Properties, Relation, TimestampedObservation } from './types.js';
+import { validateProperties } from './properties.js';
+import { NameResolver } from './name-resolver.js';
+import { SchemaRegistry, SchemaValidator } from './schema.js';
+import { insertEntities, insertObservations } from './bulk-inserts.js';
+
+export interface ImportReport {
+  entities: { created: number; skipped: number; conflicted: number };
+  observations: { created: number; skipped: number };
+  relations: { created: number; skipped: number; missingEndpoints: number };
+  conflicts: { name: string; existingType: string; importedType: string }[];
+  unresolvedRelations: (Relation & { missing: string[] })[];
+  errors: { line: number; message: string }[];
+}
+
+export function createImportReport(): ImportReport {
+  return {
+    entities: { created: 0, skipped: 0, conflicted: 0 },
+    observations: { created: 0, skipped: 0 },
+    relations: { created: 0, skipped: 0, missingEndpoints: 0 },
+    conflicts: [],
+    unresolvedRelations: [],
+    errors: [],
+  };
+}
+
+// An entity one importEntities batch writes to, by stored name; `id` is unset for entities
+// the batch creates
+interface ImportTarget {
+  id?: number;
+  entityType: string;
+  properties: Properties;
+  createdAt?: string;
+  updatedAt?: string;
+  contents: Set<string>;
+  observations: TimestampedObservation[];
+}
+
+// Writes entities and relations into the graph without touching data that is already there.
+// Names resolve like create_entities does, to an entity name or alias, and types take their
+// registered spelling. Each batch takes one statement per table. Callers own the transaction
+// on `client`, so a dry run is simply a ROLLBACK at the end.
+export class GraphImporter {
+  private client: PoolClient;
+  private namespace: string;
+  private resolver: NameResolver;
+  private schema: SchemaValidator | null = null;
+  readonly report: ImportReport;
+
+  constructor(client: PoolClient, namespace: string, report: ImportReport = createImportReport()) {
+    this.client = client;
+    this.namespace = namespace;
+    this.resolver = new NameResolver(namespace);
+    this.report = report;
+  }
+
+  private async validator(): Promise<SchemaValidator> {
+    this.schema ??= await new SchemaRegistry(this.namespace).validator(this.client);
+    return this.schema;
+  }
+
+  async importEntities(entities: GraphSnapshotEntity[]): Promise<void> {
+    if (entities.length === 0) {
+      return;
+    }
+    const schema = await this.validator();
+    const existing = await this.resolver.resolveMany(this.client, entities.map(entity => entity.name), { exactOnly: true });
+    const storedIds = [...new Set([...existing.values()].map(entity => entity.id))];
+    const storedContents = await this.client.query(
+      'SELECT entity_id, content FROM observations WHERE entity_id = ANY($1) AND deleted_at IS NULL',
+      [storedIds]
+    );
+
+    const targets = new Map<string, ImportTarget>();
+    for (const found of existing.values()) {
+      targets.set(found.name, { id: found.id, entityType: found.entity_type, properties: {}, contents: new Set(), observations: [] });
+    }
+    const targetById = new Map([...targets.values()].map(target => [target.id!, target]));
+    for (const row of storedContents.rows) {
+      targetById.get(row.entity_id)!.contents.add(row.content);
+    }
+
+    for (const entity of entities) {
+      const properties = validateProperties(entity.properties, entity.name) ?? {};
+      const entityType = schema.canonicalEntityType(entity.entityType, entity.name);
+      const name = existing.get(entity.name)?.name ?? entity.name;
+      let target = targets.get(name);
+
+      if (!target) {
+        target = { entityType, properties, createdAt: entity.createdAt, updatedAt: entity.updatedAt, contents: new Set(), observations: [] };
+        targets.set(name, target);
+        this.report.entities.created++;
+      } else if (target.entityType !== entityType) {
+        // Same name but a different type is most likely a different thing; leave it for a human
+        this.report.entities.conflicted++;
+        this.report.conflicts.push({ name: entity.name, existingType: target.entityType, importedType: entity.entityType });
+        continue;
+      } else {
+        this.report.entities.skipped++;
+        // Like observations, properties the entity lacks are added; existing values win
+        target.properties = { ...properties, ...target.properties };
+      }
+
+      for (const observation of entity.observations) {
+        if (target.contents.has(observation.content)) {
+          this.report.observations.skipped++;
+          continue;
+        }
+        target.contents.add(observation.content);
+        target.observations.push(observation);
+      }
+    }
+
+    const stored = [...targets.values()].filter(target => target.id !== undefined && Object.keys(target.properties).length > 0);
+    if (stored.length > 0) {
+      await this.client.query(`
+        UPDATE entities e SET properties = x.properties::jsonb || e.properties
+        FROM unnest($1::int[], $2::text[]) AS x(id, properties)
+        WHERE e.id = x.id AND x.properties::jsonb || e.properties <> e.properties
+      `, [stored.map(target => target.id), stored.map(target => JSON.stringify(target.properties))]);
+    }
+
+    const fresh = [...targets].filter(([, target]) => target.id === undefined);
+    const ids = await insertEntities(this.client, this.namespace, fresh.map(([name, target]) => ({ name, ...target })));
+    for (const [name, target] of fresh) {
+      target.id = ids.get(name);
+      // Created concurrently since it was resolved; counted as skipped, as a rerun would
+      if (target.id === undefined) {
+        this.report.entities.created--;
+        this.report.entities.skipped++;
+        this.report.observations.skipped += target.observations.length;
+      }
+    }
+
+    const rows = [...targets.values()].flatMap(target => target.id === undefined
+      ? []
+      : target.observations.map(observation => ({ entityId: target.id!, observation })));
+    const observationIds = await insertObservations(this.client, rows);
+    this.report.observations.created += rows.length;
+
+    // Supersession is exported by content, so it is linked once all observations are in
+    const superseded = rows.flatMap((row, index) => row.observation.supersededBy === undefined
+      ? []
+      : [{ id: observationIds[index], entityId: row.entityId, supersededBy: row.observation.supersededBy }]);
+    if (superseded.length > 0) {
+      await this.client.query(`
+        UPDATE observations o SET superseded_by = (
+          SELECT r.id FROM observations r
+          WHERE r.entity_id = x.entity_id AND r.content = x.superseded_by AND r.id <> x.id AND r.deleted_at IS NULL
+          ORDER BY r.id DESC
+          LIMIT 1
+        )
+        FROM unnest($1::int[], $2::int[], $3::text[]) AS x(id, entity_id, superseded_by)
+        WHERE o.id = x.id
+      `, [superseded.map(s => s.id), superseded.map(s => s.entityId), superseded.map(s => s.supersededBy)]);
+    }
+  }
+
+  // Endpoints resolve to entity names or aliases, and relations written with an inverse name
+  // are stored the registered way round
+  async importRelations(relations: GraphSnapshotRelation[]): Promise<void> {
+    if (relations.length === 0) {
+      return;
+    }
+    const schema = await this.validator();
+    const resolved = await this.resolver.resolveMany(this.client, relations.flatMap(relation => [relation.from, relation.to]), { exactOnly: true });
+
+    const accepted: { fromId: number; toId: number; relationType: string; createdAt?: string; properties: Properties }[] = [];
+    const keys = new Set<string>();
+    for (const relation of relations) {
+      const fromEntity = resolved.get(relation.from);
+      const toEntity = resolved.get(relation.to);
+      if (!fromEntity || !toEntity) {
+        this.report.relations.missingEndpoints++;
+        this.report.unresolvedRelations.push({ ...relation, missing: [relation.from, relation.to].filter(name => !resolved.has(name)) });
+        continue;
+      }
+
+      const properties = validateProperties(relation.properties, `relation ${relation.from} -> ${relation.to}`) ?? {};
+      const { relationType, reversed } = await schema.canonicalRelation(this.client, relation.relationType, fromEntity, toEntity, accepted);
+      const [source, target] = reversed ? [toEntity, fromEntity] : [fromEntity, toEntity];
+      const key = JSON.stringify([source.id, target.id, relationType]);
+      if (keys.has(key)) {
+        this.report.relations.skipped++;
+        continue;
+      }
+      keys.add(key);
+      accepted.push({ fromId: source.id, toId: target.id, relationType, createdAt: relation.createdAt, properties });
+    }
+
+    const inserted = await this.client.query(`
+      INSERT INTO relations (from_entity_id, to_entity_id, relation_type, created_at, properties)
+      SELECT x.from_id, x.to_id, x.relation_type, COALESCE(x.created_at, NOW()), x.properties::jsonb
+      FROM unnest($1::int[], $2::int[], $3::text[], $4::timestamp[], $5::text[])
+        WITH ORDINALITY AS x(from_id, to_id, relation_type, created_at, properties, ord)
+      ORDER BY x.ord
+      ON CONFLICT (from_entity_id, to_entity_id, relation_type) WHERE deleted_at IS NULL DO NOTHING
+    `, [
+      accepted.map(r => r.fromId),
+      accepted.map(r => r.toId),
+      accepted.map(r => r.relationType),
+      accepted.map(r => r.createdAt ?? null),
+      accepted.map(r => JSON.stringify(r.properties)),
+    ]);
+
+    const created = inserted.rowCount ?? 0;
+    this.report.relations.created += created;
+    this.report.relations.skipped += accepted.length - created;
+  }
+
+  recordError(line: number, message: string): void {
+    this.report.errors.push({ line, message });
+  }
+}
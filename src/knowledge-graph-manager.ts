@@ -0,0 +1,1564 @@
+import { PoolClient } from 'pg';
+import { DatabaseConnection } from './database.js';
+import {
+  Entity, Relation, KnowledgeGraph, GraphSnapshot, MergeReport, NewEntity, ObservationDetail, ObservationInput,
+  ObservationReadOptions, ObservationUpdate, Properties, SearchOptions, SearchResult, SearchResultEntity,
+  TimestampedObservation, EntityWriteResult, ObservationDeletionResult, ObservationWriteResult, RelationWriteOptions,
+  RelationWriteResult, WriteItemResult, WriteMode, WriteOptions,
+} from './types.js';
+import { GraphImporter, ImportReport } from './importer.js';
+import { insertEntities, insertObservations, releaseTrashedAliases } from './bulk-inserts.js';
+import { getEmbeddingProvider } from './embeddings.js';
+import { SemanticIndex, SemanticSearchOptions, SemanticSearchResult, hasEmbeddingColumns } from './semantic-search.js';
+import { AuditContext, ChangeLogEntry, EntityHistoryOptions, GraphHistory, applyAuditContext } from './history.js';
+import { PurgeReport, RestoreReport, RestoreRequest, Trash, TrashListing } from './trash.js';
+import { GraphTraversal, NeighborsResult, PathOptions, PathResult, SubgraphResult, TraversalOptions } from './graph-traversal.js';
+import { NameResolver, ResolvedEntity } from './name-resolver.js';
+import { DuplicateFinder, DuplicateOptions, DuplicateReport } from './duplicates.js';
+import { nonEmptyProperties, validateProperties } from './properties.js';
+import {
+  OBSERVATION_JSON, StoredObservation, normalizeObservation, normalizeObservationUpdate, observationDetailFromRow, observationFromRow,
+} from './observation-metadata.js';
+import { EntityTypeDefinition, GraphSchema, NormalizationReport, RelationTypeDefinition, SchemaRegistry } from './schema.js';
+import { ConsolidationOptions, ConsolidationReport, Consolidator } from './consolidation.js';
+import { GraphReader, ReadGraphOptions, ReadGraphResult, entityFromRow } from './graph-reader.js';
+import { AnalyticsOptions, GraphAnalytics, GraphAnalyzer, GraphStats, GraphStatsOptions } from './graph-analytics.js';
+import { IMPORTANCE_SEARCH_WEIGHT, Retention, RetentionPolicy, RetentionReport, getHalfLifeDays, recordAccess } from './importance.js';
+
+export const DEFAULT_NAMESPACE = 'default';
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+const MAX_HIGHLIGHTS = 3;
+
+const NAMESPACE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.:-]{0,127}$/;
+
+export function validateNamespace(namespace: string): string {
+  if (!NAMESPACE_PATTERN.test(namespace)) {
+    throw new Error(`Invalid namespace "${namespace}": use up to 128 letters, digits, '_', '.', ':' or '-'`);
+  }
+  return namespace;
+}
+
+export const WRITE_MODES: WriteMode[] = ['skip', 'merge', 'fail'];
+
+const DEFAULT_MISSING_ENTITY_TYPE = 'unknown';
+
+export function parseWriteMode(value: unknown): WriteMode {
+  if (value === undefined) {
+    return 'skip';
+  }
+  if (!WRITE_MODES.includes(value as WriteMode)) {
+    throw new Error(`Invalid mode: ${value}. Expected one of ${WRITE_MODES.join(', ')}`);
+  }
+  return value as WriteMode;
+}
+
+// An entity as the items of one create_entities call leave it; `id` is unset for entities
+// the call creates
+interface EntityDraft {
+  id?: number;
+  entityType: string;
+  properties: Properties;
+  contents: Set<string>;
+  // Observations to insert
+  observations: ObservationInput[];
+  // The type or properties of a stored entity need writing back
+  changed: boolean;
+}
+
+interface RelationDraft {
+  from: string;
+  to: string;
+  fromId: number;
+  toId: number;
+  relationType: string;
+  properties: Properties;
+  stored: boolean;
+  changed: boolean;
+}
+
+// The stored observations with one content, or an observation the call adds
+interface ObservationDraft {
+  ids: number[];
+  observation: ObservationInput;
+  changed: boolean;
+}
+
+function relationKey(relation: { fromId: number; toId: number; relationType: string }): string {
+  return JSON.stringify([relation.fromId, relation.toId, relation.relationType]);
+}
+
+// Keys of `given` whose values differ from `current`
+function changedKeys(current: Properties, given: Properties): string[] {
+  return Object.keys(given).filter(key => JSON.stringify(current[key]) !== JSON.stringify(given[key]));
+}
+
+// Metadata given with a known content replaces the stored fields, and tags are added to the
+// stored ones. Returns whether anything changed.
+function mergeObservationMetadata(draft: ObservationDraft, given: ObservationInput): boolean {
+  const current = draft.observation;
+  let changed = false;
+  for (const key of ['source', 'confidence', 'author'] as const) {
+    if (given[key] !== undefined && given[key] !== current[key]) {
+      Object.assign(current, { [key]: given[key] });
+      changed = true;
+    }
+  }
+  if (given.validUntil !== undefined && (current.validUntil === undefined || Date.parse(given.validUntil) !== Date.parse(current.validUntil))) {
+    current.validUntil = given.validUntil;
+    changed = true;
+  }
+  const tags = [...new Set(given.tags ?? [])].filter(tag => !(current.tags ?? []).includes(tag));
+  if (tags.length > 0) {
+    current.tags = [...(current.tags ?? []), ...tags];
+    changed = true;
+  }
+  draft.changed ||= changed;
+  return changed;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function failsWrite(mode: WriteMode, results: WriteItemResult[]): boolean {
+  return mode === 'fail' && results.some(result => result.status === 'error');
+}
+
+// In fail mode one error leaves the call unwritten, which the other items report
+function notWritten<T extends WriteItemResult>(results: T[], reset: Partial<T>): T[] {
+  return results.map(result => result.status === 'error'
+    ? result
+    : { ...result, ...reset, status: 'skipped', reason: 'Not written, as another item failed and mode is fail' });
+}
+
+// Supersession is exported by content, as observation IDs do not survive an import
+function exportObservations(rows: StoredObservation[]): TimestampedObservation[] {
+  const contentById = new Map<number, string>(rows.map(row => [row.id, row.content]));
+  return rows.map(row => {
+    const observation: TimestampedObservation = observationFromRow(row);
+    if (row.superseded_by !== null && row.superseded_by !== undefined && contentById.has(row.superseded_by)) {
+      observation.supersededBy = contentById.get(row.superseded_by);
+    }
+    return observation;
+  });
+}
+
+// Database-backed Knowledge Graph Manager, scoped to a single namespace
+export class DatabaseKnowledgeGraphManager {
+  private db: DatabaseConnection;
+  readonly namespace: string;
+  readonly audit: AuditContext;
+  private resolver: NameResolver;
+
+  constructor(namespace: string = DEFAULT_NAMESPACE, audit: AuditContext = {}) {
+    this.db = DatabaseConnection.getInstance();
+    this.namespace = validateNamespace(namespace);
+    this.audit = audit;
+    this.resolver = new NameResolver(this.namespace);
+  }
+
+  // A manager on the same namespace whose changes are logged with the given tool, actor or session
+  withAudit(audit: AuditContext): DatabaseKnowledgeGraphManager {
+    return new DatabaseKnowledgeGraphManager(this.namespace, { ...this.audit, ...audit });
+  }
+
+  private async begin(client: PoolClient): Promise<void> {
+    await client.query('BEGIN');
+    await applyAuditContext(client, this.audit);
+  }
+
+  // Matches the entity name, then its aliases, then loosely as MEMORY_NAME_MATCHING allows.
+  // Creates and deletes pass `exactOnly` so a near miss never hits the wrong entity.
+  private async getEntityByName(client: PoolClient, name: string, options: { exactOnly?: boolean } = {}): Promise<ResolvedEntity | null> {
+    return this.resolver.resolve(client, name, options);
+  }
+
+  // Current observations only; superseded ones are history
+  private async getEntityObservations(client: PoolClient, entityId: number): Promise<string[]> {
+    const result = await client.query(
+      'SELECT content FROM observations WHERE entity_id = $1 AND deleted_at IS NULL AND superseded_by IS NULL ORDER BY created_at',
+      [entityId]
+    );
+    return result.rows.map(row => row.content);
+  }
+
+  private async insertObservation(client: PoolClient, entityId: number, observation: ObservationInput): Promise<number> {
+    return (await insertObservations(client, [{ entityId, observation }]))[0];
+  }
+
+  // Names taken by a live entity or alias, or by an earlier item, are handled as `mode` says;
+  // a merge updates the type, adds the properties and adds the observations the entity does
+  // not have yet. Writes take one statement per table, however many items there are.
+  async createEntities(entities: NewEntity[], options: WriteOptions = {}): Promise<EntityWriteResult[]> {
+    const mode = parseWriteMode(options.mode);
+    const client = await this.db.getClient();
+
+    try {
+      await this.begin(client);
+      const schema = await new SchemaRegistry(this.namespace).validator(client);
+      const existing = await this.resolver.resolveMany(client, entities.map(entity => entity.name), { exactOnly: true });
+
+      // Every entity the call writes to, by stored name, as the items leave it
+      const drafts = new Map<string, EntityDraft>();
+      if (mode === 'merge') {
+        const ids = [...new Set([...existing.values()].map(entity => entity.id))];
+        const rows = await client.query(
+          'SELECT id, name, entity_type, properties FROM entities WHERE id = ANY($1) ORDER BY id FOR UPDATE',
+          [ids]
+        );
+        for (const row of rows.rows) {
+          drafts.set(row.name, { id: row.id, entityType: row.entity_type, properties: row.properties, contents: new Set(), observations: [], changed: false });
+        }
+        const contents = await client.query(
+          `SELECT e.name, o.content FROM observations o JOIN entities e ON e.id = o.entity_id
+           WHERE o.entity_id = ANY($1) AND o.deleted_at IS NULL AND o.superseded_by IS NULL
+             AND (o.valid_until IS NULL OR o.valid_until > NOW())`,
+          [ids]
+        );
+        for (const row of contents.rows) {
+          drafts.get(row.name)!.contents.add(row.content);
+        }
+      }
+
+      const results: EntityWriteResult[] = [];
+      for (const entity of entities) {
+        try {
+          const found = existing.get(entity.name);
+          const name = found?.name ?? entity.name;
+          const draft = drafts.get(name);
+
+          if (mode !== 'merge' && (found || draft)) {
+            const reason = found
+              ? `Entity ${found.name} already exists with type ${found.entity_type}${found.name !== entity.name ? ` (${entity.name} is one of its aliases)` : ''}`
+              : `Entity ${name} is created by an earlier item`;
+            results.push({ name, status: mode === 'fail' ? 'error' : 'skipped', reason, entityType: found?.entity_type ?? draft!.entityType });
+            continue;
+          }
+
+          const entityType = schema.canonicalEntityType(entity.entityType, name);
+          const properties = validateProperties(entity.properties, name) ?? {};
+          const observations = entity.observations.map(o => normalizeObservation(o, name));
+
+          if (!draft) {
+            drafts.set(name, { entityType, properties, contents: new Set(observations.map(o => o.content)), observations, changed: false });
+            results.push({ name, status: 'created', entityType });
+            continue;
+          }
+
+          const added = observations.filter(o => !draft.contents.has(o.content));
+          added.forEach(o => draft.contents.add(o.content));
+          draft.observations.push(...added);
+          const changed = entityType !== draft.entityType || changedKeys(draft.properties, properties).length > 0;
+          if (changed) {
+            draft.entityType = entityType;
+            draft.properties = { ...draft.properties, ...properties };
+            draft.changed = true;
+          }
+          results.push(changed || added.length > 0
+            ? { name, status: 'merged', entityType: draft.entityType, addedObservations: added.map(o => o.content) }
+            : { name, status: 'skipped', reason: `Entity ${name} already has everything given`, entityType: draft.entityType });
+        } catch (error) {
+          results.push({ name: entity.name, status: 'error', reason: errorMessage(error) });
+        }
+      }
+
+      if (failsWrite(mode, results)) {
+        await client.query('ROLLBACK');
+        return notWritten(results, { addedObservations: undefined });
+      }
+
+      const updates = [...drafts.values()].filter(draft => draft.id !== undefined && draft.changed);
+      if (updates.length > 0) {
+        await client.query(`
+          UPDATE entities e SET entity_type = x.entity_type, properties = x.properties::jsonb
+          FROM unnest($1::int[], $2::text[], $3::text[]) AS x(id, entity_type, properties)
+          WHERE e.id = x.id
+        `, [updates.map(draft => draft.id), updates.map(draft => draft.entityType), updates.map(draft => JSON.stringify(draft.properties))]);
+      }
+
+      const fresh = [...drafts].filter(([, draft]) => draft.id === undefined);
+      const ids = await insertEntities(client, this.namespace, fresh.map(([name, draft]) => ({ name, ...draft })));
+      const lost = new Set(fresh.map(([name]) => name).filter(name => !ids.has(name)));
+      if (lost.size > 0 && mode === 'fail') {
+        throw new Error(`Entities created concurrently: ${[...lost].join(', ')}`);
+      }
+
+      await insertObservations(client, [...drafts].flatMap(([name, draft]) => {
+        const entityId = draft.id ?? ids.get(name);
+        return entityId === undefined ? [] : draft.observations.map(observation => ({ entityId, observation }));
+      }));
+
+      await client.query('COMMIT');
+      return results.map(result => lost.has(result.name) && result.status !== 'error'
+        ? { name: result.name, status: 'skipped', reason: `Entity ${result.name} was created concurrently` }
+        : result);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Relations that already exist, or repeat an earlier item, are handled as `mode` says; a
+  // merge adds the properties. Endpoints that resolve to no entity fail their relation unless
+  // `createMissingEntities` creates them first.
+  async createRelations(relations: Relation[], options: RelationWriteOptions = {}): Promise<RelationWriteResult[]> {
+    const mode = parseWriteMode(options.mode);
+    const client = await this.db.getClient();
+
+    try {
+      await this.begin(client);
+      const schema = await new SchemaRegistry(this.namespace).validator(client);
+      const resolved = await this.resolver.resolveMany(client, relations.flatMap(relation => [relation.from, relation.to]));
+
+      // Missing endpoints are created up front, and credited to the first relation needing them
+      const createdEntities = new Map<number, string[]>();
+      const missingErrors = new Map<string, string>();
+      if (options.createMissingEntities) {
+        const missing = new Map<string, { entityType: string; index: number }>();
+        relations.forEach((relation, index) => {
+          for (const name of [relation.from, relation.to]) {
+            if (resolved.has(name) || missing.has(name) || missingErrors.has(name)) {
+              continue;
+            }
+            try {
+              missing.set(name, { entityType: schema.canonicalEntityType(options.missingEntityType ?? DEFAULT_MISSING_ENTITY_TYPE, name), index });
+            } catch (error) {
+              missingErrors.set(name, errorMessage(error));
+            }
+          }
+        });
+        const ids = await insertEntities(client, this.namespace, [...missing].map(([name, { entityType }]) => ({ name, entityType })));
+        for (const [name, { entityType, index }] of missing) {
+          const id = ids.get(name);
+          if (id !== undefined) {
+            resolved.set(name, { id, name, entity_type: entityType, matchedBy: 'name' });
+            createdEntities.set(index, [...(createdEntities.get(index) ?? []), name]);
+          }
+        }
+      }
+
+      const candidates: (RelationDraft | { error: string })[] = [];
+      const accepted: RelationDraft[] = [];
+      for (const relation of relations) {
+        try {
+          const fromResolved = resolved.get(relation.from);
+          const toResolved = resolved.get(relation.to);
+          if (!fromResolved || !toResolved) {
+            const name = !fromResolved ? relation.from : relation.to;
+            throw missingErrors.has(name) ? new Error(missingErrors.get(name)) : await this.resolver.notFoundError(client, name);
+          }
+
+          // Relations written with an inverse name are stored the registered way round
+          const { relationType, reversed } = await schema.canonicalRelation(client, relation.relationType, fromResolved, toResolved, accepted);
+          const [fromEntity, toEntity] = reversed ? [toResolved, fromResolved] : [fromResolved, toResolved];
+          const properties = validateProperties(relation.properties, `relation ${relation.from} -> ${relation.to}`) ?? {};
+          const draft = { from: fromEntity.name, to: toEntity.name, fromId: fromEntity.id, toId: toEntity.id, relationType, properties, stored: false, changed: false };
+          accepted.push(draft);
+          candidates.push(draft);
+        } catch (error) {
+          candidates.push({ error: errorMessage(error) });
+        }
+      }
+
+      const existing = await client.query(`
+        SELECT r.from_entity_id, r.to_entity_id, r.relation_type, r.properties
+        FROM relations r
+        JOIN unnest($1::int[], $2::int[], $3::text[]) AS x(from_id, to_id, relation_type)
+          ON r.from_entity_id = x.from_id AND r.to_entity_id = x.to_id AND r.relation_type = x.relation_type
+        WHERE r.deleted_at IS NULL
+        ${mode === 'merge' ? 'FOR UPDATE OF r' : ''}
+      `, [accepted.map(r => r.fromId), accepted.map(r => r.toId), accepted.map(r => r.relationType)]);
+
+      // Every relation the call writes to, as the items leave it
+      const acceptedByKey = new Map(accepted.map(relation => [relationKey(relation), relation]));
+      const drafts = new Map<string, RelationDraft>();
+      for (const row of existing.rows) {
+        const key = JSON.stringify([row.from_entity_id, row.to_entity_id, row.relation_type]);
+        drafts.set(key, { ...acceptedByKey.get(key)!, properties: row.properties, stored: true });
+      }
+
+      const keys: (string | undefined)[] = [];
+      const results = relations.map((relation, index): RelationWriteResult => {
+        const candidate = candidates[index];
+        const created = createdEntities.get(index);
+        const result = (item: RelationWriteResult): RelationWriteResult => created ? { ...item, createdEntities: created } : item;
+        if ('error' in candidate) {
+          keys.push(undefined);
+          return result({ from: relation.from, to: relation.to, relationType: relation.relationType, status: 'error', reason: candidate.error });
+        }
+
+        const key = relationKey(candidate);
+        keys.push(key);
+        const label = { from: candidate.from, to: candidate.to, relationType: candidate.relationType };
+        const draft = drafts.get(key);
+        if (!draft) {
+          drafts.set(key, candidate);
+          return result({ ...label, properties: nonEmptyProperties(candidate.properties), status: 'created' });
+        }
+        if (mode !== 'merge') {
+          const reason = draft.stored ? 'Relation already exists' : 'Relation is created by an earlier item';
+          return result({ ...label, status: mode === 'fail' ? 'error' : 'skipped', reason });
+        }
+        if (changedKeys(draft.properties, candidate.properties).length === 0) {
+          return result({ ...label, status: 'skipped', reason: 'Relation already has these properties' });
+        }
+        draft.properties = { ...draft.properties, ...candidate.properties };
+        draft.changed = true;
+        return result({ ...label, properties: nonEmptyProperties(draft.properties), status: 'merged' });
+      });
+
+      if (failsWrite(mode, results)) {
+        await client.query('ROLLBACK');
+        return notWritten(results, { createdEntities: undefined });
+      }
+
+      const updates = [...drafts.values()].filter(draft => draft.stored && draft.changed);
+      if (updates.length > 0) {
+        await client.query(`
+          UPDATE relations r SET properties = x.properties::jsonb
+          FROM unnest($1::int[], $2::int[], $3::text[], $4::text[]) AS x(from_id, to_id, relation_type, properties)
+          WHERE r.from_entity_id = x.from_id AND r.to_entity_id = x.to_id AND r.relation_type = x.relation_type AND r.deleted_at IS NULL
+        `, [updates.map(r => r.fromId), updates.map(r => r.toId), updates.map(r => r.relationType), updates.map(r => JSON.stringify(r.properties))]);
+      }
+
+      const fresh = [...drafts.values()].filter(draft => !draft.stored);
+      const inserted = await client.query(`
+        INSERT INTO relations (from_entity_id, to_entity_id, relation_type, properties)
+        SELECT x.from_id, x.to_id, x.relation_type, x.properties::jsonb
+        FROM unnest($1::int[], $2::int[], $3::text[], $4::text[]) WITH ORDINALITY AS x(from_id, to_id, relation_type, properties, ord)
+        ORDER BY x.ord
+        ON CONFLICT (from_entity_id, to_entity_id, relation_type) WHERE deleted_at IS NULL DO NOTHING
+        RETURNING from_entity_id, to_entity_id, relation_type
+      `, [fresh.map(r => r.fromId), fresh.map(r => r.toId), fresh.map(r => r.relationType), fresh.map(r => JSON.stringify(r.properties))]);
+      const created = new Set(inserted.rows.map(row => JSON.stringify([row.from_entity_id, row.to_entity_id, row.relation_type])));
+      const lost = new Set(fresh.map(relationKey).filter(key => !created.has(key)));
+      if (lost.size > 0 && mode === 'fail') {
+        throw new Error(`Relations created concurrently: ${fresh.filter(r => lost.has(relationKey(r))).map(r => `${r.from} -[${r.relationType}]-> ${r.to}`).join(', ')}`);
+      }
+
+      await client.query('COMMIT');
+      return results.map((result, index) => {
+        const key = keys[index];
+        return key !== undefined && lost.has(key) && result.status !== 'error'
+          ? { ...result, status: 'skipped', reason: 'Relation was created concurrently' }
+          : result;
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Contents an entity already has, or that an earlier item added, are handled as `mode`
+  // says; a merge adds the metadata given with them to the existing observation. Expired
+  // observations do not count, so re-adding a lapsed fact renews it. Entities that do not
+  // resolve fail their item.
+  async addObservations(
+    observations: { entityName: string; contents: (string | ObservationInput)[] }[],
+    options: WriteOptions = {}
+  ): Promise<ObservationWriteResult[]> {
+    const mode = parseWriteMode(options.mode);
+    const client = await this.db.getClient();
+
+    try {
+      await this.begin(client);
+
+      const resolved = await this.resolver.resolveMany(client, observations.map(obs => obs.entityName));
+      const existing = await client.query(`
+        SELECT id, entity_id, content, source, confidence, author, tags, to_json(valid_until) #>> '{}' AS valid_until
+        FROM observations
+        WHERE entity_id = ANY($1) AND deleted_at IS NULL AND superseded_by IS NULL
+          AND (valid_until IS NULL OR valid_until > NOW())
+        ORDER BY id
+        ${mode === 'merge' ? 'FOR UPDATE' : ''}
+      `, [[...new Set([...resolved.values()].map(entity => entity.id))]]);
+
+      // The current observations of every entity by content, as the items leave them
+      const current = new Map<number, Map<string, ObservationDraft>>();
+      for (const row of existing.rows) {
+        const contents = current.get(row.entity_id) ?? new Map<string, ObservationDraft>();
+        current.set(row.entity_id, contents);
+        const draft = contents.get(row.content) ?? { ids: [], observation: observationFromRow(row), changed: false };
+        draft.ids.push(row.id);
+        contents.set(row.content, draft);
+      }
+
+      const results: ObservationWriteResult[] = [];
+      const added: { entityId: number; observation: ObservationInput }[] = [];
+      for (const obs of observations) {
+        const entity = resolved.get(obs.entityName);
+        try {
+          if (!entity) {
+            throw await this.resolver.notFoundError(client, obs.entityName);
+          }
+          const given = obs.contents.map(content => normalizeObservation(content, entity.name));
+          const contents = current.get(entity.id) ?? new Map<string, ObservationDraft>();
+          current.set(entity.id, contents);
+
+          const fresh = given.filter(o => !contents.has(o.content));
+          const known = given.filter(o => contents.has(o.content));
+          if (mode === 'fail' && known.length > 0) {
+            throw new Error(`Entity ${entity.name} already has ${known.map(o => JSON.stringify(o.content)).join(', ')}`);
+          }
+          const merged = mode === 'merge' ? known.filter(o => mergeObservationMetadata(contents.get(o.content)!, o)) : [];
+          fresh.forEach(observation => contents.set(observation.content, { ids: [], observation, changed: false }));
+          added.push(...fresh.map(observation => ({ entityId: entity.id, observation })));
+
+          const result: ObservationWriteResult = {
+            entityName: entity.name,
+            status: merged.length > 0 ? 'merged' : fresh.length > 0 ? 'created' : 'skipped',
+            addedObservations: fresh.map(o => o.content),
+            observationIds: [],
+          };
+          if (merged.length > 0) {
+            result.mergedObservations = [...new Set(merged.map(o => o.content))];
+          } else if (fresh.length === 0) {
+            result.reason = `Entity ${entity.name} already has every observation given`;
+          }
+          results.push(result);
+        } catch (error) {
+          results.push({ entityName: entity?.name ?? obs.entityName, status: 'error', reason: errorMessage(error), addedObservations: [], observationIds: [] });
+        }
+      }
+
+      if (failsWrite(mode, results)) {
+        await client.query('ROLLBACK');
+        return notWritten(results, { addedObservations: [], mergedObservations: undefined });
+      }
+
+      const updates = [...current.values()].flatMap(contents => [...contents.values()])
+        .filter(draft => draft.changed)
+        .flatMap(draft => draft.ids.map(id => ({ id, observation: draft.observation })));
+      if (updates.length > 0) {
+        await client.query(`
+          UPDATE observations o
+          SET source = x.source, confidence = x.confidence, author = x.author,
+              tags = ARRAY(SELECT jsonb_array_elements_text(x.tags::jsonb)), valid_until = x.valid_until
+          FROM unnest($1::int[], $2::text[], $3::real[], $4::text[], $5::text[], $6::timestamptz[])
+            AS x(id, source, confidence, author, tags, valid_until)
+          WHERE o.id = x.id
+        `, [
+          updates.map(u => u.id),
+          updates.map(u => u.observation.source ?? null),
+          updates.map(u => u.observation.confidence ?? null),
+          updates.map(u => u.observation.author ?? null),
+          updates.map(u => JSON.stringify(u.observation.tags ?? [])),
+          updates.map(u => u.observation.validUntil ?? null),
+        ]);
+      }
+
+      // Added observations were collected in the order of the results
+      const ids = await insertObservations(client, added);
+      let next = 0;
+      for (const result of results) {
+        result.observationIds = ids.slice(next, next += result.addedObservations.length);
+      }
+
+      await client.query('COMMIT');
+      return results;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // A live observation of this namespace that has not been superseded, locked for the update
+  private async requireCurrentObservation(client: PoolClient, id: number): Promise<{ entityId: number; entityName: string; observation: ObservationDetail }> {
+    const result = await client.query(`
+      SELECT o.entity_id, e.name AS entity_name, ${OBSERVATION_JSON} AS observation
+      FROM observations o
+      JOIN entities e ON e.id = o.entity_id
+      WHERE o.id = $1 AND e.namespace = $2 AND o.deleted_at IS NULL AND e.deleted_at IS NULL
+      FOR UPDATE OF o
+    `, [id, this.namespace]);
+    if (result.rows.length === 0) {
+      throw new Error(`Observation ${id} not found`);
+    }
+    const observation = observationDetailFromRow(result.rows[0].observation);
+    if (observation.supersededBy !== undefined) {
+      throw new Error(`Observation ${id} has been superseded by observation ${observation.supersededBy}`);
+    }
+    return { entityId: result.rows[0].entity_id, entityName: result.rows[0].entity_name, observation };
+  }
+
+  // Edits an observation in place; the change log keeps the previous version
+  async updateObservation(id: number, changes: ObservationUpdate): Promise<{ entityName: string; observation: ObservationDetail }> {
+    const client = await this.db.getClient();
+
+    try {
+      await this.begin(client);
+
+      const { entityId, entityName, observation } = await this.requireCurrentObservation(client, id);
+      const update = normalizeObservationUpdate(changes as Record<string, unknown>, entityName);
+      const content = update.content ?? observation.content;
+      if (content !== observation.content && (await this.getEntityObservations(client, entityId)).includes(content)) {
+        throw new Error(`Entity ${entityName} already has the observation "${content}"`);
+      }
+
+      const merged = { ...observation, ...update };
+      const result = await client.query(`
+        UPDATE observations o
+        SET content = $2, source = $3, confidence = $4, author = $5, tags = $6, valid_until = $7
+        WHERE o.id = $1
+        RETURNING ${OBSERVATION_JSON} AS observation
+      `, [
+        id, content, merged.source ?? null, merged.confidence ?? null,
+        merged.author ?? null, merged.tags ?? [], merged.validUntil ?? null,
+      ]);
+
+      // The content embedding no longer matches; the next search or backfill recomputes it
+      if (content !== observation.content && await hasEmbeddingColumns(client)) {
+        await client.query('UPDATE observations SET embedding = NULL, embedding_model = NULL WHERE id = $1', [id]);
+      }
+
+      await client.query('COMMIT');
+      return { entityName, observation: observationDetailFromRow(result.rows[0].observation) };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Replaces a fact while keeping the old one as history: the old observation stays in the
+  // database, linked to its replacement, and is only shown with `includeSuperseded`. A
+  // replacement the entity already has as a current observation is linked to, not repeated.
+  async supersedeObservation(id: number, replacement: string | ObservationInput): Promise<{
+    entityName: string;
+    superseded: ObservationDetail;
+    observation: ObservationDetail;
+  }> {
+    const client = await this.db.getClient();
+
+    try {
+      await this.begin(client);
+
+      const { entityId, entityName } = await this.requireCurrentObservation(client, id);
+      const input = normalizeObservation(replacement, entityName);
+
+      const existing = await client.query(
+        'SELECT id FROM observations WHERE entity_id = $1 AND content = $2 AND id <> $3 AND deleted_at IS NULL AND superseded_by IS NULL LIMIT 1',
+        [entityId, input.content, id]
+      );
+      const replacementId = existing.rows.length > 0
+        ? existing.rows[0].id
+        : await this.insertObservation(client, entityId, input);
+
+      const superseded = await client.query(
+        `UPDATE observations o SET superseded_by = $2 WHERE o.id = $1 RETURNING ${OBSERVATION_JSON} AS observation`,
+        [id, replacementId]
+      );
+      const current = await client.query(
+        `SELECT ${OBSERVATION_JSON} AS observation FROM observations o WHERE o.id = $1`,
+        [replacementId]
+      );
+
+      await client.query('COMMIT');
+      return {
+        entityName,
+        superseded: observationDetailFromRow(superseded.rows[0].observation),
+        observation: observationDetailFromRow(current.rows[0].observation),
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async renameEntity(oldName: string, newName: string): Promise<{ oldName: string; newName: string }> {
+    const client = await this.db.getClient();
+
+    try {
+      await this.begin(client);
+
+      const entity = await this.resolver.require(client, oldName, { exactOnly: true });
+      const existing = await this.getEntityByName(client, newName, { exactOnly: true });
+      if (existing && existing.id !== entity.id) {
+        throw new Error(existing.matchedBy === 'alias'
+          ? `${newName} is already an alias of ${existing.name}`
+          : `Entity with name ${newName} already exists`);
+      }
+
+      // Renaming an entity to one of its aliases makes the alias redundant
+      await client.query('DELETE FROM entity_aliases WHERE entity_id = $1 AND alias = $2', [entity.id, newName]);
+      await releaseTrashedAliases(client, this.namespace, [newName]);
+      await client.query('UPDATE entities SET name = $1 WHERE id = $2', [newName, entity.id]);
+      // The name embedding no longer matches; the next search or backfill recomputes it
+      if (await hasEmbeddingColumns(client)) {
+        await client.query('UPDATE entities SET embedding = NULL, embedding_model = NULL WHERE id = $1', [entity.id]);
+      }
+
+      await client.query('COMMIT');
+      return { oldName: entity.name, newName };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Folds the source entities into the target in one transaction. Observations the target
+  // lacks move over; relations are repointed unless that would duplicate an existing
+  // relation or turn a relation between merged entities into a self-loop. Whatever is left
+  // goes to the trash with its source entity, so nothing a merge drops is lost. The source
+  // names and aliases become aliases of the target.
+  async mergeEntities(targetName: string, sourceNames: string[]): Promise<MergeReport> {
+    const client = await this.db.getClient();
+
+    try {
+      await this.begin(client);
+
+      const target = await this.resolver.require(client, targetName, { exactOnly: true });
+      const sources = new Map<number, string>();
+      for (const name of sourceNames) {
+        const source = await this.resolver.require(client, name, { exactOnly: true });
+        if (source.id === target.id) {
+          throw new Error(`Cannot merge entity ${target.name} into itself`);
+        }
+        sources.set(source.id, source.name);
+      }
+      const sourceIds = [...sources.keys()];
+      targetName = target.name;
+
+      const report: MergeReport = {
+        target: targetName,
+        sources: [...sources.values()],
+        observations: { moved: 0, duplicates: 0 },
+        relations: { repointed: [], duplicates: [], selfLoops: [] },
+        aliases: [],
+        properties: [],
+      };
+
+      // Keys the target lacks are taken from the sources, the first source listed winning
+      const properties = await client.query('SELECT id, properties FROM entities WHERE id = ANY($1)', [[target.id, ...sourceIds]]);
+      const propertiesById = new Map<number, Properties>(properties.rows.map(row => [row.id, row.properties]));
+      const inherited: Properties = Object.assign({}, ...sourceIds.map(id => propertiesById.get(id)).reverse());
+      report.properties = Object.keys(inherited).filter(key => !(key in propertiesById.get(target.id)!));
+      if (report.properties.length > 0) {
+        await client.query('UPDATE entities SET properties = $1::jsonb || properties WHERE id = $2', [JSON.stringify(inherited), target.id]);
+      }
+
+      // Only current observations can be duplicates. Superseded and expired ones are history
+      // and always move, so they cannot take the place of a current observation.
+      const observations = await client.query(`
+        SELECT id, content, superseded_by IS NULL AND (valid_until IS NULL OR valid_until > NOW()) AS current
+        FROM observations
+        WHERE entity_id = ANY($1) AND deleted_at IS NULL
+        ORDER BY created_at, id
+      `, [sourceIds]);
+      const targetObservations = await client.query(`
+        SELECT content FROM observations
+        WHERE entity_id = $1 AND deleted_at IS NULL AND superseded_by IS NULL AND (valid_until IS NULL OR valid_until > NOW())
+      `, [target.id]);
+      const seen = new Set<string>(targetObservations.rows.map(row => row.content));
+      const movedObservationIds: number[] = [];
+      const duplicateIds: number[] = [];
+      for (const row of observations.rows) {
+        if (!row.current) {
+          movedObservationIds.push(row.id);
+        } else if (!seen.has(row.content)) {
+          seen.add(row.content);
+          movedObservationIds.push(row.id);
+        } else {
+          duplicateIds.push(row.id);
+        }
+      }
+      await client.query('UPDATE observations SET entity_id = $1 WHERE id = ANY($2)', [target.id, movedObservationIds]);
+      // History that was replaced by a duplicate now leads to the target's copy of it
+      await client.query(`
+        UPDATE observations o SET superseded_by = (
+          SELECT t.id FROM observations d
+          JOIN observations t ON t.content = d.content
+          WHERE d.id = o.superseded_by AND t.entity_id = $1 AND t.deleted_at IS NULL AND t.superseded_by IS NULL
+          ORDER BY t.id
+          LIMIT 1
+        )
+        WHERE o.entity_id = $1 AND o.superseded_by = ANY($2)
+      `, [target.id, duplicateIds]);
+      report.observations.moved = movedObservationIds.length;
+      report.observations.duplicates = duplicateIds.length;
+
+      const candidates = await client.query(`
+        SELECT r.id, r.from_entity_id, r.to_entity_id, r.relation_type,
+               ef.name as from_name, et.name as to_name,
+               CASE WHEN r.from_entity_id = ANY($2) THEN $1 ELSE r.from_entity_id END AS new_from_id,
+               CASE WHEN r.to_entity_id = ANY($2) THEN $1 ELSE r.to_entity_id END AS new_to_id,
+               CASE WHEN r.from_entity_id = ANY($2) THEN $3 ELSE ef.name END AS new_from_name,
+               CASE WHEN r.to_entity_id = ANY($2) THEN $3 ELSE et.name END AS new_to_name
+        FROM relations r
+        JOIN entities ef ON r.from_entity_id = ef.id
+        JOIN entities et ON r.to_entity_id = et.id
+        WHERE r.deleted_at IS NULL AND (r.from_entity_id = ANY($2) OR r.to_entity_id = ANY($2))
+        ORDER BY r.created_at, r.id
+      `, [target.id, sourceIds, targetName]);
+      const existing = await client.query(`
+        SELECT from_entity_id, to_entity_id, relation_type FROM relations
+        WHERE deleted_at IS NULL AND (from_entity_id = $1 OR to_entity_id = $1)
+      `, [target.id]);
+
+      const key = (from: number, to: number, type: string) => JSON.stringify([from, to, type]);
+      const taken = new Set(existing.rows.map(row => key(row.from_entity_id, row.to_entity_id, row.relation_type)));
+      const repointed: { id: number; from: number; to: number }[] = [];
+      for (const row of candidates.rows) {
+        const before = { from: row.from_name, to: row.to_name, relationType: row.relation_type };
+        const newKey = key(row.new_from_id, row.new_to_id, row.relation_type);
+        if (row.new_from_id === row.new_to_id && row.from_entity_id !== row.to_entity_id) {
+          report.relations.selfLoops.push(before);
+        } else if (taken.has(newKey)) {
+          report.relations.duplicates.push(before);
+        } else {
+          taken.add(newKey);
+          repointed.push({ id: row.id, from: row.new_from_id, to: row.new_to_id });
+          report.relations.repointed.push({ from: row.new_from_name, to: row.new_to_name, relationType: row.relation_type });
+        }
+      }
+      await client.query(`
+        UPDATE relations r SET from_entity_id = v.from_id, to_entity_id = v.to_id
+        FROM unnest($1::int[], $2::int[], $3::int[]) AS v(id, from_id, to_id)
+        WHERE r.id = v.id
+      `, [repointed.map(r => r.id), repointed.map(r => r.from), repointed.map(r => r.to)]);
+
+      // What did not move stays with the sources and goes to the trash with them
+      await client.query(
+        'UPDATE observations SET deleted_at = NOW(), deleted_with_entity_id = entity_id WHERE entity_id = ANY($1) AND deleted_at IS NULL',
+        [sourceIds]
+      );
+      await client.query(`
+        UPDATE relations
+        SET deleted_at = NOW(),
+            deleted_with_entity_id = CASE WHEN from_entity_id = ANY($1) THEN from_entity_id ELSE to_entity_id END
+        WHERE (from_entity_id = ANY($1) OR to_entity_id = ANY($1)) AND deleted_at IS NULL
+      `, [sourceIds]);
+      await client.query('UPDATE entities SET deleted_at = NOW() WHERE id = ANY($1)', [sourceIds]);
+
+      const movedAliases = await client.query(
+        'UPDATE entity_aliases SET entity_id = $1 WHERE entity_id = ANY($2) RETURNING alias',
+        [target.id, sourceIds]
+      );
+      await releaseTrashedAliases(client, this.namespace, report.sources);
+      const addedAliases = await client.query(`
+        INSERT INTO entity_aliases (namespace, entity_id, alias)
+        SELECT $1, $2, unnest($3::text[])
+        ON CONFLICT (namespace, alias) DO NOTHING
+        RETURNING alias
+      `, [this.namespace, target.id, report.sources]);
+      report.aliases = [...addedAliases.rows, ...movedAliases.rows].map(row => row.alias);
+
+      await client.query('COMMIT');
+      return report;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // An alias belongs to one entity and may not shadow another entity's name
+  async addAliases(additions: { entityName: string; aliases: string[] }[]): Promise<{ entityName: string; addedAliases: string[] }[]> {
+    const client = await this.db.getClient();
+    const results: { entityName: string; addedAliases: string[] }[] = [];
+
+    try {
+      await this.begin(client);
+
+      for (const addition of additions) {
+        const entity = await this.resolver.require(client, addition.entityName);
+        const added: string[] = [];
+
+        for (const alias of new Set(addition.aliases)) {
+          const owner = await this.getEntityByName(client, alias, { exactOnly: true });
+          if (owner && owner.id !== entity.id) {
+            throw new Error(owner.matchedBy === 'alias'
+              ? `${alias} is already an alias of ${owner.name}`
+              : `${alias} is the name of another entity`);
+          }
+          if (owner) {
+            continue;
+          }
+
+          await releaseTrashedAliases(client, this.namespace, [alias]);
+          await client.query(
+            'INSERT INTO entity_aliases (namespace, entity_id, alias) VALUES ($1, $2, $3)',
+            [this.namespace, entity.id, alias]
+          );
+          added.push(alias);
+        }
+
+        results.push({ entityName: entity.name, addedAliases: added });
+      }
+
+      await client.query('COMMIT');
+      return results;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Shallow merge: the given keys replace existing values, other keys are kept
+  async setProperties(updates: {
+    entities?: { name: string; properties: Properties }[];
+    relations?: (Relation & { properties: Properties })[];
+  }): Promise<{ entities: { name: string; properties: Properties }[]; relations: (Relation & { properties: Properties })[] }> {
+    return this.updateProperties(updates.entities ?? [], updates.relations ?? [], (item, owner) =>
+      ['properties || $1::jsonb', JSON.stringify(validateProperties(item.properties, owner) ?? {})]);
+  }
+
+  async unsetProperties(updates: {
+    entities?: { name: string; keys: string[] }[];
+    relations?: (Relation & { keys: string[] })[];
+  }): Promise<{ entities: { name: string; properties: Properties }[]; relations: (Relation & { properties: Properties })[] }> {
+    return this.updateProperties(updates.entities ?? [], updates.relations ?? [], item =>
+      ['properties - $1::text[]', item.keys]);
+  }
+
+  // `change` returns the new value of the properties column in terms of the old one and $1
+  private async updateProperties<E extends { name: string }, R extends Relation>(
+    entities: E[],
+    relations: R[],
+    change: (item: E | R, owner: string) => [string, unknown]
+  ): Promise<{ entities: { name: string; properties: Properties }[]; relations: (Relation & { properties: Properties })[] }> {
+    const client = await this.db.getClient();
+    const result: { entities: { name: string; properties: Properties }[]; relations: (Relation & { properties: Properties })[] } = { entities: [], relations: [] };
+
+    try {
+      await this.begin(client);
+
+      for (const item of entities) {
+        const entity = await this.resolver.require(client, item.name);
+        const [expression, value] = change(item, entity.name);
+        const updated = await client.query(
+          `UPDATE entities SET properties = ${expression} WHERE id = $2 RETURNING properties`,
+          [value, entity.id]
+        );
+        result.entities.push({ name: entity.name, properties: updated.rows[0].properties });
+      }
+
+      for (const item of relations) {
+        const label = `${item.from} -[${item.relationType}]-> ${item.to}`;
+        const fromEntity = await this.resolver.require(client, item.from);
+        const toEntity = await this.resolver.require(client, item.to);
+        const [expression, value] = change(item, `relation ${label}`);
+        const updated = await client.query(`
+          UPDATE relations SET properties = ${expression}
+          WHERE from_entity_id = $2 AND to_entity_id = $3 AND relation_type = $4 AND deleted_at IS NULL
+          RETURNING properties
+        `, [value, fromEntity.id, toEntity.id, item.relationType]);
+        if (updated.rows.length === 0) {
+          throw new Error(`Relation ${label} not found`);
+        }
+        result.relations.push({ from: fromEntity.name, to: toEntity.name, relationType: item.relationType, properties: updated.rows[0].properties });
+      }
+
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async removeAliases(removals: { entityName: string; aliases: string[] }[]): Promise<{ entityName: string; removedAliases: string[] }[]> {
+    const client = await this.db.getClient();
+    const results: { entityName: string; removedAliases: string[] }[] = [];
+
+    try {
+      await this.begin(client);
+
+      for (const removal of removals) {
+        const entity = await this.resolver.require(client, removal.entityName, { exactOnly: true });
+        const removed = await client.query(
+          'DELETE FROM entity_aliases WHERE entity_id = $1 AND alias = ANY($2) RETURNING alias',
+          [entity.id, removal.aliases]
+        );
+        results.push({ entityName: entity.name, removedAliases: removed.rows.map(row => row.alias) });
+      }
+
+      await client.query('COMMIT');
+      return results;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Deletes move rows to the trash. An entity takes its observations and relations with it,
+  // marked so that restoring the entity brings them back too. Names that resolve to no
+  // entity are skipped.
+  async deleteEntities(entityNames: string[]): Promise<EntityWriteResult[]> {
+    const client = await this.db.getClient();
+
+    try {
+      await this.begin(client);
+
+      const resolved = await this.resolver.resolveMany(client, entityNames, { exactOnly: true });
+      const deleted = new Set<number>();
+      const results = entityNames.map((name): EntityWriteResult => {
+        const entity = resolved.get(name);
+        if (!entity) {
+          return { name, status: 'skipped', reason: `Entity with name ${name} not found` };
+        }
+        if (deleted.has(entity.id)) {
+          return { name: entity.name, status: 'skipped', reason: `Entity ${entity.name} is deleted by an earlier item` };
+        }
+        deleted.add(entity.id);
+        return { name: entity.name, status: 'deleted', entityType: entity.entity_type };
+      });
+
+      const ids = [...deleted];
+      await client.query('UPDATE entities SET deleted_at = NOW() WHERE id = ANY($1)', [ids]);
+
+      await client.query(
+        'UPDATE observations SET deleted_at = NOW(), deleted_with_entity_id = entity_id WHERE entity_id = ANY($1) AND deleted_at IS NULL',
+        [ids]
+      );
+      await client.query(`
+        UPDATE relations
+        SET deleted_at = NOW(),
+            deleted_with_entity_id = CASE WHEN from_entity_id = ANY($1) THEN from_entity_id ELSE to_entity_id END
+        WHERE (from_entity_id = ANY($1) OR to_entity_id = ANY($1)) AND deleted_at IS NULL
+      `, [ids]);
+
+      await client.query('COMMIT');
+      return results;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteObservations(deletions: { entityName: string; observations: string[] }[]): Promise<ObservationDeletionResult[]> {
+    const client = await this.db.getClient();
+
+    try {
+      await this.begin(client);
+
+      const resolved = await this.resolver.resolveMany(client, deletions.map(deletion => deletion.entityName), { exactOnly: true });
+      const pairs = deletions.flatMap(deletion => {
+        const entity = resolved.get(deletion.entityName);
+        return entity ? deletion.observations.map(content => ({ entityId: entity.id, content })) : [];
+      });
+      const deleted = await client.query(`
+        UPDATE observations o SET deleted_at = NOW()
+        FROM unnest($1::int[], $2::text[]) AS x(entity_id, content)
+        WHERE o.entity_id = x.entity_id AND o.content = x.content AND o.deleted_at IS NULL
+        RETURNING o.entity_id, o.content
+      `, [pairs.map(pair => pair.entityId), pairs.map(pair => pair.content)]);
+
+      // Each deleted observation is credited to the first item naming it
+      const gone = new Set(deleted.rows.map(row => JSON.stringify([row.entity_id, row.content])));
+      const results = deletions.map((deletion): ObservationDeletionResult => {
+        const entity = resolved.get(deletion.entityName);
+        if (!entity) {
+          return { entityName: deletion.entityName, status: 'skipped', reason: `Entity with name ${deletion.entityName} not found`, deletedObservations: [] };
+        }
+        const deletedObservations = deletion.observations.filter(content => gone.delete(JSON.stringify([entity.id, content])));
+        return deletedObservations.length > 0
+          ? { entityName: entity.name, status: 'deleted', deletedObservations }
+          : { entityName: entity.name, status: 'skipped', reason: `Entity ${entity.name} has none of these observations`, deletedObservations };
+      });
+
+      await client.query('COMMIT');
+      return results;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteRelations(relations: Relation[]): Promise<RelationWriteResult[]> {
+    const client = await this.db.getClient();
+
+    try {
+      await this.begin(client);
+
+      const resolved = await this.resolver.resolveMany(client, relations.flatMap(relation => [relation.from, relation.to]), { exactOnly: true });
+      const matched = relations.flatMap(relation => {
+        const fromEntity = resolved.get(relation.from);
+        const toEntity = resolved.get(relation.to);
+        return fromEntity && toEntity ? [{ fromId: fromEntity.id, toId: toEntity.id, relationType: relation.relationType }] : [];
+      });
+      const deleted = await client.query(`
+        UPDATE relations r SET deleted_at = NOW()
+        FROM unnest($1::int[], $2::int[], $3::text[]) AS x(from_id, to_id, relation_type)
+        WHERE r.from_entity_id = x.from_id AND r.to_entity_id = x.to_id AND r.relation_type = x.relation_type AND r.deleted_at IS NULL
+        RETURNING r.from_entity_id, r.to_entity_id, r.relation_type
+      `, [matched.map(r => r.fromId), matched.map(r => r.toId), matched.map(r => r.relationType)]);
+
+      const gone = new Set(deleted.rows.map(row => JSON.stringify([row.from_entity_id, row.to_entity_id, row.relation_type])));
+      const results = relations.map((relation): RelationWriteResult => {
+        const fromEntity = resolved.get(relation.from);
+        const toEntity = resolved.get(relation.to);
+        const { from, to, relationType } = relation;
+        if (!fromEntity || !toEntity) {
+          return { from, to, relationType, status: 'skipped', reason: `Entity with name ${!fromEntity ? from : to} not found` };
+        }
+        const label = { from: fromEntity.name, to: toEntity.name, relationType };
+        return gone.delete(JSON.stringify([fromEntity.id, toEntity.id, relationType]))
+          ? { ...label, status: 'deleted' }
+          : { ...label, status: 'skipped', reason: 'Relation not found' };
+      });
+
+      await client.query('COMMIT');
+      return results;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async listTrash(options: { limit?: number } = {}): Promise<TrashListing> {
+    return new Trash(this.namespace).list(options);
+  }
+
+  async restoreEntities(request: RestoreRequest): Promise<RestoreReport> {
+    return new Trash(this.namespace, this.audit).restore(request);
+  }
+
+  async purgeTrash(options: { olderThanDays?: number } = {}): Promise<PurgeReport> {
+    return new Trash(this.namespace, this.audit).purge(options);
+  }
+
+  // Reads one page of the graph, or a summary of it, depending on the mode. With `asOf`, the
+  // graph is rebuilt from the change log as it was at that time.
+  async readGraph(options: ReadGraphOptions = {}): Promise<ReadGraphResult> {
+    return new GraphReader(this.namespace).read(options);
+  }
+
+  // Ranks matches by full-text relevance: name matches weigh more than observation matches,
+  // and substring (ILIKE) matches add a small bonus so partial words are still found.
+  // Entities that are read often get a small boost that decays while they go unread.
+  async searchNodes(query: string, options: SearchOptions = {}): Promise<SearchResult> {
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+    const offset = Math.max(options.offset ?? 0, 0);
+    const pattern = `%${query}%`;
+    if (options.minConfidence !== undefined && !(options.minConfidence >= 0 && options.minConfidence <= 1)) {
+      throw new Error(`Invalid minConfidence: ${options.minConfidence}. Expected a number between 0 and 1`);
+    }
+    const observationFilter = [
+      Boolean(options.includeExpired), options.minConfidence ?? null,
+      options.sources ?? null, options.authors ?? null, options.tags ?? null, Boolean(options.includeSuperseded),
+    ];
+    const client = await this.db.getClient();
+
+    try {
+      const entitiesResult = await client.query(`
+        WITH params AS (
+          SELECT plainto_tsquery('english', $2) AS tsq
+        ),
+        visible_observations AS (
+          SELECT o.entity_id, o.content
+          FROM observations o
+          JOIN entities e ON e.id = o.entity_id
+          WHERE e.namespace = $3 AND e.deleted_at IS NULL AND o.deleted_at IS NULL
+            AND ($9 OR o.valid_until IS NULL OR o.valid_until > NOW())
+            AND ($10::real IS NULL OR o.confidence IS NULL OR o.confidence >= $10)
+            AND ($11::text[] IS NULL OR o.source = ANY($11))
+            AND ($12::text[] IS NULL OR o.author = ANY($12))
+            AND ($13::text[] IS NULL OR o.tags && $13)
+            AND ($14 OR o.superseded_by IS NULL)
+        ),
+        matched_observations AS (
+          SELECT o.entity_id,
+                 MAX(ts_rank(to_tsvector('english', o.content), p.tsq)
+                     + CASE WHEN o.content ILIKE $1 THEN 0.1 ELSE 0 END) AS rank
+          FROM visible_observations o
+          CROSS JOIN params p
+          WHERE o.content ILIKE $1 OR to_tsvector('english', o.content) @@ p.tsq
+          GROUP BY o.entity_id
+        ),
+        candidates AS (
+          SELECT e.id, e.name, e.entity_type, e.properties, i.importance,
+                 CASE WHEN to_tsvector('english', e.name) @@ p.tsq
+                      THEN 2 * ts_rank(to_tsvector('english', e.name), p.tsq) ELSE 0 END
+                 + CASE WHEN e.name ILIKE $1 THEN 0.5 ELSE 0 END
+                 + CASE WHEN e.entity_type ILIKE $1 THEN 0.2 ELSE 0 END
+                 + CASE WHEN am.matched THEN 0.4 ELSE 0 END
+                 + COALESCE(mo.rank, 0)
+                 + $15 * LN(1 + i.importance) AS score
+          FROM entities e
+          CROSS JOIN params p
+          LEFT JOIN matched_observations mo ON mo.entity_id = e.id
+          LEFT JOIN entity_access ea ON ea.entity_id = e.id
+          CROSS JOIN LATERAL (
+            SELECT memory_decayed_importance(ea.importance, ea.last_accessed_at, $16) AS importance
+          ) i
+          CROSS JOIN LATERAL (
+            SELECT COALESCE(bool_or(a.alias ILIKE $1), false) AS matched FROM entity_aliases a WHERE a.entity_id = e.id
+          ) am
+          WHERE e.namespace = $3 AND e.deleted_at IS NULL
+            AND ($4::text[] IS NULL OR e.entity_type = ANY($4))
+            AND ($8::jsonb IS NULL OR e.properties @> $8)
+            AND (($10::real IS NULL AND $11::text[] IS NULL AND $12::text[] IS NULL AND $13::text[] IS NULL)
+              OR EXISTS (SELECT 1 FROM visible_observations v WHERE v.entity_id = e.id))
+            AND ($5::text[] IS NULL OR EXISTS (
+              SELECT 1 FROM relations r
+              WHERE (r.from_entity_id = e.id OR r.to_entity_id = e.id) AND r.relation_type = ANY($5) AND r.deleted_at IS NULL
+            ))
+            AND (e.name ILIKE $1
+              OR am.matched
+              OR e.entity_type ILIKE $1
+              OR to_tsvector('english', e.name) @@ p.tsq
+              OR mo.entity_id IS NOT NULL)
+        )
+        SELECT id, name, entity_type, properties, score, importance, COUNT(*) OVER () AS total
+        FROM candidates
+        ORDER BY score DESC, name
+        LIMIT $6 OFFSET $7
+      `, [
+        pattern, query, this.namespace, options.entityTypes ?? null, options.relationTypes ?? null, limit, offset,
+        options.properties !== undefined ? JSON.stringify(validateProperties(options.properties, 'the search filter')) : null,
+        ...observationFilter, IMPORTANCE_SEARCH_WEIGHT, getHalfLifeDays(),
+      ]);
+
+      const rows = entitiesResult.rows;
+      const total = rows.length > 0 ? Number(rows[0].total) : 0;
+      const pagination = {
+        offset,
+        limit,
+        total,
+        nextOffset: offset + rows.length < total ? offset + rows.length : null,
+      };
+
+      if (rows.length === 0) {
+        return { entities: [], relations: [], pagination };
+      }
+
+      const observationsResult = await client.query(`
+        WITH params AS (
+          SELECT plainto_tsquery('english', $3) AS tsq
+        )
+        SELECT o.entity_id, ${OBSERVATION_JSON} AS observation, m.matched,
+               CASE WHEN m.matched
+                    THEN ts_headline('english', o.content, p.tsq, 'StartSel=**, StopSel=**, MaxWords=30, MinWords=10, MaxFragments=2')
+               END AS highlight,
+               ts_rank(to_tsvector('english', o.content), p.tsq) AS rank
+        FROM observations o
+        CROSS JOIN params p
+        CROSS JOIN LATERAL (
+          SELECT (o.content ILIKE $2 OR to_tsvector('english', o.content) @@ p.tsq) AS matched
+        ) m
+        WHERE o.entity_id = ANY($1) AND o.deleted_at IS NULL
+          AND ($4 OR o.valid_until IS NULL OR o.valid_until > NOW())
+          AND ($5::real IS NULL OR o.confidence IS NULL OR o.confidence >= $5)
+          AND ($6::text[] IS NULL OR o.source = ANY($6))
+          AND ($7::text[] IS NULL OR o.author = ANY($7))
+          AND ($8::text[] IS NULL OR o.tags && $8)
+          AND ($9 OR o.superseded_by IS NULL)
+        ORDER BY o.created_at, o.id
+      `, [rows.map(row => row.id), pattern, query, ...observationFilter]);
+
+      const observationsById = new Map<number, { observation: ObservationDetail; matched: boolean; highlight: string | null; rank: number }[]>();
+      for (const row of observationsResult.rows) {
+        const list = observationsById.get(row.entity_id) ?? [];
+        list.push({ observation: observationDetailFromRow(row.observation), matched: row.matched, highlight: row.highlight, rank: Number(row.rank) });
+        observationsById.set(row.entity_id, list);
+      }
+
+      const returnedIds: number[] = [];
+      const entities: SearchResultEntity[] = rows.map(row => {
+        const observations = observationsById.get(row.id) ?? [];
+        const matched = observations.filter(o => o.matched);
+        const returned = (options.matchedObservationsOnly ? matched : observations).map(o => o.observation);
+        returnedIds.push(...returned.map(o => o.id));
+        return {
+          name: row.name,
+          entityType: row.entity_type,
+          observations: returned.map(o => o.content),
+          observationDetails: options.includeMetadata || options.includeSuperseded ? returned : undefined,
+          properties: nonEmptyProperties(row.properties),
+          score: Number(row.score),
+          importance: Number(row.importance),
+          highlights: [...matched]
+            .sort((a, b) => b.rank - a.rank)
+            .slice(0, MAX_HIGHLIGHTS)
+            .map(o => o.highlight as string),
+        };
+      });
+
+      await recordAccess(client, rows.map(row => row.id), returnedIds);
+
+      const entityNames = entities.map(e => e.name);
+      const relationsResult = await client.query(`
+        SELECT ef.name as from_name, et.name as to_name, r.relation_type, r.properties
+        FROM relations r
+        JOIN entities ef ON r.from_entity_id = ef.id
+        JOIN entities et ON r.to_entity_id = et.id
+        WHERE ef.namespace = $2 AND et.namespace = $2 AND r.deleted_at IS NULL
+          AND ef.name = ANY($1) AND et.name = ANY($1)
+          AND ($3::text[] IS NULL OR r.relation_type = ANY($3))
+        ORDER BY ef.name, et.name
+      `, [entityNames, this.namespace, options.relationTypes ?? null]);
+
+      const relations: Relation[] = relationsResult.rows.map(row => ({
+        from: row.from_name,
+        to: row.to_name,
+        relationType: row.relation_type,
+        properties: nonEmptyProperties(row.properties),
+      }));
+
+      return { entities, relations, pagination };
+    } finally {
+      client.release();
+    }
+  }
+
+  async semanticSearch(query: string, options: SemanticSearchOptions = {}): Promise<SemanticSearchResult[]> {
+    const provider = getEmbeddingProvider();
+    if (!provider) {
+      throw new Error('Semantic search is disabled (MEMORY_EMBEDDING_PROVIDER=none)');
+    }
+    return new SemanticIndex(provider, this.namespace).search(query, options);
+  }
+
+  async getEntityHistory(name: string, options: EntityHistoryOptions = {}): Promise<ChangeLogEntry[]> {
+    return new GraphHistory(this.namespace).getEntityHistory(name, options);
+  }
+
+  async getNeighbors(name: string, options: TraversalOptions = {}): Promise<NeighborsResult> {
+    return new GraphTraversal(this.namespace).getNeighbors(name, options);
+  }
+
+  async getSubgraph(names: string[], options: TraversalOptions = {}): Promise<SubgraphResult> {
+    return new GraphTraversal(this.namespace).getSubgraph(names, options);
+  }
+
+  async findPath(from: string, to: string, options: PathOptions = {}): Promise<PathResult> {
+    return new GraphTraversal(this.namespace).findPath(from, to, options);
+  }
+
+  async getGraphStats(options: GraphStatsOptions = {}): Promise<GraphStats> {
+    return new GraphAnalyzer(this.namespace).stats(options);
+  }
+
+  async analyzeGraph(options: AnalyticsOptions = {}): Promise<GraphAnalytics> {
+    return new GraphAnalyzer(this.namespace).analyze(options);
+  }
+
+  async findDuplicates(options: DuplicateOptions = {}): Promise<DuplicateReport> {
+    return new DuplicateFinder(this.namespace).find(options);
+  }
+
+  async consolidateEntity(name: string, options: ConsolidationOptions = {}): Promise<ConsolidationReport> {
+    return new Consolidator(this.namespace, this.audit).consolidateEntity(name, options);
+  }
+
+  async listRetentionPolicies(): Promise<RetentionPolicy[]> {
+    return new Retention(this.namespace).list();
+  }
+
+  async setRetentionPolicies(policies: RetentionPolicy[]): Promise<RetentionPolicy[]> {
+    return new Retention(this.namespace).set(policies);
+  }
+
+  async removeRetentionPolicies(entityTypes: string[]): Promise<string[]> {
+    return new Retention(this.namespace).remove(entityTypes);
+  }
+
+  async applyRetention(options: { dryRun?: boolean } = {}): Promise<RetentionReport> {
+    return new Retention(this.namespace, this.audit).apply(options);
+  }
+
+  async listSchema(): Promise<GraphSchema> {
+    return new SchemaRegistry(this.namespace).list();
+  }
+
+  async defineSchema(definitions: { entityTypes?: EntityTypeDefinition[]; relationTypes?: RelationTypeDefinition[] }): Promise<GraphSchema> {
+    return new SchemaRegistry(this.namespace).define(definitions);
+  }
+
+  async removeSchemaTypes(names: { entityTypes?: string[]; relationTypes?: string[] }): Promise<{ entityTypes: string[]; relationTypes: string[] }> {
+    return new SchemaRegistry(this.namespace).remove(names);
+  }
+
+  async normalizeTypes(options: { dryRun?: boolean } = {}): Promise<NormalizationReport> {
+    return new SchemaRegistry(this.namespace, this.audit).normalize(options);
+  }
+
+  async openNodes(names: string[], options: { asOf?: string } & ObservationReadOptions = {}): Promise<KnowledgeGraph> {
+    if (names.length === 0) {
+      return { entities: [], relations: [] };
+    }
+    if (options.asOf !== undefined) {
+      return new GraphHistory(this.namespace).readGraphAsOf(options.asOf, names, options);
+    }
+
+    const client = await this.db.getClient();
+
+    try {
+      names = [...new Set([...(await this.resolver.resolveMany(client, names)).values()].map(entity => entity.name))];
+
+      const entitiesResult = await client.query(`
+        SELECT e.id, e.name, e.entity_type, e.properties,
+               COALESCE(json_agg(${OBSERVATION_JSON} ORDER BY o.created_at, o.id) FILTER (WHERE o.id IS NOT NULL), '[]'::json) as observations
+        FROM entities e
+        LEFT JOIN observations o ON e.id = o.entity_id AND o.deleted_at IS NULL
+          AND ($3 OR o.valid_until IS NULL OR o.valid_until > NOW())
+          AND ($4 OR o.superseded_by IS NULL)
+        WHERE e.namespace = $2 AND e.name = ANY($1) AND e.deleted_at IS NULL
+        GROUP BY e.id, e.name, e.entity_type
+        ORDER BY e.name
+      `, [names, this.namespace, Boolean(options.includeExpired), Boolean(options.includeSuperseded)]);
+
+      const entities: Entity[] = entitiesResult.rows.map(row => entityFromRow(row, options));
+      await recordAccess(
+        client,
+        entitiesResult.rows.map(row => row.id),
+        entitiesResult.rows.flatMap(row => (row.observations as { id: number }[]).map(o => o.id))
+      );
+
+      const relationsResult = await client.query(`
+        SELECT ef.name as from_name, et.name as to_name, r.relation_type, r.properties
+        FROM relations r
+        JOIN entities ef ON r.from_entity_id = ef.id
+        JOIN entities et ON r.to_entity_id = et.id
+        WHERE ef.namespace = $2 AND et.namespace = $2 AND r.deleted_at IS NULL
+          AND ef.name = ANY($1) AND et.name = ANY($1)
+        ORDER BY ef.name, et.name
+      `, [names, this.namespace]);
+
+      const relations: Relation[] = relationsResult.rows.map(row => ({
+        from: row.from_name,
+        to: row.to_name,
+        relationType: row.relation_type,
+        properties: nonEmptyProperties(row.properties),
+      }));
+
+      return { entities, relations };
+    } finally {
+      client.release();
+    }
+  }
+
+  // Timestamps are rendered by PostgreSQL so they round-trip through import unchanged.
+  // With `names`, only those entities and the relations between them are exported.
+  async exportGraph(names?: string[]): Promise<GraphSnapshot> {
+    const client = await this.db.getClient();
+
+    try {
+      if (names !== undefined) {
+        names = [...new Set([...(await this.resolver.resolveMany(client, names)).values()].map(entity => entity.name))];
+      }
+
+      const entitiesResult = await client.query(`
+        SELECT e.name, e.entity_type, e.properties,
+               to_json(e.created_at) #>> '{}' as created_at,
+               to_json(e.updated_at) #>> '{}' as updated_at,
+               COALESCE(json_agg(${OBSERVATION_JSON} ORDER BY o.created_at, o.id) FILTER (WHERE o.id IS NOT NULL), '[]'::json) as observations
+        FROM entities e
+        LEFT JOIN observations o ON e.id = o.entity_id AND o.deleted_at IS NULL
+        WHERE e.namespace = $1 AND e.deleted_at IS NULL AND ($2::text[] IS NULL OR e.name = ANY($2))
+        GROUP BY e.id, e.name, e.entity_type
+        ORDER BY e.name
+      `, [this.namespace, names ?? null]);
+
+      const relationsResult = await client.query(`
+        SELECT ef.name as from_name, et.name as to_name, r.relation_type, r.properties,
+               to_json(r.created_at) #>> '{}' as created_at
+        FROM relations r
+        JOIN entities ef ON r.from_entity_id = ef.id
+        JOIN entities et ON r.to_entity_id = et.id
+        WHERE ef.namespace = $1 AND et.namespace = $1 AND r.deleted_at IS NULL
+          AND ($2::text[] IS NULL OR (ef.name = ANY($2) AND et.name = ANY($2)))
+        ORDER BY ef.name, et.name, r.relation_type
+      `, [this.namespace, names ?? null]);
+
+      return {
+        entities: entitiesResult.rows.map(row => ({
+          name: row.name,
+          entityType: row.entity_type,
+          observations: exportObservations(row.observations),
+          createdAt: row.created_at ?? undefined,
+          updatedAt: row.updated_at ?? undefined,
+          properties: nonEmptyProperties(row.properties),
+        })),
+        relations: relationsResult.rows.map(row => ({
+          from: row.from_name,
+          to: row.to_name,
+          relationType: row.relation_type,
+          createdAt: row.created_at ?? undefined,
+          properties: nonEmptyProperties(row.properties),
+        })),
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  async importGraph(graph: GraphSnapshot, options: { dryRun?: boolean } = {}): Promise<ImportReport> {
+    const client = await this.db.getClient();
+
+    try {
+      await this.begin(client);
+      const importer = new GraphImporter(client, this.namespace);
+
+      await importer.importEntities(graph.entities);
+      await importer.importRelations(graph.relations);
+
+      await client.query(options.dryRun ? 'ROLLBACK' : 'COMMIT');
+      return importer.report;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Every namespace with live entities, or only those of `only`
+  async listNamespaces(only?: string[]): Promise<{ namespace: string; entityCount: number; relationCount: number }[]> {
+    const result = await this.db.query(`
+      SELECT e.namespace,
+             COUNT(DISTINCT e.id)::int as entity_count,
+             COUNT(r.id)::int as relation_count
+      FROM entities e
+      LEFT JOIN relations r ON r.from_entity_id = e.id AND r.deleted_at IS NULL
+      WHERE e.deleted_at IS NULL AND ($1::text[] IS NULL OR e.namespace = ANY($1))
+      GROUP BY e.namespace
+      ORDER BY e.namespace
+    `, [only ?? null]);
+
+    return result.rows.map(row => ({
+      namespace: row.namespace,
+      entityCount: row.entity_count,
+      relationCount: row.relation_count,
+    }));
+  }
+
+  // Copies entities, their observations and the relations among them into another namespace.
+  // Entities that already exist there are left alone, as with importGraph.
+  async copyEntities(names: string[], targetNamespace: string): Promise<ImportReport> {
+    const target = new DatabaseKnowledgeGraphManager(targetNamespace, this.audit);
+    if (target.namespace === this.namespace) {
+      throw new Error('Source and target namespace must differ');
+    }
+
+    const snapshot = await this.exportGraph(names);
+    return target.importGraph(snapshot);
+  }
+}
@@ -0,0 +1,82 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { DatabaseKnowledgeGraphManager } from './knowledge-graph-manager.js';
+import { tools, callTool, missingArguments, requiredScope } from './tools.js';
+import { AuthError, Principal, hasScope } from './auth.js';
+import { GraphResources, ResourceSubscriptions, resourceTemplates } from './resources.js';
+
+// Initialize a server whose tools operate on the manager's namespace. Every transport
+// goes through this, so stdio and HTTP clients see the same tools and behaviour.
+// With a principal (HTTP), tools are filtered and checked against its scopes; resources
+// only read, which every scope allows.
+export function createMcpServer(knowledgeGraphManager: DatabaseKnowledgeGraphManager, principal?: Principal): Server {
+  const server = new Server({
+    name: "memory-server",
+    version: "0.6.3",
+  }, {
+    capabilities: {
+      tools: {},
+      resources: { subscribe: true },
+    },
+  });
+
+  // Tool definitions
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: principal ? tools.filter(tool => hasScope(principal, requiredScope(tool.name))) : tools,
+    };
+  });
+
+  // Request handlers
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    // Clients may leave out the arguments of tools whose parameters are all optional
+    const { name, arguments: args = {} } = request.params;
+    if (principal && !hasScope(principal, requiredScope(name))) {
+      throw new AuthError(403, `Tool ${name} requires the ${requiredScope(name)} scope`);
+    }
+    const missing = missingArguments(name, args);
+    if (missing.length > 0) {
+      throw new Error(`Missing arguments for tool ${name}: ${missing.join(', ')}`);
+    }
+
+    // Changes are logged with the tool that made them and, over HTTP, the key and session
+    const manager = knowledgeGraphManager.withAudit({ tool: name, actor: principal?.name, session: extra.sessionId });
+    return callTool(manager, name, args, principal);
+  });
+
+  const resources = new GraphResources(knowledgeGraphManager);
+  const subscriptions = new ResourceSubscriptions(knowledgeGraphManager.namespace, uri => server.sendResourceUpdated({ uri }));
+  server.onclose = () => subscriptions.close();
+
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    return resources.list(request.params?.cursor);
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return resources.read(request.params.uri);
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  return server;
+}
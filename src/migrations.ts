@@ -0,0 +1,256 @@
+import { Pool, PoolClient } from 'pg';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Arbitrary but fixed key so every server instance contends for the same lock
+const MIGRATION_LOCK_ID = 727_001_001;
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+
+export interface Migration {
+  version: string;
+  name: string;
+  filename: string;
+  checksum: string;
+  upSql: string;
+  downSql: string | null;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: 'applied' | 'pending' | 'modified' | 'missing';
+  appliedAt: Date | null;
+}
+
+interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export class MigrationRunner {
+  private pool: Pool;
+  private migrationsDir: string;
+
+  constructor(pool: Pool, migrationsDir?: string) {
+    this.pool = pool;
+    this.migrationsDir = migrationsDir
+      || process.env.MIGRATIONS_DIR
+      || path.resolve(__dirname, '..', 'migrations');
+  }
+
+  // Migrations are `NNN_name.sql`, with an optional `NNN_name.down.sql` used by `down`
+  async loadMigrations(): Promise<Migration[]> {
+    const files = await fs.readdir(this.migrationsDir);
+    const migrations: Migration[] = [];
+
+    for (const filename of files) {
+      const match = MIGRATION_FILE_PATTERN.exec(filename);
+      if (!match) {
+        continue;
+      }
+
+      const upSql = await fs.readFile(path.join(this.migrationsDir, filename), 'utf8');
+      const downFile = path.join(this.migrationsDir, filename.replace(/\.sql$/, '.down.sql'));
+      let downSql: string | null = null;
+      try {
+        downSql = await fs.readFile(downFile, 'utf8');
+      } catch {
+        downSql = null;
+      }
+
+      migrations.push({
+        version: match[1],
+        name: match[2],
+        filename,
+        checksum: createHash('sha256').update(upSql).digest('hex'),
+        upSql,
+        downSql,
+      });
+    }
+
+    migrations.sort((a, b) => parseInt(a.version, 10) - parseInt(b.version, 10));
+
+    for (let i = 1; i < migrations.length; i++) {
+      if (parseInt(migrations[i].version, 10) === parseInt(migrations[i - 1].version, 10)) {
+        throw new Error(`Duplicate migration version ${migrations[i].version}: ${migrations[i - 1].filename} and ${migrations[i].filename}`);
+      }
+    }
+
+    return migrations;
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    return this.withLock(async (client) => {
+      const migrations = await this.loadMigrations();
+      const applied = await this.getAppliedMigrations(client);
+      return this.buildStatus(migrations, applied);
+    });
+  }
+
+  // The migrations `up` would apply. Takes no lock and creates nothing, for callers that
+  // must not write to the database.
+  async pending(): Promise<Migration[]> {
+    const migrations = await this.loadMigrations();
+    const tracked = await this.pool.query("SELECT to_regclass('schema_migrations') IS NOT NULL AS exists");
+    const applied = tracked.rows[0].exists ? await this.getAppliedMigrations(this.pool) : [];
+    this.verifyChecksums(migrations, applied);
+
+    const appliedVersions = new Set(applied.map(m => m.version));
+    return migrations.filter(m => !appliedVersions.has(m.version));
+  }
+
+  // Applies every pending migration in order, optionally stopping after `targetVersion`
+  async up(targetVersion?: string): Promise<Migration[]> {
+    return this.withLock(async (client) => {
+      const migrations = await this.loadMigrations();
+      const applied = await this.getAppliedMigrations(client);
+      this.verifyChecksums(migrations, applied);
+
+      const appliedVersions = new Set(applied.map(m => m.version));
+      const pending = migrations.filter(m =>
+        !appliedVersions.has(m.version) &&
+        (targetVersion === undefined || parseInt(m.version, 10) <= parseInt(targetVersion, 10))
+      );
+
+      if (pending.length === 0) {
+        console.error('Database schema is up to date');
+        return [];
+      }
+
+      for (const migration of pending) {
+        console.error(`Applying migration ${migration.filename}...`);
+        await this.inTransaction(client, async () => {
+          await client.query(migration.upSql);
+          await client.query(
+            'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+            [migration.version, migration.name, migration.checksum]
+          );
+        });
+      }
+
+      console.error(`Applied ${pending.length} migration(s)`);
+      return pending;
+    });
+  }
+
+  // Reverts the most recently applied migrations using their `.down.sql` files
+  async down(steps: number = 1): Promise<Migration[]> {
+    // slice(-0) and slice(NaN) would select every applied migration
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error(`Invalid steps: ${steps}. Expected an integer of at least 1`);
+    }
+    return this.withLock(async (client) => {
+      const migrations = await this.loadMigrations();
+      const applied = await this.getAppliedMigrations(client);
+      this.verifyChecksums(migrations, applied);
+
+      const byVersion = new Map(migrations.map(m => [m.version, m]));
+      const toRevert = applied.slice(-steps).reverse();
+      const reverted: Migration[] = [];
+
+      for (const appliedMigration of toRevert) {
+        const migration = byVersion.get(appliedMigration.version);
+        if (!migration) {
+          throw new Error(`Cannot revert migration ${appliedMigration.version}_${appliedMigration.name}: file is missing`);
+        }
+        if (!migration.downSql) {
+          throw new Error(`Cannot revert migration ${migration.filename}: no down migration found`);
+        }
+
+        console.error(`Reverting migration ${migration.filename}...`);
+        await this.inTransaction(client, async () => {
+          await client.query(migration.downSql as string);
+          await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+        });
+        reverted.push(migration);
+      }
+
+      return reverted;
+    });
+  }
+
+  private async withLock<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+      try {
+        await this.ensureMigrationsTable(client);
+        return await fn(client);
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  private async inTransaction(client: PoolClient, fn: () => Promise<void>): Promise<void> {
+    try {
+      await client.query('BEGIN');
+      await fn();
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private async ensureMigrationsTable(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+          version TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          checksum TEXT NOT NULL,
+          applied_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+  }
+
+  private async getAppliedMigrations(client: Pool | PoolClient): Promise<AppliedMigration[]> {
+    const result = await client.query(
+      'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version::int'
+    );
+    return result.rows;
+  }
+
+  private verifyChecksums(migrations: Migration[], applied: AppliedMigration[]): void {
+    const modified = this.buildStatus(migrations, applied).filter(s => s.state === 'modified');
+    if (modified.length > 0) {
+      const names = modified.map(s => `${s.version}_${s.name}`).join(', ');
+      throw new Error(`Applied migrations have been modified since they were run: ${names}`);
+    }
+  }
+
+  private buildStatus(migrations: Migration[], applied: AppliedMigration[]): MigrationStatus[] {
+    const appliedByVersion = new Map(applied.map(m => [m.version, m]));
+    const fileVersions = new Set(migrations.map(m => m.version));
+
+    const statuses: MigrationStatus[] = migrations.map(migration => {
+      const record = appliedByVersion.get(migration.version);
+      if (!record) {
+        return { version: migration.version, name: migration.name, state: 'pending', appliedAt: null };
+      }
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: record.checksum === migration.checksum ? 'applied' : 'modified',
+        appliedAt: record.applied_at,
+      };
+    });
+
+    for (const record of applied) {
+      if (!fileVersions.has(record.version)) {
+        statuses.push({ version: record.version, name: record.name, state: 'missing', appliedAt: record.applied_at });
+      }
+    }
+
+    return statuses.sort((a, b) => parseInt(a.version, 10) - parseInt(b.version, 10));
+  }
+}
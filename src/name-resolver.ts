@@ -0,0 +1,197 @@
+import { PoolClient } from 'pg';
+import { DatabaseConnection } from './database.js';
+
+// How names that are neither an entity name nor an alias are resolved
+export type NameMatching = 'exact' | 'case-insensitive' | 'fuzzy';
+
+export const NAME_MATCHING_MODES: NameMatching[] = ['exact', 'case-insensitive', 'fuzzy'];
+
+export interface ResolvedEntity {
+  id: number;
+  name: string;
+  entity_type: string;
+  matchedBy: 'name' | 'alias' | 'case-insensitive' | 'fuzzy';
+}
+
+export interface NameResolverOptions {
+  matching: NameMatching;
+  // Minimum pg_trgm similarity for a fuzzy match
+  fuzzyThreshold: number;
+}
+
+type Queryable = DatabaseConnection | PoolClient;
+
+const MAX_SUGGESTIONS = 3;
+const MIN_SUGGESTION_SIMILARITY = 0.2;
+
+// MEMORY_NAME_MATCHING selects `exact` (default), `case-insensitive` or `fuzzy`;
+// aliases are always honoured
+export function nameResolverOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): NameResolverOptions {
+  const matching = (env.MEMORY_NAME_MATCHING || 'exact') as NameMatching;
+  if (!NAME_MATCHING_MODES.includes(matching)) {
+    throw new Error(`Unknown name matching mode: ${matching}. Expected one of ${NAME_MATCHING_MODES.join(', ')}`);
+  }
+  const fuzzyThreshold = parseFloat(env.MEMORY_FUZZY_MATCH_THRESHOLD || '0.5');
+  if (!(fuzzyThreshold > 0 && fuzzyThreshold <= 1)) {
+    throw new Error(`Invalid MEMORY_FUZZY_MATCH_THRESHOLD: ${env.MEMORY_FUZZY_MATCH_THRESHOLD}. Expected a number in (0, 1]`);
+  }
+  return { matching, fuzzyThreshold };
+}
+
+let defaultOptions: NameResolverOptions | undefined;
+
+function getDefaultOptions(): NameResolverOptions {
+  if (defaultOptions === undefined) {
+    defaultOptions = nameResolverOptionsFromEnv();
+  }
+  return defaultOptions;
+}
+
+let trigramAvailable: Promise<boolean> | undefined;
+
+// pg_trgm is optional; migration 006 only installs it when it is available
+export function hasTrigramSupport(db: Queryable): Promise<boolean> {
+  if (trigramAvailable === undefined) {
+    trigramAvailable = db.query("SELECT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_trgm')")
+      .then(result => result.rows[0].exists as boolean)
+      .catch(error => {
+        trigramAvailable = undefined;
+        throw error;
+      });
+  }
+  return trigramAvailable;
+}
+
+// Resolves names to live entities of one namespace: the entity name first, then an alias,
+// then, depending on the matching mode, a case-insensitive or trigram match. Looser
+// matches only count when exactly one entity qualifies.
+export class NameResolver {
+  private namespace: string;
+  private options: NameResolverOptions;
+
+  constructor(namespace: string, options: NameResolverOptions = getDefaultOptions()) {
+    this.namespace = namespace;
+    this.options = options;
+  }
+
+  async resolve(db: Queryable, name: string, options: { exactOnly?: boolean } = {}): Promise<ResolvedEntity | null> {
+    return (await this.resolveMany(db, [name], options)).get(name) ?? null;
+  }
+
+  // With `exactOnly`, only entity names and aliases match, whatever the matching mode
+  async resolveMany(db: Queryable, names: string[], options: { exactOnly?: boolean } = {}): Promise<Map<string, ResolvedEntity>> {
+    const resolved = new Map<string, ResolvedEntity>();
+    const unique = [...new Set(names)];
+    if (unique.length === 0) {
+      return resolved;
+    }
+
+    const exact = await db.query(`
+      SELECT n.name AS requested, m.id, m.name, m.entity_type, m.matched_by
+      FROM unnest($2::text[]) AS n(name)
+      JOIN LATERAL (
+        SELECT * FROM (
+          SELECT e.id, e.name, e.entity_type, 'name' AS matched_by, 0 AS rank
+          FROM entities e
+          WHERE e.namespace = $1 AND e.name = n.name AND e.deleted_at IS NULL
+          UNION ALL
+          SELECT e.id, e.name, e.entity_type, 'alias', 1
+          FROM entity_aliases a
+          JOIN entities e ON e.id = a.entity_id
+          WHERE a.namespace = $1 AND a.alias = n.name AND e.deleted_at IS NULL
+        ) candidates
+        ORDER BY rank
+        LIMIT 1
+      ) m ON true
+    `, [this.namespace, unique]);
+    for (const row of exact.rows) {
+      resolved.set(row.requested, { id: row.id, name: row.name, entity_type: row.entity_type, matchedBy: row.matched_by });
+    }
+
+    if (options.exactOnly || this.options.matching === 'exact') {
+      return resolved;
+    }
+
+    for (const name of unique.filter(n => !resolved.has(n))) {
+      const match = await this.resolveLoosely(db, name);
+      if (match) {
+        resolved.set(name, match);
+      }
+    }
+    return resolved;
+  }
+
+  private async resolveLoosely(db: Queryable, name: string): Promise<ResolvedEntity | null> {
+    const caseInsensitive = await db.query(`
+      SELECT DISTINCT e.id, e.name, e.entity_type
+      FROM entities e
+      LEFT JOIN entity_aliases a ON a.entity_id = e.id
+      WHERE e.namespace = $1 AND e.deleted_at IS NULL
+        AND (lower(e.name) = lower($2) OR lower(a.alias) = lower($2))
+      LIMIT 2
+    `, [this.namespace, name]);
+    if (caseInsensitive.rows.length === 1) {
+      return { ...caseInsensitive.rows[0], matchedBy: 'case-insensitive' };
+    }
+    if (caseInsensitive.rows.length > 1 || this.options.matching !== 'fuzzy' || !(await hasTrigramSupport(db))) {
+      return null;
+    }
+
+    const fuzzy = await this.closest(db, name, 2, this.options.fuzzyThreshold);
+    // A tie between two entities is too ambiguous to pick one
+    if (fuzzy.length === 0 || (fuzzy.length > 1 && fuzzy[1].score === fuzzy[0].score)) {
+      return null;
+    }
+    const { score, ...entity } = fuzzy[0];
+    return { ...entity, matchedBy: 'fuzzy' };
+  }
+
+  private async closest(db: Queryable, name: string, limit: number, minScore: number): Promise<(Omit<ResolvedEntity, 'matchedBy'> & { score: number })[]> {
+    const result = await db.query(`
+      SELECT e.id, e.name, e.entity_type,
+             GREATEST(similarity(e.name, $2), COALESCE(MAX(similarity(a.alias, $2)), 0)) AS score
+      FROM entities e
+      LEFT JOIN entity_aliases a ON a.entity_id = e.id
+      WHERE e.namespace = $1 AND e.deleted_at IS NULL
+      GROUP BY e.id, e.name, e.entity_type
+      HAVING GREATEST(similarity(e.name, $2), COALESCE(MAX(similarity(a.alias, $2)), 0)) >= $3
+      ORDER BY score DESC, e.name
+      LIMIT $4
+    `, [this.namespace, name, minScore, limit]);
+    return result.rows.map(row => ({ id: row.id, name: row.name, entity_type: row.entity_type, score: Number(row.score) }));
+  }
+
+  // The existing entities whose names or aliases look most like `name`
+  async suggest(db: Queryable, name: string): Promise<string[]> {
+    if (await hasTrigramSupport(db)) {
+      return (await this.closest(db, name, MAX_SUGGESTIONS, MIN_SUGGESTION_SIMILARITY)).map(e => e.name);
+    }
+
+    const result = await db.query(`
+      SELECT DISTINCT e.name, length(e.name)
+      FROM entities e
+      LEFT JOIN entity_aliases a ON a.entity_id = e.id
+      WHERE e.namespace = $1 AND e.deleted_at IS NULL
+        AND (e.name ILIKE '%' || $2::text || '%' OR $2 ILIKE '%' || e.name || '%'
+          OR a.alias ILIKE '%' || $2 || '%' OR $2 ILIKE '%' || a.alias || '%')
+      ORDER BY length(e.name), e.name
+      LIMIT $3
+    `, [this.namespace, name, MAX_SUGGESTIONS]);
+    return result.rows.map(row => row.name);
+  }
+
+  // "Entity with name X not found", plus the closest existing entities when there are any
+  async notFoundError(db: Queryable, name: string): Promise<Error> {
+    const suggestions = await this.suggest(db, name);
+    const hint = suggestions.length > 0 ? `. Did you mean: ${suggestions.join(', ')}?` : '';
+    return new Error(`Entity with name ${name} not found${hint}`);
+  }
+
+  async require(db: Queryable, name: string, options: { exactOnly?: boolean } = {}): Promise<ResolvedEntity> {
+    const entity = await this.resolve(db, name, options);
+    if (!entity) {
+      throw await this.notFoundError(db, name);
+    }
+    return entity;
+  }
+}
@@ -0,0 +1,143 @@
+import { ObservationDetail, ObservationInput, ObservationMetadata, ObservationUpdate } from './types.js';
+
+// One observation as a JSON object with the column names of the observations table, so
+// rows read from the database and rows replayed from the change log map the same way
+export const OBSERVATION_JSON = `json_build_object(
+  'id', o.id, 'content', o.content, 'created_at', o.created_at, 'source', o.source, 'confidence', o.confidence,
+  'author', o.author, 'tags', o.tags, 'valid_until', o.valid_until, 'superseded_by', o.superseded_by
+)`;
+
+// An OBSERVATION_JSON object or a logged observations row. Queries selecting only some
+// columns leave the others out.
+export interface StoredObservation {
+  id: number;
+  content: string;
+  created_at?: string | null;
+  source?: string | null;
+  confidence?: number | null;
+  author?: string | null;
+  tags?: string[] | null;
+  valid_until?: string | null;
+  superseded_by?: number | null;
+}
+
+const METADATA_KEYS: (keyof ObservationMetadata)[] = ['source', 'confidence', 'author', 'tags', 'validUntil'];
+
+function validateMetadataField(key: keyof ObservationMetadata, value: unknown, owner: string): unknown {
+  switch (key) {
+    case 'source':
+    case 'author':
+      if (typeof value !== 'string') {
+        throw new Error(`Observation ${key} of ${owner} must be a string`);
+      }
+      return value;
+    case 'confidence':
+      if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+        throw new Error(`Observation confidence of ${owner} must be a number between 0 and 1`);
+      }
+      return value;
+    case 'tags':
+      if (!Array.isArray(value) || !value.every(tag => typeof tag === 'string')) {
+        throw new Error(`Observation tags of ${owner} must be an array of strings`);
+      }
+      return value;
+    case 'validUntil':
+      if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+        throw new Error(`Invalid validUntil timestamp of ${owner}: ${value}. Use ISO 8601, e.g. 2024-05-01T12:00:00Z`);
+      }
+      return value;
+  }
+}
+
+// Accepts a plain string or an object with `content` and optional metadata
+export function normalizeObservation(value: unknown, owner: string): ObservationInput {
+  if (typeof value === 'string') {
+    return { content: value };
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Observations of ${owner} must be strings or objects with a "content" string`);
+  }
+
+  const item = value as Record<string, unknown>;
+  if (typeof item.content !== 'string') {
+    throw new Error(`Observations of ${owner} must be strings or objects with a "content" string`);
+  }
+
+  const observation: Record<string, unknown> = { content: item.content };
+  for (const key of METADATA_KEYS) {
+    if (item[key] !== undefined && item[key] !== null) {
+      observation[key] = validateMetadataField(key, item[key], owner);
+    }
+  }
+  if ((observation.tags as string[] | undefined)?.length === 0) {
+    delete observation.tags;
+  }
+  return observation as unknown as ObservationInput;
+}
+
+// Like normalizeObservation, but every field is optional and null clears a metadata field
+export function normalizeObservationUpdate(value: Record<string, unknown>, owner: string): ObservationUpdate {
+  const update: ObservationUpdate = {};
+  if (value.content !== undefined) {
+    if (typeof value.content !== 'string') {
+      throw new Error(`Observation content of ${owner} must be a string`);
+    }
+    update.content = value.content;
+  }
+  for (const key of METADATA_KEYS) {
+    if (value[key] === null) {
+      (update as Record<string, unknown>)[key] = null;
+    } else if (value[key] !== undefined) {
+      (update as Record<string, unknown>)[key] = validateMetadataField(key, value[key], owner);
+    }
+  }
+  return update;
+}
+
+// The metadata fields of an observation that are set, without its content and timestamp
+export function observationMetadata(observation: ObservationMetadata): ObservationMetadata | undefined {
+  const metadata: ObservationMetadata = {};
+  for (const key of METADATA_KEYS) {
+    if (observation[key] !== undefined) {
+      (metadata as Record<string, unknown>)[key] = observation[key];
+    }
+  }
+  return Object.keys(metadata).length > 0 ? metadata : undefined;
+}
+
+// Maps an OBSERVATION_JSON object or a logged observations row; unset metadata is left out
+export function observationFromRow(row: StoredObservation): ObservationInput & { createdAt?: string } {
+  const observation: ObservationInput & { createdAt?: string } = { content: row.content };
+  if (row.created_at) {
+    observation.createdAt = row.created_at;
+  }
+  if (row.source !== null && row.source !== undefined) {
+    observation.source = row.source;
+  }
+  if (row.confidence !== null && row.confidence !== undefined) {
+    observation.confidence = Number(row.confidence);
+  }
+  if (row.author !== null && row.author !== undefined) {
+    observation.author = row.author;
+  }
+  if (Array.isArray(row.tags) && row.tags.length > 0) {
+    observation.tags = row.tags;
+  }
+  if (row.valid_until) {
+    observation.validUntil = row.valid_until;
+  }
+  return observation;
+}
+
+// The same with the observation's ID and, once superseded, the ID of its replacement
+export function observationDetailFromRow(row: StoredObservation): ObservationDetail {
+  const detail: ObservationDetail = { id: row.id, ...observationFromRow(row) };
+  if (row.superseded_by !== null && row.superseded_by !== undefined) {
+    detail.supersededBy = row.superseded_by;
+  }
+  return detail;
+}
+
+export function isExpired(observation: ObservationMetadata, at: number = Date.now()): boolean {
+  return observation.validUntil !== undefined && Date.parse(observation.validUntil) <= at;
+}
@@ -0,0 +1,23 @@
+import { Properties } from './types.js';
+
+// Properties must be a JSON object; arrays and scalars are rejected so filters and
+// merges always work on keys
+export function validateProperties(value: unknown, owner: string): Properties | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!isRecord(value)) {
+    throw new Error(`Properties of ${owner} must be a JSON object`);
+  }
+  return value;
+}
+
+// A JSON object, as opposed to an array, a scalar or null
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Empty property maps are left out of responses and exports
+export function nonEmptyProperties(value: Properties | null | undefined): Properties | undefined {
+  return value && Object.keys(value).length > 0 ? value : undefined;
+}
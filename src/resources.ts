@@ -0,0 +1,264 @@
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { DatabaseConnection } from './database.js';
+import { DatabaseKnowledgeGraphManager } from './knowledge-graph-manager.js';
+import { NameResolver } from './name-resolver.js';
+import { NamesPage } from './graph-reader.js';
+import { nonEmptyProperties } from './properties.js';
+import { ChangeFeed, GraphChange } from './change-feed.js';
+import { Relation } from './types.js';
+
+const ENTITY_PREFIX = 'memory://entity/';
+const TYPE_PREFIX = 'memory://type/';
+export const GRAPH_SUMMARY_URI = 'memory://graph/summary';
+
+const MIME_TYPE = 'application/json';
+
+// MCP's code for a resource that does not exist
+const RESOURCE_NOT_FOUND = -32002;
+
+// Entities per resources/list page
+const LIST_PAGE_SIZE = 100;
+// Entities listed by a type resource, and relations rendered with an entity
+const MAX_TYPE_ENTITIES = 1000;
+const MAX_ENTITY_RELATIONS = 500;
+
+export const resourceTemplates = [
+  {
+    uriTemplate: `${ENTITY_PREFIX}{name}`,
+    name: "entity",
+    description: "An entity with its observations and relations. Aliases resolve to the entity they name",
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: `${TYPE_PREFIX}{entityType}`,
+    name: "entity-type",
+    description: "The names of the entities of one type",
+    mimeType: MIME_TYPE,
+  },
+];
+
+const summaryResource = {
+  uri: GRAPH_SUMMARY_URI,
+  name: "graph-summary",
+  description: "Entity, relation and observation counts, types, degree distribution and connected components",
+  mimeType: MIME_TYPE,
+};
+
+export type ResourceRef =
+  | { kind: 'entity'; name: string }
+  | { kind: 'type'; entityType: string }
+  | { kind: 'summary' };
+
+export function entityUri(name: string): string {
+  return ENTITY_PREFIX + encodeURIComponent(name);
+}
+
+export function parseResourceUri(uri: string): ResourceRef {
+  if (uri === GRAPH_SUMMARY_URI) {
+    return { kind: 'summary' };
+  }
+  try {
+    if (uri.startsWith(ENTITY_PREFIX) && uri.length > ENTITY_PREFIX.length) {
+      return { kind: 'entity', name: decodeURIComponent(uri.slice(ENTITY_PREFIX.length)) };
+    }
+    if (uri.startsWith(TYPE_PREFIX) && uri.length > TYPE_PREFIX.length) {
+      return { kind: 'type', entityType: decodeURIComponent(uri.slice(TYPE_PREFIX.length)) };
+    }
+  } catch {
+    // Malformed percent-encoding falls through to the error below
+  }
+  throw new McpError(RESOURCE_NOT_FOUND, `Unknown resource: ${uri}. Expected ${ENTITY_PREFIX}{name}, ${TYPE_PREFIX}{entityType} or ${GRAPH_SUMMARY_URI}`);
+}
+
+// Serves the graph of the manager's namespace as MCP resources
+export class GraphResources {
+  private db: DatabaseConnection;
+  private manager: DatabaseKnowledgeGraphManager;
+  private resolver: NameResolver;
+
+  constructor(manager: DatabaseKnowledgeGraphManager) {
+    this.db = DatabaseConnection.getInstance();
+    this.manager = manager;
+    this.resolver = new NameResolver(manager.namespace);
+  }
+
+  // The summary, then every entity page by page; types are reached through the template
+  async list(cursor?: string) {
+    const page = await this.manager.readGraph({ mode: 'names', limit: LIST_PAGE_SIZE, cursor }) as NamesPage;
+    return {
+      resources: [
+        ...(cursor ? [] : [summaryResource]),
+        ...page.entities.map(entity => ({
+          uri: entityUri(entity.name),
+          name: entity.name,
+          description: entity.entityType,
+          mimeType: MIME_TYPE,
+        })),
+      ],
+      ...(page.pagination.nextCursor ? { nextCursor: page.pagination.nextCursor } : {}),
+    };
+  }
+
+  async read(uri: string) {
+    const ref = parseResourceUri(uri);
+    let content: unknown;
+    switch (ref.kind) {
+      case 'entity':
+        content = await this.readEntity(ref.name);
+        break;
+      case 'type':
+        content = await this.readType(ref.entityType);
+        break;
+      case 'summary':
+        content = await this.manager.getGraphStats();
+        break;
+    }
+    return { contents: [{ uri, mimeType: MIME_TYPE, text: JSON.stringify(content, null, 2) }] };
+  }
+
+  // Reading an entity counts as an access, as with open_nodes
+  private async readEntity(name: string) {
+    const resolved = await this.resolver.resolve(this.db, name);
+    if (!resolved) {
+      throw new McpError(RESOURCE_NOT_FOUND, (await this.resolver.notFoundError(this.db, name)).message);
+    }
+
+    const [graph, relations] = await Promise.all([
+      this.manager.openNodes([resolved.name]),
+      this.db.query(`
+        SELECT ef.name AS from_name, et.name AS to_name, r.relation_type, r.properties
+        FROM relations r
+        JOIN entities ef ON ef.id = r.from_entity_id
+        JOIN entities et ON et.id = r.to_entity_id
+        WHERE (r.from_entity_id = $1 OR r.to_entity_id = $1) AND r.deleted_at IS NULL
+        ORDER BY r.relation_type, ef.name, et.name
+        LIMIT $2
+      `, [resolved.id, MAX_ENTITY_RELATIONS + 1]),
+    ]);
+    const entity = graph.entities[0];
+    if (!entity) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Entity with name ${name} not found`);
+    }
+
+    return {
+      entity,
+      relations: relations.rows.slice(0, MAX_ENTITY_RELATIONS).map((row): Relation => ({
+        from: row.from_name,
+        to: row.to_name,
+        relationType: row.relation_type,
+        properties: nonEmptyProperties(row.properties),
+      })),
+      truncated: relations.rows.length > MAX_ENTITY_RELATIONS,
+    };
+  }
+
+  private async readType(entityType: string) {
+    const page = await this.manager.readGraph({ mode: 'names', entityTypes: [entityType], limit: MAX_TYPE_ENTITIES }) as NamesPage;
+    return {
+      entityType,
+      total: page.pagination.total,
+      entities: page.entities.map(entity => ({ name: entity.name, uri: entityUri(entity.name) })),
+      truncated: page.pagination.nextCursor !== null,
+    };
+  }
+}
+
+interface Subscription {
+  ref: ResourceRef;
+  // The entity an entity URI resolved to, so a change still matches after a rename or
+  // when the URI names an alias
+  entityId?: number;
+}
+
+function affects(subscription: Subscription, change: GraphChange): boolean {
+  const { ref, entityId } = subscription;
+  switch (ref.kind) {
+    case 'summary':
+      return true;
+    case 'type':
+      return change.truncated || change.entityTypes.includes(ref.entityType);
+    case 'entity':
+      return (entityId !== undefined && change.entityIds.includes(entityId))
+        || change.names.includes(ref.name)
+        || (change.truncated && entityId === undefined);
+  }
+}
+
+// The resources one session subscribed to. Committed changes of the namespace, made by any
+// process, are turned into resources/updated notifications through `notify`.
+export class ResourceSubscriptions {
+  private db: DatabaseConnection;
+  private namespace: string;
+  private resolver: NameResolver;
+  private notify: (uri: string) => Promise<void>;
+  private subscriptions = new Map<string, Subscription>();
+  private feed: Promise<() => void> | null = null;
+
+  constructor(namespace: string, notify: (uri: string) => Promise<void>) {
+    this.db = DatabaseConnection.getInstance();
+    this.namespace = namespace;
+    this.resolver = new NameResolver(namespace);
+    this.notify = notify;
+  }
+
+  // Resources that do not exist yet may be subscribed to; creating them is a change
+  async subscribe(uri: string): Promise<void> {
+    const ref = parseResourceUri(uri);
+    const entityId = ref.kind === 'entity' ? (await this.resolver.resolve(this.db, ref.name))?.id : undefined;
+    this.subscriptions.set(uri, { ref, entityId });
+
+    if (!this.feed) {
+      const feed = ChangeFeed.getInstance().subscribe(changes => this.onChanges(changes));
+      this.feed = feed;
+      feed.catch(() => {
+        if (this.feed === feed) {
+          this.feed = null;
+        }
+      });
+    }
+    try {
+      await this.feed;
+    } catch (error) {
+      this.subscriptions.delete(uri);
+      throw error;
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    if (this.subscriptions.size === 0) {
+      this.close();
+    }
+  }
+
+  close(): void {
+    this.subscriptions.clear();
+    const feed = this.feed;
+    this.feed = null;
+    feed?.then(stop => stop(), () => undefined);
+  }
+
+  private onChanges(changes: GraphChange[]): void {
+    const relevant = changes.filter(change => change.namespace === this.namespace);
+    if (relevant.length === 0) {
+      return;
+    }
+    for (const [uri, subscription] of this.subscriptions) {
+      if (relevant.some(change => affects(subscription, change))) {
+        void this.update(uri, subscription);
+      }
+    }
+  }
+
+  private async update(uri: string, subscription: Subscription): Promise<void> {
+    try {
+      // The name may now belong to another entity, or to none
+      if (subscription.ref.kind === 'entity') {
+        subscription.entityId = (await this.resolver.resolve(this.db, subscription.ref.name))?.id;
+      }
+      await this.notify(uri);
+    } catch (error) {
+      console.error(`Sending the update of ${uri} failed:`, error);
+    }
+  }
+}
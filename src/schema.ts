@@ -0,0 +1,507 @@
+import { PoolClient } from 'pg';
+import { DatabaseConnection } from './database.js';
+import { AuditContext, applyAuditContext } from './history.js';
+
+// What happens when a write does not fit the registered types: `strict` rejects it,
+// `warn` logs it and writes anyway, `off` ignores the schema altogether
+export type SchemaMode = 'off' | 'warn' | 'strict';
+
+export const SCHEMA_MODES: SchemaMode[] = ['off', 'warn', 'strict'];
+
+export type Cardinality = 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+
+export const CARDINALITIES: Cardinality[] = ['one-to-one', 'one-to-many', 'many-to-one', 'many-to-many'];
+
+export interface EntityTypeDefinition {
+  name: string;
+  description?: string;
+  // Other spellings mapped to this type, e.g. "people" for "person"
+  synonyms?: string[];
+}
+
+export interface RelationTypeDefinition {
+  name: string;
+  description?: string;
+  synonyms?: string[];
+  // Allowed entity types at each end; any type when left out
+  sourceTypes?: string[];
+  targetTypes?: string[];
+  // The relation read backwards; relations written with it are stored in this direction
+  inverse?: string;
+  // many-to-one allows one target per source, one-to-many one source per target
+  cardinality?: Cardinality;
+}
+
+export interface TypeUsage {
+  name: string;
+  count: number;
+}
+
+export interface GraphSchema {
+  mode: SchemaMode;
+  entityTypes: (EntityTypeDefinition & { count: number })[];
+  relationTypes: (RelationTypeDefinition & { count: number })[];
+  // Types in use that are neither registered nor a synonym of a registered type; without
+  // a registered schema, this is the vocabulary the graph uses
+  unregistered: {
+    entityTypes: TypeUsage[];
+    relationTypes: TypeUsage[];
+  };
+}
+
+export interface TypeMapping {
+  from: string;
+  to: string;
+  count: number;
+}
+
+export interface NormalizationReport {
+  entityTypes: TypeMapping[];
+  relationTypes: (TypeMapping & { reversed: boolean })[];
+  // Relations that went to the trash because their canonical form already existed
+  duplicateRelations: number;
+  unmapped: {
+    entityTypes: string[];
+    relationTypes: string[];
+  };
+  dryRun: boolean;
+}
+
+type Queryable = DatabaseConnection | PoolClient;
+
+// MEMORY_SCHEMA_MODE selects `warn` (default), `strict` or `off`
+export function schemaModeFromEnv(env: NodeJS.ProcessEnv = process.env): SchemaMode {
+  const mode = (env.MEMORY_SCHEMA_MODE || 'warn') as SchemaMode;
+  if (!SCHEMA_MODES.includes(mode)) {
+    throw new Error(`Unknown schema mode: ${mode}. Expected one of ${SCHEMA_MODES.join(', ')}`);
+  }
+  return mode;
+}
+
+// Case-insensitive lookup of registered names, synonyms and inverse names
+function lookupKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function parseCardinality(value: string | undefined): Cardinality {
+  if (value === undefined) {
+    return 'many-to-many';
+  }
+  if (!CARDINALITIES.includes(value as Cardinality)) {
+    throw new Error(`Invalid cardinality: ${value}. Expected one of ${CARDINALITIES.join(', ')}`);
+  }
+  return value as Cardinality;
+}
+
+// The registered types of one namespace, loaded once per transaction
+export class SchemaValidator {
+  readonly mode: SchemaMode;
+  private entityTypes = new Map<string, EntityTypeDefinition>();
+  private relationTypes = new Map<string, { definition: RelationTypeDefinition; reversed: boolean }>();
+  private registeredEntityTypes: string[];
+  private registeredRelationTypes: string[];
+
+  constructor(mode: SchemaMode, entityTypes: EntityTypeDefinition[], relationTypes: RelationTypeDefinition[]) {
+    this.mode = mode;
+    this.registeredEntityTypes = entityTypes.map(t => t.name);
+    this.registeredRelationTypes = relationTypes.map(t => t.name);
+
+    for (const definition of entityTypes) {
+      for (const name of [definition.name, ...(definition.synonyms ?? [])]) {
+        this.entityTypes.set(lookupKey(name), definition);
+      }
+    }
+    for (const definition of relationTypes) {
+      for (const name of [definition.name, ...(definition.synonyms ?? [])]) {
+        this.relationTypes.set(lookupKey(name), { definition, reversed: false });
+      }
+      if (definition.inverse) {
+        this.relationTypes.set(lookupKey(definition.inverse), { definition, reversed: true });
+      }
+    }
+  }
+
+  private violation(message: string): void {
+    if (this.mode === 'strict') {
+      throw new Error(`Schema violation: ${message}`);
+    }
+    console.warn(`Schema warning: ${message}`);
+  }
+
+  // The registered spelling of an entity type; unknown types are kept as written. Types
+  // are only checked once at least one is registered.
+  canonicalEntityType(type: string, entityName: string): string {
+    if (this.mode === 'off' || this.registeredEntityTypes.length === 0) {
+      return type;
+    }
+    const definition = this.entityTypes.get(lookupKey(type));
+    if (!definition) {
+      this.violation(`${entityName} has unknown entity type "${type}" (registered: ${this.registeredEntityTypes.join(', ')})`);
+      return type;
+    }
+    return definition.name;
+  }
+
+  // The registered form of a relation between entities of the given types. A relation
+  // written with an inverse name comes back reversed, so callers swap its ends.
+  // `pending` holds relations accepted earlier in the same batch but not yet written, so
+  // cardinality also holds within the batch
+  async canonicalRelation(
+    db: Queryable,
+    relationType: string,
+    from: { id: number; entity_type: string },
+    to: { id: number; entity_type: string },
+    pending: { fromId: number; toId: number; relationType: string }[] = []
+  ): Promise<{ relationType: string; reversed: boolean; definition?: RelationTypeDefinition }> {
+    if (this.mode === 'off' || this.registeredRelationTypes.length === 0) {
+      return { relationType, reversed: false };
+    }
+    const match = this.relationTypes.get(lookupKey(relationType));
+    if (!match) {
+      this.violation(`unknown relation type "${relationType}" (registered: ${this.registeredRelationTypes.join(', ')})`);
+      return { relationType, reversed: false };
+    }
+
+    const { definition, reversed } = match;
+    const [source, target] = reversed ? [to, from] : [from, to];
+    if (definition.sourceTypes && !definition.sourceTypes.includes(source.entity_type)) {
+      this.violation(`${definition.name} cannot start at an entity of type ${source.entity_type} (allowed: ${definition.sourceTypes.join(', ')})`);
+    }
+    if (definition.targetTypes && !definition.targetTypes.includes(target.entity_type)) {
+      this.violation(`${definition.name} cannot end at an entity of type ${target.entity_type} (allowed: ${definition.targetTypes.join(', ')})`);
+    }
+
+    const cardinality = definition.cardinality ?? 'many-to-many';
+    if (cardinality === 'one-to-one' || cardinality === 'many-to-one') {
+      const other = await db.query(
+        'SELECT 1 FROM relations WHERE from_entity_id = $1 AND to_entity_id <> $2 AND relation_type = $3 AND deleted_at IS NULL LIMIT 1',
+        [source.id, target.id, definition.name]
+      );
+      if (other.rows.length > 0 || pending.some(r => r.relationType === definition.name && r.fromId === source.id && r.toId !== target.id)) {
+        this.violation(`${definition.name} is ${cardinality}, and the source already has a target`);
+      }
+    }
+    if (cardinality === 'one-to-one' || cardinality === 'one-to-many') {
+      const other = await db.query(
+        'SELECT 1 FROM relations WHERE to_entity_id = $1 AND from_entity_id <> $2 AND relation_type = $3 AND deleted_at IS NULL LIMIT 1',
+        [target.id, source.id, definition.name]
+      );
+      if (other.rows.length > 0 || pending.some(r => r.relationType === definition.name && r.toId === target.id && r.fromId !== source.id)) {
+        this.violation(`${definition.name} is ${cardinality}, and the target already has a source`);
+      }
+    }
+
+    return { relationType: definition.name, reversed, definition };
+  }
+
+  // Lookups that normalize_types applies to existing data; no violations are raised
+  mapEntityType(type: string): string | undefined {
+    return this.entityTypes.get(lookupKey(type))?.name;
+  }
+
+  mapRelationType(type: string): { relationType: string; reversed: boolean } | undefined {
+    const match = this.relationTypes.get(lookupKey(type));
+    return match && { relationType: match.definition.name, reversed: match.reversed };
+  }
+}
+
+let defaultMode: SchemaMode | undefined;
+
+function getDefaultMode(): SchemaMode {
+  if (defaultMode === undefined) {
+    defaultMode = schemaModeFromEnv();
+  }
+  return defaultMode;
+}
+
+export class SchemaRegistry {
+  private db: DatabaseConnection;
+  private namespace: string;
+  private audit: AuditContext;
+  private mode: SchemaMode;
+
+  constructor(namespace: string, audit: AuditContext = {}, mode: SchemaMode = getDefaultMode()) {
+    this.db = DatabaseConnection.getInstance();
+    this.namespace = namespace;
+    this.audit = audit;
+    this.mode = mode;
+  }
+
+  private async loadDefinitions(db: Queryable): Promise<{ entityTypes: EntityTypeDefinition[]; relationTypes: RelationTypeDefinition[] }> {
+    const entityTypes = await db.query(
+      'SELECT name, description, synonyms FROM schema_entity_types WHERE namespace = $1 ORDER BY name',
+      [this.namespace]
+    );
+    const relationTypes = await db.query(`
+      SELECT name, description, synonyms, source_types, target_types, inverse_name, cardinality
+      FROM schema_relation_types WHERE namespace = $1 ORDER BY name
+    `, [this.namespace]);
+
+    return {
+      entityTypes: entityTypes.rows.map(row => ({
+        name: row.name,
+        description: row.description ?? undefined,
+        synonyms: row.synonyms,
+      })),
+      relationTypes: relationTypes.rows.map(row => ({
+        name: row.name,
+        description: row.description ?? undefined,
+        synonyms: row.synonyms,
+        sourceTypes: row.source_types ?? undefined,
+        targetTypes: row.target_types ?? undefined,
+        inverse: row.inverse_name ?? undefined,
+        cardinality: row.cardinality,
+      })),
+    };
+  }
+
+  async validator(db: Queryable): Promise<SchemaValidator> {
+    if (this.mode === 'off') {
+      return new SchemaValidator('off', [], []);
+    }
+    const { entityTypes, relationTypes } = await this.loadDefinitions(db);
+    return new SchemaValidator(this.mode, entityTypes, relationTypes);
+  }
+
+  async list(): Promise<GraphSchema> {
+    const { entityTypes, relationTypes } = await this.loadDefinitions(this.db);
+    const validator = new SchemaValidator(this.mode, entityTypes, relationTypes);
+
+    const entityUsage = await this.db.query(`
+      SELECT entity_type AS name, COUNT(*)::int AS count
+      FROM entities WHERE namespace = $1 AND deleted_at IS NULL
+      GROUP BY entity_type ORDER BY entity_type
+    `, [this.namespace]);
+    const relationUsage = await this.db.query(`
+      SELECT r.relation_type AS name, COUNT(*)::int AS count
+      FROM relations r
+      JOIN entities e ON e.id = r.from_entity_id
+      WHERE e.namespace = $1 AND r.deleted_at IS NULL
+      GROUP BY r.relation_type ORDER BY r.relation_type
+    `, [this.namespace]);
+
+    const countBy = (usage: TypeUsage[], map: (name: string) => string | undefined) => {
+      const counts = new Map<string, number>();
+      const unregistered: TypeUsage[] = [];
+      for (const { name, count } of usage) {
+        const canonical = map(name);
+        if (canonical === undefined) {
+          unregistered.push({ name, count });
+        } else {
+          counts.set(canonical, (counts.get(canonical) ?? 0) + count);
+        }
+      }
+      return { counts, unregistered };
+    };
+    const entities = countBy(entityUsage.rows, name => validator.mapEntityType(name));
+    const relations = countBy(relationUsage.rows, name => validator.mapRelationType(name)?.relationType);
+
+    return {
+      mode: this.mode,
+      entityTypes: entityTypes.map(t => ({ ...t, count: entities.counts.get(t.name) ?? 0 })),
+      relationTypes: relationTypes.map(t => ({ ...t, count: relations.counts.get(t.name) ?? 0 })),
+      unregistered: {
+        entityTypes: entities.unregistered,
+        relationTypes: relations.unregistered,
+      },
+    };
+  }
+
+  // Registers types, replacing existing definitions of the same name
+  async define(definitions: { entityTypes?: EntityTypeDefinition[]; relationTypes?: RelationTypeDefinition[] }): Promise<GraphSchema> {
+    const client = await this.db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const type of definitions.entityTypes ?? []) {
+        await client.query(`
+          INSERT INTO schema_entity_types (namespace, name, description, synonyms)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT (namespace, name) DO UPDATE
+          SET description = EXCLUDED.description, synonyms = EXCLUDED.synonyms
+        `, [this.namespace, type.name, type.description ?? null, type.synonyms ?? []]);
+      }
+      for (const type of definitions.relationTypes ?? []) {
+        await client.query(`
+          INSERT INTO schema_relation_types (namespace, name, description, synonyms, source_types, target_types, inverse_name, cardinality)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          ON CONFLICT (namespace, name) DO UPDATE
+          SET description = EXCLUDED.description, synonyms = EXCLUDED.synonyms,
+              source_types = EXCLUDED.source_types, target_types = EXCLUDED.target_types,
+              inverse_name = EXCLUDED.inverse_name, cardinality = EXCLUDED.cardinality
+        `, [
+          this.namespace, type.name, type.description ?? null, type.synonyms ?? [],
+          type.sourceTypes ?? null, type.targetTypes ?? null, type.inverse ?? null, parseCardinality(type.cardinality),
+        ]);
+      }
+
+      this.checkConsistency(await this.loadDefinitions(client));
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+    return this.list();
+  }
+
+  // Every name, synonym and inverse must point at one type, and relation ends must name
+  // registered entity types once there are any
+  private checkConsistency({ entityTypes, relationTypes }: { entityTypes: EntityTypeDefinition[]; relationTypes: RelationTypeDefinition[] }): void {
+    const claim = (owners: Map<string, string>, name: string, owner: string) => {
+      const previous = owners.get(lookupKey(name));
+      if (previous !== undefined && previous !== owner) {
+        throw new Error(`"${name}" is used by both ${previous} and ${owner}`);
+      }
+      owners.set(lookupKey(name), owner);
+    };
+
+    const entityOwners = new Map<string, string>();
+    for (const type of entityTypes) {
+      for (const name of [type.name, ...(type.synonyms ?? [])]) {
+        claim(entityOwners, name, type.name);
+      }
+    }
+    const relationOwners = new Map<string, string>();
+    for (const type of relationTypes) {
+      for (const name of [type.name, ...(type.synonyms ?? []), ...(type.inverse ? [type.inverse] : [])]) {
+        claim(relationOwners, name, type.name);
+      }
+      if (entityTypes.length > 0) {
+        const unknown = [...(type.sourceTypes ?? []), ...(type.targetTypes ?? [])]
+          .filter(name => !entityTypes.some(t => t.name === name));
+        if (unknown.length > 0) {
+          throw new Error(`Relation type ${type.name} refers to unregistered entity types: ${unknown.join(', ')}`);
+        }
+      }
+    }
+  }
+
+  async remove(names: { entityTypes?: string[]; relationTypes?: string[] }): Promise<{ entityTypes: string[]; relationTypes: string[] }> {
+    const client = await this.db.getClient();
+
+    try {
+      await client.query('BEGIN');
+      const relationTypes = await client.query(
+        'DELETE FROM schema_relation_types WHERE namespace = $1 AND name = ANY($2) RETURNING name',
+        [this.namespace, names.relationTypes ?? []]
+      );
+      const entityTypes = await client.query(
+        'DELETE FROM schema_entity_types WHERE namespace = $1 AND name = ANY($2) RETURNING name',
+        [this.namespace, names.entityTypes ?? []]
+      );
+      this.checkConsistency(await this.loadDefinitions(client));
+      await client.query('COMMIT');
+
+      return {
+        entityTypes: entityTypes.rows.map(row => row.name),
+        relationTypes: relationTypes.rows.map(row => row.name),
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Rewrites the types of live entities and relations to their registered names. Relations
+  // stored under an inverse name are turned around; ones whose canonical form already
+  // exists go to the trash instead.
+  async normalize(options: { dryRun?: boolean } = {}): Promise<NormalizationReport> {
+    const client = await this.db.getClient();
+
+    try {
+      await client.query('BEGIN');
+      await applyAuditContext(client, this.audit);
+
+      const { entityTypes, relationTypes } = await this.loadDefinitions(client);
+      const validator = new SchemaValidator('warn', entityTypes, relationTypes);
+      const report: NormalizationReport = {
+        entityTypes: [],
+        relationTypes: [],
+        duplicateRelations: 0,
+        unmapped: { entityTypes: [], relationTypes: [] },
+        dryRun: options.dryRun ?? false,
+      };
+
+      const usedEntityTypes = await client.query(
+        'SELECT DISTINCT entity_type FROM entities WHERE namespace = $1 AND deleted_at IS NULL ORDER BY entity_type',
+        [this.namespace]
+      );
+      for (const { entity_type: type } of usedEntityTypes.rows) {
+        const canonical = validator.mapEntityType(type);
+        if (canonical === undefined) {
+          report.unmapped.entityTypes.push(type);
+          continue;
+        }
+        if (canonical === type) {
+          continue;
+        }
+        const updated = await client.query(
+          'UPDATE entities SET entity_type = $3 WHERE namespace = $1 AND entity_type = $2 AND deleted_at IS NULL',
+          [this.namespace, type, canonical]
+        );
+        report.entityTypes.push({ from: type, to: canonical, count: updated.rowCount ?? 0 });
+      }
+
+      const usedRelationTypes = await client.query(`
+        SELECT DISTINCT r.relation_type
+        FROM relations r
+        JOIN entities e ON e.id = r.from_entity_id
+        WHERE e.namespace = $1 AND r.deleted_at IS NULL
+        ORDER BY r.relation_type
+      `, [this.namespace]);
+      for (const { relation_type: type } of usedRelationTypes.rows) {
+        const mapped = validator.mapRelationType(type);
+        if (mapped === undefined) {
+          report.unmapped.relationTypes.push(type);
+          continue;
+        }
+        if (mapped.relationType === type && !mapped.reversed) {
+          continue;
+        }
+
+        const scope = `
+          FROM entities e
+          WHERE e.id = r.from_entity_id AND e.namespace = $1 AND r.relation_type = $2 AND r.deleted_at IS NULL`;
+        const newFrom = 'CASE WHEN $4 THEN r.to_entity_id ELSE r.from_entity_id END';
+        const newTo = 'CASE WHEN $4 THEN r.from_entity_id ELSE r.to_entity_id END';
+
+        const duplicates = await client.query(`
+          UPDATE relations r SET deleted_at = NOW()
+          ${scope}
+            AND EXISTS (
+              SELECT 1 FROM relations l
+              WHERE l.from_entity_id = ${newFrom} AND l.to_entity_id = ${newTo}
+                AND l.relation_type = $3 AND l.deleted_at IS NULL
+            )
+        `, [this.namespace, type, mapped.relationType, mapped.reversed]);
+        const updated = await client.query(`
+          UPDATE relations r
+          SET relation_type = $3, from_entity_id = ${newFrom}, to_entity_id = ${newTo}
+          ${scope}
+        `, [this.namespace, type, mapped.relationType, mapped.reversed]);
+
+        report.duplicateRelations += duplicates.rowCount ?? 0;
+        report.relationTypes.push({
+          from: type,
+          to: mapped.relationType,
+          reversed: mapped.reversed,
+          count: (updated.rowCount ?? 0) + (duplicates.rowCount ?? 0),
+        });
+      }
+
+      await client.query(options.dryRun ? 'ROLLBACK' : 'COMMIT');
+      return report;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
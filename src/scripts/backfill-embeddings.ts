@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+import { Command } from 'commander';
+import { DatabaseConnection } from '../database.js';
+import { getEmbeddingProvider } from '../embeddings.js';
+import { validateNamespace } from '../knowledge-graph-manager.js';
+import { SemanticIndex } from '../semantic-search.js';
+
+const program = new Command();
+program
+  .name('backfill-embeddings')
+  .description('Embed entity names and observations that have no embedding from the configured provider')
+  .option('--namespace <namespace>', 'only embed this namespace (default: all namespaces)')
+  .option('--batch-size <n>', 'rows sent to the embedding provider per request', '100')
+  .parse();
+
+const opts = program.opts();
+
+async function main() {
+  const provider = getEmbeddingProvider();
+  if (!provider) {
+    throw new Error('No embedding provider configured (MEMORY_EMBEDDING_PROVIDER=none)');
+  }
+
+  const db = DatabaseConnection.getInstance();
+  try {
+    await db.initializeDatabase();
+    const index = new SemanticIndex(provider, opts.namespace ? validateNamespace(opts.namespace) : null);
+    const result = await index.backfill({ batchSize: parseInt(opts.batchSize, 10) });
+    console.log(`Embedded ${result.entities} entity names and ${result.observations} observations with ${provider.id}`);
+  } finally {
+    await db.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('Backfill failed:', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+import { Command } from 'commander';
+import { DatabaseConnection } from '../database.js';
+import { DatabaseKnowledgeGraphManager, validateNamespace } from '../knowledge-graph-manager.js';
+import { WriteItemResult } from '../types.js';
+
+const program = new Command();
+program
+  .name('benchmark-writes')
+  .description('Time create_entities, add_observations and create_relations on generated data in a scratch namespace')
+  .option('--namespace <namespace>', 'scratch namespace; it must be empty and is emptied again afterwards', 'benchmark-writes')
+  .option('--entities <n>', 'entities to create', '5000')
+  .option('--observations <n>', 'observations per entity', '5')
+  .option('--batch-size <n>', 'items per call', '500')
+  .option('--keep', 'keep the generated data')
+  .parse();
+
+const opts = program.opts();
+
+function positive(value: string, option: string): number {
+  const n = parseInt(value, 10);
+  if (!(n > 0)) {
+    throw new Error(`Invalid ${option}: ${value}. Expected a positive integer`);
+  }
+  return n;
+}
+
+function batches<T>(items: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    result.push(items.slice(i, i + size));
+  }
+  return result;
+}
+
+async function time<T>(label: string, items: T[], batchSize: number, write: (batch: T[]) => Promise<WriteItemResult[]>): Promise<void> {
+  const start = performance.now();
+  let written = 0;
+  for (const batch of batches(items, batchSize)) {
+    written += (await write(batch)).filter(result => result.status === 'created').length;
+  }
+  const seconds = (performance.now() - start) / 1000;
+  console.log(`${label.padEnd(18)} ${String(items.length).padStart(8)} items  ${seconds.toFixed(2).padStart(8)} s  ${Math.round(items.length / seconds).toString().padStart(8)} items/s  (${written} created)`);
+}
+
+async function main() {
+  const namespace = validateNamespace(opts.namespace);
+  const entityCount = positive(opts.entities, '--entities');
+  const observationCount = positive(opts.observations, '--observations');
+  const batchSize = positive(opts.batchSize, '--batch-size');
+
+  const db = DatabaseConnection.getInstance();
+  try {
+    await db.initializeDatabase();
+    // Refuse to touch a namespace with data, as it is deleted outright afterwards
+    const existing = await db.query('SELECT 1 FROM entities WHERE namespace = $1 LIMIT 1', [namespace]);
+    if (existing.rows.length > 0) {
+      throw new Error(`Namespace ${namespace} is not empty; pick a scratch namespace with --namespace`);
+    }
+
+    const manager = new DatabaseKnowledgeGraphManager(namespace, { tool: 'benchmark-writes' });
+    const names = Array.from({ length: entityCount }, (_, i) => `entity-${i}`);
+
+    try {
+      await time('create_entities', names, batchSize, batch => manager.createEntities(batch.map((name, i) => ({
+        name,
+        entityType: `type-${i % 10}`,
+        observations: Array.from({ length: observationCount }, (_, j) => `${name} observation ${j}`),
+      }))));
+
+      // Every item repeats one observation the entity already has, so the skip path is timed too
+      await time('add_observations', names, batchSize, batch => manager.addObservations(batch.map(name => ({
+        entityName: name,
+        contents: [`${name} observation 0`, `${name} added observation`],
+      }))));
+
+      // Two relations per entity, to its neighbour and to a scattered one
+      const relations = names.flatMap((name, i) => [
+        { from: name, to: names[(i + 1) % entityCount], relationType: 'next' },
+        { from: name, to: names[(i * 7 + 3) % entityCount], relationType: 'related_to' },
+      ]);
+      await time('create_relations', relations, batchSize, batch => manager.createRelations(batch));
+    } finally {
+      if (!opts.keep) {
+        // Observations, relations and aliases go with their entities
+        await db.query('DELETE FROM entities WHERE namespace = $1', [namespace]);
+      }
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('Benchmark failed:', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { Command } from 'commander';
+import { DatabaseConnection } from '../database.js';
+import { GraphImporter, ImportReport } from '../importer.js';
+import { MemoryRecord, parseMemoryRecord } from '../graph-formats.js';
+import { DEFAULT_NAMESPACE, validateNamespace } from '../knowledge-graph-manager.js';
+import { GraphSnapshotEntity, GraphSnapshotRelation } from '../types.js';
+import { applyAuditContext } from '../history.js';
+
+// Entities and relations written per statement
+const BATCH_SIZE = 500;
+
+const program = new Command();
+program
+  .name('migrate-from-json')
+  .description('Import a server-memory memory.json (JSONL) file into PostgreSQL')
+  .argument('[file]', 'path to memory.json', process.env.MEMORY_FILE_PATH || 'memory.json')
+  .option('--namespace <namespace>', 'namespace to import into', process.env.MEMORY_NAMESPACE || DEFAULT_NAMESPACE)
+  .option('--dry-run', 'report what would be imported without writing anything')
+  .parse();
+
+const [file] = program.processedArgs as [string];
+const dryRun = Boolean(program.opts().dryRun);
+const namespace = validateNamespace(program.opts().namespace);
+
+function printReport(report: ImportReport): void {
+  console.log(`${dryRun ? 'Dry run: ' : ''}Imported ${file} into namespace ${namespace}`);
+  console.log(`  entities:     ${report.entities.created} created, ${report.entities.skipped} skipped, ${report.entities.conflicted} conflicted`);
+  console.log(`  observations: ${report.observations.created} created, ${report.observations.skipped} skipped`);
+  console.log(`  relations:    ${report.relations.created} created, ${report.relations.skipped} skipped, ${report.relations.missingEndpoints} missing endpoints`);
+
+  for (const conflict of report.conflicts) {
+    console.log(`  conflict: "${conflict.name}" exists as ${conflict.existingType}, file has ${conflict.importedType}`);
+  }
+  for (const relation of report.unresolvedRelations) {
+    console.log(`  unresolved relation: ${relation.from} -[${relation.relationType}]-> ${relation.to} (missing: ${relation.missing.join(', ')})`);
+  }
+  for (const error of report.errors) {
+    console.log(`  line ${error.line}: ${error.message}`);
+  }
+}
+
+async function main() {
+  const db = DatabaseConnection.getInstance();
+  // A dry run must not write anything, schema changes included
+  await (dryRun ? db.verifyDatabase() : db.initializeDatabase());
+  const client = await db.getClient();
+
+  try {
+    await client.query('BEGIN');
+    await applyAuditContext(client, { tool: 'migrate-from-json' });
+    const importer = new GraphImporter(client, namespace);
+
+    // Relations are applied after every entity so their order in the file doesn't matter
+    const entities: GraphSnapshotEntity[] = [];
+    const relations: GraphSnapshotRelation[] = [];
+    const lines = createInterface({ input: createReadStream(file), crlfDelay: Infinity });
+    let lineNumber = 0;
+
+    for await (const line of lines) {
+      lineNumber++;
+      if (line.trim() === '') {
+        continue;
+      }
+
+      let record: MemoryRecord;
+      try {
+        record = parseMemoryRecord(line);
+      } catch (error) {
+        importer.recordError(lineNumber, error instanceof Error ? error.message : String(error));
+        continue;
+      }
+
+      if (record.type === 'entity') {
+        entities.push(record);
+        if (entities.length >= BATCH_SIZE) {
+          await importer.importEntities(entities.splice(0));
+        }
+      } else {
+        relations.push(record);
+      }
+    }
+    await importer.importEntities(entities);
+
+    for (let i = 0; i < relations.length; i += BATCH_SIZE) {
+      await importer.importRelations(relations.slice(i, i + BATCH_SIZE));
+    }
+
+    await client.query(dryRun ? 'ROLLBACK' : 'COMMIT');
+    printReport(importer.report);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    await db.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('Import failed:', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+import { Command } from 'commander';
+import { DatabaseConnection } from '../database.js';
+import { MigrationRunner } from '../migrations.js';
+
+const db = DatabaseConnection.getInstance();
+const runner = new MigrationRunner(db.getPool());
+
+// Strict, so that a typo cannot turn into reverting everything
+function parseSteps(value: string): number {
+  const steps = Number(value);
+  if (!/^\d+$/.test(value) || steps < 1) {
+    throw new Error(`Invalid --steps: ${value}. Expected an integer of at least 1`);
+  }
+  return steps;
+}
+
+async function run(action: () => Promise<void>): Promise<void> {
+  try {
+    await action();
+  } catch (error) {
+    console.error('Migration failed:', error instanceof Error ? error.message : String(error));
+    process.exitCode = 1;
+  } finally {
+    await db.close();
+  }
+}
+
+const program = new Command();
+program
+  .name('migrate')
+  .description('Manage the memory server database schema');
+
+program
+  .command('up', { isDefault: true })
+  .description('apply all pending migrations')
+  .option('--to <version>', 'stop after applying this version')
+  .action((options) => run(async () => {
+    const applied = await runner.up(options.to);
+    for (const migration of applied) {
+      console.log(`applied  ${migration.filename}`);
+    }
+  }));
+
+program
+  .command('status')
+  .description('show applied, pending and modified migrations')
+  .action(() => run(async () => {
+    const statuses = await runner.status();
+    for (const status of statuses) {
+      const appliedAt = status.appliedAt ? status.appliedAt.toISOString() : '';
+      console.log(`${status.state.padEnd(8)} ${status.version}_${status.name} ${appliedAt}`.trimEnd());
+    }
+  }));
+
+program
+  .command('down')
+  .description('revert the most recently applied migrations')
+  .option('--steps <n>', 'number of migrations to revert', '1')
+  .action((options) => run(async () => {
+    const reverted = await runner.down(parseSteps(options.steps));
+    for (const migration of reverted) {
+      console.log(`reverted ${migration.filename}`);
+    }
+  }));
+
+program.parseAsync();
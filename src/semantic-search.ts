@@ -0,0 +1,176 @@
+import { PoolClient } from 'pg';
+import { DatabaseConnection } from './database.js';
+import { EmbeddingProvider, toVectorLiteral } from './embeddings.js';
+
+export interface SemanticSearchOptions {
+  limit?: number;
+  // Share of the final score taken from full-text rank; 0 is purely semantic
+  hybridWeight?: number;
+  minScore?: number;
+}
+
+export interface SemanticSearchResult {
+  name: string;
+  entityType: string;
+  score: number;
+  semanticScore: number;
+  textScore: number;
+  matchedObservation: string | null;
+}
+
+export interface BackfillResult {
+  entities: number;
+  observations: number;
+}
+
+// The embedding columns only exist when migration 003 found pgvector
+export async function hasEmbeddingColumns(db: DatabaseConnection | PoolClient): Promise<boolean> {
+  const result = await db.query(`
+    SELECT EXISTS (
+      SELECT FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'observations' AND column_name = 'embedding'
+    )
+  `);
+  return result.rows[0].exists;
+}
+
+// Rows embedded on demand before each search, so recent writes are searchable without
+// waiting for a backfill run
+const SEARCH_BACKFILL_LIMIT = 500;
+
+export class SemanticIndex {
+  private db: DatabaseConnection;
+  private provider: EmbeddingProvider;
+  private namespace: string | null;
+
+  // A null namespace covers every namespace (used by the backfill command)
+  constructor(provider: EmbeddingProvider, namespace: string | null) {
+    this.db = DatabaseConnection.getInstance();
+    this.provider = provider;
+    this.namespace = namespace;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return hasEmbeddingColumns(this.db);
+  }
+
+  private async requireAvailable(): Promise<void> {
+    if (!(await this.isAvailable())) {
+      throw new Error('Semantic search is unavailable: the pgvector extension was not installed when migrations ran');
+    }
+  }
+
+  // Embeds entity names and observations that have no embedding from the current provider
+  async backfill(options: { batchSize?: number; limit?: number } = {}): Promise<BackfillResult> {
+    await this.requireAvailable();
+    const batchSize = options.batchSize ?? 100;
+    const limit = options.limit ?? Infinity;
+    const result: BackfillResult = { entities: 0, observations: 0 };
+
+    result.entities = await this.backfillTable(`
+      SELECT e.id, e.name as text FROM entities e
+      WHERE ($1::text IS NULL OR e.namespace = $1) AND e.deleted_at IS NULL AND e.embedding_model IS DISTINCT FROM $2
+      ORDER BY e.id LIMIT $3
+    `, 'entities', batchSize, limit);
+
+    result.observations = await this.backfillTable(`
+      SELECT o.id, o.content as text FROM observations o
+      JOIN entities e ON e.id = o.entity_id
+      WHERE ($1::text IS NULL OR e.namespace = $1) AND o.deleted_at IS NULL AND o.embedding_model IS DISTINCT FROM $2
+      ORDER BY o.id LIMIT $3
+    `, 'observations', batchSize, limit);
+
+    return result;
+  }
+
+  private async backfillTable(selectSql: string, table: 'entities' | 'observations', batchSize: number, limit: number): Promise<number> {
+    let embedded = 0;
+
+    while (embedded < limit) {
+      const pending = await this.db.query(selectSql, [this.namespace, this.provider.id, Math.min(batchSize, limit - embedded)]);
+      if (pending.rows.length === 0) {
+        break;
+      }
+
+      const embeddings = await this.provider.embed(pending.rows.map(row => row.text));
+      // Text without any tokens gets no vector but is still marked as processed
+      const vectors = embeddings.map(e => e.some(x => x !== 0) ? toVectorLiteral(e) : null);
+
+      await this.db.query(`
+        UPDATE ${table} t
+        SET embedding = v.embedding::vector, embedding_model = $3
+        FROM unnest($1::int[], $2::text[]) AS v(id, embedding)
+        WHERE t.id = v.id
+      `, [pending.rows.map(row => row.id), vectors, this.provider.id]);
+
+      embedded += pending.rows.length;
+    }
+
+    return embedded;
+  }
+
+  // Ranks entities by the best cosine similarity of their name or any observation,
+  // blended with the PostgreSQL full-text rank of the same query
+  async search(query: string, options: SemanticSearchOptions = {}): Promise<SemanticSearchResult[]> {
+    await this.requireAvailable();
+    const limit = options.limit ?? 10;
+    const hybridWeight = Math.min(Math.max(options.hybridWeight ?? 0.3, 0), 1);
+    const minScore = options.minScore ?? 0;
+
+    await this.backfill({ limit: SEARCH_BACKFILL_LIMIT });
+    const [queryEmbedding] = await this.provider.embed([query]);
+    if (!queryEmbedding.some(x => x !== 0)) {
+      throw new Error('Query has no searchable terms');
+    }
+
+    const result = await this.db.query(`
+      WITH q AS (
+        SELECT $1::vector AS v, plainto_tsquery('english', $4) AS ts
+      ),
+      observation_scores AS (
+        SELECT o.entity_id,
+               MAX(1 - (o.embedding <=> q.v)) AS similarity,
+               (array_agg(o.content ORDER BY o.embedding <=> q.v))[1] AS best_match,
+               MAX(CASE WHEN to_tsvector('english', o.content) @@ q.ts
+                        THEN ts_rank(to_tsvector('english', o.content), q.ts, 32) ELSE 0 END) AS text_rank
+        FROM observations o
+        JOIN entities e ON e.id = o.entity_id
+        CROSS JOIN q
+        WHERE e.namespace = $2 AND o.deleted_at IS NULL AND o.embedding_model = $3 AND o.embedding IS NOT NULL
+          AND o.superseded_by IS NULL AND (o.valid_until IS NULL OR o.valid_until > NOW())
+        GROUP BY o.entity_id
+      ),
+      scored AS (
+        SELECT e.name, e.entity_type, os.best_match,
+               GREATEST(
+                 COALESCE(os.similarity, 0),
+                 CASE WHEN e.embedding_model = $3 THEN COALESCE(1 - (e.embedding <=> q.v), 0) ELSE 0 END
+               ) AS semantic_score,
+               GREATEST(
+                 COALESCE(os.text_rank, 0),
+                 CASE WHEN to_tsvector('english', e.name) @@ q.ts
+                      THEN ts_rank(to_tsvector('english', e.name), q.ts, 32) ELSE 0 END
+               ) AS text_score
+        FROM entities e
+        CROSS JOIN q
+        LEFT JOIN observation_scores os ON os.entity_id = e.id
+        WHERE e.namespace = $2 AND e.deleted_at IS NULL
+      )
+      SELECT name, entity_type, best_match, semantic_score, text_score,
+             (1 - $5::float) * semantic_score + $5::float * text_score AS score
+      FROM scored
+      WHERE (1 - $5::float) * semantic_score + $5::float * text_score > $6
+      ORDER BY score DESC, name
+      LIMIT $7
+    `, [toVectorLiteral(queryEmbedding), this.namespace, this.provider.id, query, hybridWeight, minScore, limit]);
+
+    return result.rows.map(row => ({
+      name: row.name,
+      entityType: row.entity_type,
+      score: Number(row.score),
+      semanticScore: Number(row.semantic_score),
+      textScore: Number(row.text_score),
+      matchedObservation: row.best_match,
+    }));
+  }
+}
@@ -0,0 +1,164 @@
+export interface SummaryInput {
+  name: string;
+  entityType: string;
+  // Oldest first; `summary` marks observations written by an earlier consolidation
+  observations: { content: string; summary: boolean }[];
+}
+
+export interface Summarizer {
+  // Recorded as the source of every summary observation
+  readonly id: string;
+  summarize(input: SummaryInput): Promise<string>;
+}
+
+// Word-set overlap at which two observations count as saying the same thing
+const NEAR_DUPLICATE_SIMILARITY = 0.8;
+
+const SUMMARY_HEADER = 'Summary:';
+const FACT_PREFIX = '- ';
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) {
+      shared++;
+    }
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+// Splits an earlier local summary back into its facts; lines that do not start a new fact
+// continue the previous one
+function expandSummary(content: string): string[] {
+  const facts: string[] = [];
+  for (const line of content.split('\n').slice(1)) {
+    if (line.startsWith(FACT_PREFIX) || facts.length === 0) {
+      facts.push(line.startsWith(FACT_PREFIX) ? line.slice(FACT_PREFIX.length) : line);
+    } else {
+      facts[facts.length - 1] += `\n${line}`;
+    }
+  }
+  return facts;
+}
+
+// Deterministic offline summarizer: collapses exact and near-duplicate observations and
+// lists the remaining facts. When two observations say nearly the same thing, the later one
+// is kept. It never rewords anything; use an HTTP provider for real summaries.
+export class LocalSummarizer implements Summarizer {
+  readonly id = 'local';
+
+  async summarize(input: SummaryInput): Promise<string> {
+    const facts = input.observations.flatMap(o =>
+      o.summary && o.content.startsWith(`${SUMMARY_HEADER}\n`) ? expandSummary(o.content) : [o.content]
+    );
+
+    const kept: { text: string; normalized: string; words: Set<string> }[] = [];
+    for (const text of facts) {
+      const fact = { text, normalized: normalize(text), words: words(text) };
+      const duplicate = kept.findIndex(k =>
+        k.normalized === fact.normalized || jaccard(k.words, fact.words) >= NEAR_DUPLICATE_SIMILARITY
+      );
+      if (duplicate >= 0) {
+        kept.splice(duplicate, 1);
+      }
+      kept.push(fact);
+    }
+
+    return [SUMMARY_HEADER, ...kept.map(fact => FACT_PREFIX + fact.text)].join('\n');
+  }
+}
+
+const SYSTEM_PROMPT = 'You maintain a knowledge graph memory. Summarize the observations about the given entity '
+  + 'into one compact, self-contained text. Keep every distinct fact, prefer later observations where they '
+  + 'contradict earlier ones, and drop repetition. Reply with the summary only.';
+
+// Calls an OpenAI-compatible `/chat/completions` endpoint (OpenAI, Ollama, vLLM, LocalAI, ...)
+export class HttpSummarizer implements Summarizer {
+  readonly id: string;
+  private url: string;
+  private model: string;
+  private apiKey?: string;
+
+  constructor(options: { url: string; model: string; apiKey?: string }) {
+    this.url = options.url;
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.id = `http:${options.model}`;
+  }
+
+  async summarize(input: SummaryInput): Promise<string> {
+    const observations = input.observations
+      .map(o => `- ${o.summary ? '(earlier summary) ' : ''}${o.content}`)
+      .join('\n');
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: `Entity: ${input.name} (${input.entityType})\nObservations, oldest first:\n${observations}` },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Summarization request failed with HTTP ${response.status}: ${await response.text()}`);
+    }
+
+    const result = await response.json() as { choices?: { message?: { content?: string } }[] };
+    const summary = result.choices?.[0]?.message?.content?.trim();
+    if (!summary) {
+      throw new Error('Summarization response has no content');
+    }
+    return summary;
+  }
+}
+
+// MEMORY_SUMMARIZER_PROVIDER selects `local` (default), `http` or `none`
+export function createSummarizer(env: NodeJS.ProcessEnv = process.env): Summarizer | null {
+  const provider = env.MEMORY_SUMMARIZER_PROVIDER || 'local';
+
+  switch (provider) {
+    case 'none':
+      return null;
+    case 'local':
+      return new LocalSummarizer();
+    case 'http':
+      if (!env.MEMORY_SUMMARIZER_URL || !env.MEMORY_SUMMARIZER_MODEL) {
+        throw new Error('MEMORY_SUMMARIZER_URL and MEMORY_SUMMARIZER_MODEL are required for the http summarizer');
+      }
+      return new HttpSummarizer({
+        url: env.MEMORY_SUMMARIZER_URL,
+        model: env.MEMORY_SUMMARIZER_MODEL,
+        apiKey: env.MEMORY_SUMMARIZER_API_KEY,
+      });
+    default:
+      throw new Error(`Unknown summarizer: ${provider}. Expected local, http or none`);
+  }
+}
+
+let defaultSummarizer: Summarizer | null | undefined;
+
+export function getSummarizer(): Summarizer | null {
+  if (defaultSummarizer === undefined) {
+    defaultSummarizer = createSummarizer();
+  }
+  return defaultSummarizer;
+}
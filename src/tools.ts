@@ -0,0 +1,1052 @@
+import { DatabaseKnowledgeGraphManager, WRITE_MODES } from './knowledge-graph-manager.js';
+import { NewEntity, ObservationInput, ObservationUpdate, Properties, Relation, WriteMode } from './types.js';
+import { Principal, Scope, authorizeNamespace } from './auth.js';
+import { GRAPH_FORMATS, GraphFormat, isGraphFormat, parseGraph, serializeGraph } from './graph-formats.js';
+import { TRAVERSAL_DIRECTIONS, TraversalDirection } from './graph-traversal.js';
+import { READ_GRAPH_MODES, ReadGraphMode } from './graph-reader.js';
+import { CENTRALITY_MEASURES, CentralityMeasure } from './graph-analytics.js';
+import { EntityTypeDefinition, RelationTypeDefinition } from './schema.js';
+import { RetentionPolicy } from './importance.js';
+
+function parseFormat(value: unknown): GraphFormat {
+  if (value === undefined) {
+    return 'jsonl';
+  }
+  if (typeof value !== 'string' || !isGraphFormat(value)) {
+    throw new Error(`Unsupported graph format: ${value}. Expected one of ${GRAPH_FORMATS.join(', ')}`);
+  }
+  return value;
+}
+
+// Observations are plain strings, or objects when they carry metadata
+const observationSchema = {
+  anyOf: [
+    { type: "string" },
+    {
+      type: "object",
+      properties: {
+        content: { type: "string", description: "The observation" },
+        source: { type: "string", description: "Where it comes from, e.g. a conversation ID, document or URL" },
+        confidence: { type: "number", minimum: 0, maximum: 1, description: "How certain it is, from 0 to 1" },
+        author: { type: "string", description: "The person or agent that asserted it" },
+        tags: { type: "array", items: { type: "string" } },
+        validUntil: { type: "string", description: "ISO 8601 timestamp after which it is hidden from reads by default" },
+      },
+      required: ["content"],
+    },
+  ],
+};
+
+const observationReadSchema = {
+  includeMetadata: { type: "boolean", description: "Also return observationDetails with each observation's ID, timestamp, source, confidence, author, tags and validUntil" },
+  includeExpired: { type: "boolean", description: "Include observations whose validUntil has passed" },
+  includeSuperseded: { type: "boolean", description: "Include superseded observations; their observationDetails name the observation that replaced them" },
+};
+
+// Every write tool answers with one result per item: created, merged, deleted, skipped or
+// error, with the reason for the last two
+const writeModeSchema = {
+  mode: {
+    type: "string",
+    enum: WRITE_MODES,
+    description: "How items that already exist are treated: skip leaves them as they are (default), merge adds what is new to them, fail reports them as errors and then writes nothing if any item fails",
+  },
+};
+
+export const tools = [
+  {
+    name: "create_entities",
+    description: "Create multiple new entities in the knowledge graph. With mode merge, existing entities take the given type and properties and gain the observations they do not have yet",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entities: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string", description: "The name of the entity" },
+              entityType: { type: "string", description: "The type of the entity" },
+              observations: {
+                type: "array",
+                items: observationSchema,
+                description: "An array of observation contents associated with the entity"
+              },
+              properties: { type: "object", description: "Structured attributes of the entity, e.g. {\"status\": \"active\"}" },
+            },
+            required: ["name", "entityType", "observations"],
+          },
+        },
+        ...writeModeSchema,
+      },
+      required: ["entities"],
+    },
+  },
+  {
+    name: "create_relations",
+    description: "Create multiple new relations between entities in the knowledge graph. Relations should be in active voice. With mode merge, existing relations gain the given properties",
+    inputSchema: {
+      type: "object",
+      properties: {
+        relations: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              from: { type: "string", description: "The name of the entity where the relation starts" },
+              to: { type: "string", description: "The name of the entity where the relation ends" },
+              relationType: { type: "string", description: "The type of the relation" },
+              properties: { type: "object", description: "Structured attributes of the relation, e.g. {\"since\": 2021}" },
+            },
+            required: ["from", "to", "relationType"],
+          },
+        },
+        ...writeModeSchema,
+        createMissingEntities: { type: "boolean", description: "Create endpoints that do not exist instead of failing their relations" },
+        missingEntityType: { type: "string", description: "Type of the entities created by createMissingEntities (default: unknown)" },
+      },
+      required: ["relations"],
+    },
+  },
+  {
+    name: "add_observations",
+    description: "Add new observations to existing entities in the knowledge graph. Contents an entity already has are skipped, or with mode merge take the metadata given with them",
+    inputSchema: {
+      type: "object",
+      properties: {
+        observations: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              entityName: { type: "string", description: "The name of the entity to add the observations to" },
+              contents: {
+                type: "array",
+                items: observationSchema,
+                description: "An array of observation contents to add"
+              },
+            },
+            required: ["entityName", "contents"],
+          },
+        },
+        ...writeModeSchema,
+      },
+      required: ["observations"],
+    },
+  },
+  {
+    name: "delete_entities",
+    description: "Delete multiple entities and their associated relations from the knowledge graph",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entityNames: {
+          type: "array",
+          items: { type: "string" },
+          description: "An array of entity names to delete"
+        },
+      },
+      required: ["entityNames"],
+    },
+  },
+  {
+    name: "delete_observations",
+    description: "Delete specific observations from entities in the knowledge graph",
+    inputSchema: {
+      type: "object",
+      properties: {
+        deletions: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              entityName: { type: "string", description: "The name of the entity containing the observations" },
+              observations: {
+                type: "array",
+                items: { type: "string" },
+                description: "An array of observations to delete"
+              },
+            },
+            required: ["entityName", "observations"],
+          },
+        },
+      },
+      required: ["deletions"],
+    },
+  },
+  {
+    name: "delete_relations",
+    description: "Delete multiple relations from the knowledge graph",
+    inputSchema: {
+      type: "object",
+      properties: {
+        relations: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              from: { type: "string", description: "The name of the entity where the relation starts" },
+              to: { type: "string", description: "The name of the entity where the relation ends" },
+              relationType: { type: "string", description: "The type of the relation" },
+            },
+            required: ["from", "to", "relationType"],
+          },
+          description: "An array of relations to delete"
+        },
+      },
+      required: ["relations"],
+    },
+  },
+  {
+    name: "read_graph",
+    description: "Browse the knowledge graph page by page, either as it is now or as it was at a point in time. Use mode counts or names for an overview of a large graph before reading it in full, and pass pagination.nextCursor back as cursor to read the next page",
+    inputSchema: {
+      type: "object",
+      properties: {
+        mode: {
+          type: "string",
+          enum: READ_GRAPH_MODES,
+          description: "full: entities with observations and relations (default); names: entity names and types; counts: number of entities and relations per type; top-connected: entities with the most relations first",
+        },
+        entityTypes: { type: "array", items: { type: "string" }, description: "Only entities of these types" },
+        relationTypes: { type: "array", items: { type: "string" }, description: "Only entities with relations of these types, and only those relations" },
+        updatedSince: { type: "string", description: "ISO 8601 timestamp; only entities whose observations, relations, aliases or fields changed since then" },
+        limit: { type: "number", description: "Maximum number of entities per page (default: 100, max: 1000)" },
+        cursor: { type: "string", description: "pagination.nextCursor of the previous page" },
+        asOf: { type: "string", description: "ISO 8601 timestamp; rebuild the graph as it was at that time from the change log" },
+        ...observationReadSchema,
+      },
+    },
+  },
+  {
+    name: "search_nodes",
+    description: "Search for nodes in the knowledge graph based on a query. Results are ranked by relevance, with a small boost for entities that are read often, paginated, and include highlighted snippets of the matching observations",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "The search query to match against entity names, types, and observation content" },
+        limit: { type: "number", description: "Maximum number of entities to return (default: 20, max: 100)" },
+        offset: { type: "number", description: "Number of ranked results to skip; use pagination.nextOffset from the previous page" },
+        entityTypes: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only return entities of these types",
+        },
+        relationTypes: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only return entities with at least one relation of these types",
+        },
+        matchedObservationsOnly: { type: "boolean", description: "Return only the observations that matched the query instead of all of them" },
+        properties: { type: "object", description: "Only return entities whose properties contain these values, e.g. {\"status\": \"active\"}" },
+        minConfidence: { type: "number", description: "Ignore observations with a lower confidence; observations without one are kept" },
+        sources: { type: "array", items: { type: "string" }, description: "Only consider observations from these sources" },
+        authors: { type: "array", items: { type: "string" }, description: "Only consider observations by these authors" },
+        tags: { type: "array", items: { type: "string" }, description: "Only consider observations with at least one of these tags" },
+        ...observationReadSchema,
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "open_nodes",
+    description: "Open specific nodes in the knowledge graph by their names",
+    inputSchema: {
+      type: "object",
+      properties: {
+        names: {
+          type: "array",
+          items: { type: "string" },
+          description: "An array of entity names to retrieve",
+        },
+        asOf: { type: "string", description: "ISO 8601 timestamp; return the entities as they were at that time" },
+        ...observationReadSchema,
+      },
+      required: ["names"],
+    },
+  },
+  {
+    name: "export_graph",
+    description: "Export the entire knowledge graph, including timestamps, as JSONL (server-memory compatible), JSON-LD or GraphML",
+    inputSchema: {
+      type: "object",
+      properties: {
+        format: { type: "string", enum: GRAPH_FORMATS, description: "The serialization format (default: jsonl)" },
+      },
+    },
+  },
+  {
+    name: "import_graph",
+    description: "Import entities and relations from a JSONL, JSON-LD or GraphML export. Existing entities, observations and relations are kept",
+    inputSchema: {
+      type: "object",
+      properties: {
+        format: { type: "string", enum: GRAPH_FORMATS, description: "The serialization format of data (default: jsonl)" },
+        data: { type: "string", description: "The serialized graph to import" },
+        dryRun: { type: "boolean", description: "Report what would be imported without writing anything" },
+      },
+      required: ["data"],
+    },
+  },
+  {
+    name: "list_namespaces",
+    description: "List the memory namespaces in the database with their entity and relation counts",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "copy_entities",
+    description: "Copy entities, their observations and the relations among them from the current namespace into another namespace. Entities that already exist in the target are kept",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entityNames: {
+          type: "array",
+          items: { type: "string" },
+          description: "An array of entity names to copy",
+        },
+        targetNamespace: { type: "string", description: "The namespace to copy the entities into" },
+      },
+      required: ["entityNames", "targetNamespace"],
+    },
+  },
+  {
+    name: "semantic_search",
+    description: "Find entities whose names or observations are semantically similar to a natural-language query, ranked by a blend of embedding similarity and full-text relevance",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "A natural-language description of what to find" },
+        limit: { type: "number", description: "Maximum number of entities to return (default: 10)" },
+        hybridWeight: { type: "number", description: "Weight of the full-text score between 0 and 1; 0 ranks purely by similarity (default: 0.3)" },
+        minScore: { type: "number", description: "Only return entities scoring above this value (default: 0)" },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "get_neighbors",
+    description: "List the entities connected to an entity, up to a number of hops away, with the relations that reach them",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "The entity to start from" },
+        direction: { type: "string", enum: TRAVERSAL_DIRECTIONS, description: "Follow outgoing relations, incoming relations, or both (default: both)" },
+        relationTypes: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only follow relations of these types",
+        },
+        depth: { type: "number", description: "Maximum number of hops (default: 1, max: 5)" },
+        limit: { type: "number", description: "Maximum number of neighbors to return, nearest first (default: 100, max: 1000)" },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "get_subgraph",
+    description: "Return the k-hop neighbourhood of one or more entities: the entities with their observations and all relations among them",
+    inputSchema: {
+      type: "object",
+      properties: {
+        names: {
+          type: "array",
+          items: { type: "string" },
+          description: "The entities at the centre of the subgraph",
+        },
+        depth: { type: "number", description: "Number of hops around the given entities (default: 2, max: 5)" },
+        direction: { type: "string", enum: TRAVERSAL_DIRECTIONS, description: "Follow outgoing relations, incoming relations, or both (default: both)" },
+        relationTypes: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only follow and return relations of these types",
+        },
+        limit: { type: "number", description: "Maximum number of entities to return, nearest first (default: 100, max: 1000)" },
+      },
+      required: ["names"],
+    },
+  },
+  {
+    name: "find_path",
+    description: "Find the shortest path or paths between two entities",
+    inputSchema: {
+      type: "object",
+      properties: {
+        from: { type: "string", description: "The entity to start from" },
+        to: { type: "string", description: "The entity to reach" },
+        direction: { type: "string", enum: TRAVERSAL_DIRECTIONS, description: "Only follow relations in their own direction (outgoing), against it (incoming), or either way (default: both)" },
+        relationTypes: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only follow relations of these types",
+        },
+        maxDepth: { type: "number", description: "Give up on paths longer than this many hops (default: 6, max: 10)" },
+        maxPaths: { type: "number", description: "Maximum number of equally short paths to return (default: 1, max: 20)" },
+      },
+      required: ["from", "to"],
+    },
+  },
+  {
+    name: "get_entity_history",
+    description: "List the recorded changes to an entity, its observations and its relations, newest first, with the tool, actor and session that made each change and the values before and after it",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "The entity name; earlier names of a renamed entity also work" },
+        limit: { type: "number", description: "Maximum number of changes to return (default: 100, max: 1000)" },
+        since: { type: "string", description: "ISO 8601 timestamp; only return changes made at or after it" },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "list_trash",
+    description: "List deleted entities, observations and relations that can still be restored, most recently deleted first",
+    inputSchema: {
+      type: "object",
+      properties: {
+        limit: { type: "number", description: "Maximum number of items to list per kind (default: 100, max: 1000)" },
+      },
+    },
+  },
+  {
+    name: "restore_entities",
+    description: "Restore deleted entities from the trash together with the observations and relations deleted with them. Separately deleted observations and relations can be restored too",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entityNames: {
+          type: "array",
+          items: { type: "string" },
+          description: "Names of deleted entities to restore",
+        },
+        observations: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              entityName: { type: "string", description: "The entity the observations belong to" },
+              contents: {
+                type: "array",
+                items: { type: "string" },
+                description: "The deleted observations to restore",
+              },
+            },
+            required: ["entityName", "contents"],
+          },
+        },
+        relations: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              from: { type: "string", description: "The name of the entity where the relation starts" },
+              to: { type: "string", description: "The name of the entity where the relation ends" },
+              relationType: { type: "string", description: "The type of the relation" },
+            },
+            required: ["from", "to", "relationType"],
+          },
+          description: "Deleted relations to restore",
+        },
+      },
+    },
+  },
+  {
+    name: "purge_trash",
+    description: "Permanently remove deleted items from the trash. This cannot be undone",
+    inputSchema: {
+      type: "object",
+      properties: {
+        olderThanDays: { type: "number", description: "Only remove items deleted more than this many days ago (default: 0, the whole trash)" },
+      },
+    },
+  },
+  {
+    name: "rename_entity",
+    description: "Rename an entity, keeping its observations and relations",
+    inputSchema: {
+      type: "object",
+      properties: {
+        oldName: { type: "string", description: "The current name of the entity" },
+        newName: { type: "string", description: "The new name; no other entity may have it" },
+      },
+      required: ["oldName", "newName"],
+    },
+  },
+  {
+    name: "merge_entities",
+    description: "Merge duplicate entities into one target entity in a single transaction. Observations are moved without duplicates, relations are repointed to the target, and relations that would become duplicates or self-loops are dropped. The merged entities go to the trash. Returns a report of what moved",
+    inputSchema: {
+      type: "object",
+      properties: {
+        target: { type: "string", description: "The entity to keep" },
+        sources: {
+          type: "array",
+          items: { type: "string" },
+          description: "The entities to fold into the target",
+        },
+      },
+      required: ["target", "sources"],
+    },
+  },
+  {
+    name: "add_aliases",
+    description: "Add alternative names to entities. Every tool that takes an entity name also accepts its aliases. An alias may not be the name or alias of another entity",
+    inputSchema: {
+      type: "object",
+      properties: {
+        aliases: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              entityName: { type: "string", description: "The name of the entity the aliases refer to" },
+              aliases: {
+                type: "array",
+                items: { type: "string" },
+                description: "The alternative names to add"
+              },
+            },
+            required: ["entityName", "aliases"],
+          },
+        },
+      },
+      required: ["aliases"],
+    },
+  },
+  {
+    name: "remove_aliases",
+    description: "Remove aliases from entities",
+    inputSchema: {
+      type: "object",
+      properties: {
+        aliases: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              entityName: { type: "string", description: "The name of the entity to remove the aliases from" },
+              aliases: {
+                type: "array",
+                items: { type: "string" },
+                description: "The aliases to remove"
+              },
+            },
+            required: ["entityName", "aliases"],
+          },
+        },
+      },
+      required: ["aliases"],
+    },
+  },
+  {
+    name: "find_duplicates",
+    description: "Find entities that are probably the same thing, scored on name similarity, shared observations and shared neighbours. Returns clusters whose target and sources can be passed straight to merge_entities, with the evidence for each pair",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entityTypes: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only consider entities of these types",
+        },
+        minScore: { type: "number", description: "Minimum pair score between 0 and 1 (default: 0.6)" },
+        limit: { type: "number", description: "Maximum number of clusters (default: 50, max: 500)" },
+      },
+    },
+  },
+  {
+    name: "list_schema",
+    description: "List the registered entity and relation types with their synonyms, allowed ends, inverse names and cardinality, how often each is used, and the types in use that are not registered. Use it to pick entity and relation types before writing",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "define_schema",
+    description: "Register entity types and relation types, replacing existing definitions of the same name. Writes are checked against the registered types according to the server's schema mode",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entityTypes: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string", description: "The canonical type name" },
+              description: { type: "string" },
+              synonyms: { type: "array", items: { type: "string" }, description: "Other spellings mapped to this type" },
+            },
+            required: ["name"],
+          },
+        },
+        relationTypes: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string", description: "The canonical relation type, in active voice" },
+              description: { type: "string" },
+              synonyms: { type: "array", items: { type: "string" }, description: "Other spellings mapped to this type" },
+              sourceTypes: { type: "array", items: { type: "string" }, description: "Entity types allowed at the source; any when left out" },
+              targetTypes: { type: "array", items: { type: "string" }, description: "Entity types allowed at the target; any when left out" },
+              inverse: { type: "string", description: "The relation read from target to source; relations written with it are stored reversed" },
+              cardinality: { type: "string", enum: ["one-to-one", "one-to-many", "many-to-one", "many-to-many"], description: "many-to-one allows one target per source, one-to-many one source per target (default: many-to-many)" },
+            },
+            required: ["name"],
+          },
+        },
+      },
+    },
+  },
+  {
+    name: "remove_schema_types",
+    description: "Unregister entity types and relation types. Entities and relations using them are left as they are",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entityTypes: { type: "array", items: { type: "string" } },
+        relationTypes: { type: "array", items: { type: "string" } },
+      },
+    },
+  },
+  {
+    name: "normalize_types",
+    description: "Rewrite entity and relation types that are synonyms, case variants or inverse names of registered types to the registered types. Relations whose normalized form already exists go to the trash",
+    inputSchema: {
+      type: "object",
+      properties: {
+        dryRun: { type: "boolean", description: "Report what would change without writing anything" },
+      },
+    },
+  },
+  {
+    name: "set_properties",
+    description: "Set properties on entities and relations. The given keys are added or overwritten; other keys are kept",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entities: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string", description: "The name of the entity" },
+              properties: { type: "object", description: "The properties to set" },
+            },
+            required: ["name", "properties"],
+          },
+        },
+        relations: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              from: { type: "string", description: "The name of the entity where the relation starts" },
+              to: { type: "string", description: "The name of the entity where the relation ends" },
+              relationType: { type: "string", description: "The type of the relation" },
+              properties: { type: "object", description: "The properties to set" },
+            },
+            required: ["from", "to", "relationType", "properties"],
+          },
+        },
+      },
+    },
+  },
+  {
+    name: "unset_properties",
+    description: "Remove property keys from entities and relations",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entities: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string", description: "The name of the entity" },
+              keys: { type: "array", items: { type: "string" }, description: "The property keys to remove" },
+            },
+            required: ["name", "keys"],
+          },
+        },
+        relations: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              from: { type: "string", description: "The name of the entity where the relation starts" },
+              to: { type: "string", description: "The name of the entity where the relation ends" },
+              relationType: { type: "string", description: "The type of the relation" },
+              keys: { type: "array", items: { type: "string" }, description: "The property keys to remove" },
+            },
+            required: ["from", "to", "relationType", "keys"],
+          },
+        },
+      },
+    },
+  },
+  {
+    name: "update_observation",
+    description: "Edit an observation in place by its ID, as listed in observationDetails. Fields left out are kept; null clears a metadata field. To record that a fact changed over time, use supersede_observation instead",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "number", description: "The ID of the observation" },
+        content: { type: "string", description: "The new content" },
+        source: { type: ["string", "null"] },
+        confidence: { type: ["number", "null"], minimum: 0, maximum: 1 },
+        author: { type: ["string", "null"] },
+        tags: { type: ["array", "null"], items: { type: "string" } },
+        validUntil: { type: ["string", "null"], description: "ISO 8601 timestamp" },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "supersede_observation",
+    description: "Replace an observation with a new one while keeping the old one as history. Reads only show the new observation unless includeSuperseded is set",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "number", description: "The ID of the observation that no longer holds" },
+        replacement: observationSchema,
+      },
+      required: ["id", "replacement"],
+    },
+  },
+  {
+    name: "consolidate_entity",
+    description: "Replace an entity's observations with one summary observation. The originals are archived as superseded observations and can still be read with includeSuperseded",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entityName: { type: "string", description: "The entity to consolidate" },
+        minAgeDays: { type: "number", description: "Only consolidate observations at least this many days old (default: 0)" },
+        dryRun: { type: "boolean", description: "Return the summary without keeping it" },
+      },
+      required: ["entityName"],
+    },
+  },
+  {
+    name: "list_retention_policies",
+    description: "List the retention policies: per entity type, how long observations may go unread and how low their importance may decay before they are archived to the trash",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "set_retention_policies",
+    description: "Opt entity types into retention, replacing existing policies for the same types. Observations of entities of these types that have not been read for maxIdleDays and whose importance decayed below minImportance are archived to the trash by apply_retention or the scheduled retention job",
+    inputSchema: {
+      type: "object",
+      properties: {
+        policies: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              entityType: { type: "string" },
+              maxIdleDays: { type: "number", description: "Days an observation may go unread" },
+              minImportance: { type: "number", description: "Importance an idle observation needs to be kept (default: 1, the weight of a single read today)" },
+            },
+            required: ["entityType", "maxIdleDays"],
+          },
+        },
+      },
+      required: ["policies"],
+    },
+  },
+  {
+    name: "remove_retention_policies",
+    description: "Remove the retention policies of the given entity types, so their observations are kept however long they go unread",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entityTypes: { type: "array", items: { type: "string" } },
+      },
+      required: ["entityTypes"],
+    },
+  },
+  {
+    name: "apply_retention",
+    description: "Archive the observations that the retention policies no longer retain to the trash, where restore_entities can bring them back. Returns each archived observation with its importance and last read",
+    inputSchema: {
+      type: "object",
+      properties: {
+        dryRun: { type: "boolean", description: "Report what would be archived without archiving anything" },
+      },
+    },
+  },
+  {
+    name: "graph_stats",
+    description: "Describe the shape of the graph: counts per entity and relation type, the degree distribution, orphan entities without relations, entities without observations, and the largest connected components. Use it to find isolated or empty entities worth cleaning up",
+    inputSchema: {
+      type: "object",
+      properties: {
+        limit: { type: "number", description: "Maximum number of names listed per section (default: 20, max: 1000)" },
+      },
+    },
+  },
+  {
+    name: "graph_analytics",
+    description: "Rank entities by centrality and group them into connected components and communities of densely related entities. Use it to find hub entities and clusters",
+    inputSchema: {
+      type: "object",
+      properties: {
+        centrality: { type: "string", enum: CENTRALITY_MEASURES, description: "pagerank follows relation direction; degree counts relations at either end (default: pagerank)" },
+        relationTypes: { type: "array", items: { type: "string" }, description: "Only count relations of these types" },
+        limit: { type: "number", description: "Maximum number of entities and groups listed per section (default: 20, max: 1000)" },
+      },
+    },
+  },
+];
+
+// Minimum scope an authenticated HTTP caller needs for each tool
+const toolScopes: Record<string, Scope> = {
+  read_graph: 'read',
+  search_nodes: 'read',
+  open_nodes: 'read',
+  export_graph: 'read',
+  semantic_search: 'read',
+  get_neighbors: 'read',
+  get_subgraph: 'read',
+  find_path: 'read',
+  get_entity_history: 'read',
+  list_trash: 'read',
+  find_duplicates: 'read',
+  list_schema: 'read',
+  list_retention_policies: 'read',
+  graph_stats: 'read',
+  graph_analytics: 'read',
+  create_entities: 'write',
+  create_relations: 'write',
+  add_observations: 'write',
+  delete_entities: 'write',
+  delete_observations: 'write',
+  delete_relations: 'write',
+  import_graph: 'write',
+  restore_entities: 'write',
+  rename_entity: 'write',
+  merge_entities: 'write',
+  add_aliases: 'write',
+  remove_aliases: 'write',
+  set_properties: 'write',
+  update_observation: 'write',
+  supersede_observation: 'write',
+  consolidate_entity: 'write',
+  unset_properties: 'write',
+  list_namespaces: 'admin',
+  copy_entities: 'admin',
+  purge_trash: 'admin',
+  define_schema: 'admin',
+  remove_schema_types: 'admin',
+  normalize_types: 'admin',
+  set_retention_policies: 'admin',
+  remove_retention_policies: 'admin',
+  apply_retention: 'admin',
+};
+
+// The required parameters of a tool that the arguments leave out
+export function missingArguments(toolName: string, args: Record<string, unknown>): string[] {
+  const tool = tools.find(t => t.name === toolName);
+  const required: string[] = (tool && 'required' in tool.inputSchema ? tool.inputSchema.required : undefined) ?? [];
+  return required.filter(key => args[key] === undefined);
+}
+
+// Tools without an explicit scope require admin
+export function requiredScope(toolName: string): Scope {
+  return toolScopes[toolName] ?? 'admin';
+}
+
+// With a principal (HTTP), tools that reach beyond the manager's namespace are limited to the
+// namespace its key is bound to
+export async function callTool(manager: DatabaseKnowledgeGraphManager, name: string, args: Record<string, unknown>, principal?: Principal) {
+  switch (name) {
+    case "create_entities":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.createEntities(args.entities as NewEntity[], {
+        mode: args.mode as WriteMode | undefined,
+      }), null, 2) }] };
+    case "create_relations":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.createRelations(args.relations as Relation[], {
+        mode: args.mode as WriteMode | undefined,
+        createMissingEntities: args.createMissingEntities as boolean | undefined,
+        missingEntityType: args.missingEntityType as string | undefined,
+      }), null, 2) }] };
+    case "add_observations":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.addObservations(args.observations as { entityName: string; contents: (string | ObservationInput)[] }[], {
+        mode: args.mode as WriteMode | undefined,
+      }), null, 2) }] };
+    case "delete_entities":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.deleteEntities(args.entityNames as string[]), null, 2) }] };
+    case "delete_observations":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.deleteObservations(args.deletions as { entityName: string; observations: string[] }[]), null, 2) }] };
+    case "delete_relations":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.deleteRelations(args.relations as Relation[]), null, 2) }] };
+    // Graph pages are the largest responses, so they are not pretty-printed
+    case "read_graph":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.readGraph({
+        mode: args.mode as ReadGraphMode | undefined,
+        entityTypes: args.entityTypes as string[] | undefined,
+        relationTypes: args.relationTypes as string[] | undefined,
+        updatedSince: args.updatedSince as string | undefined,
+        limit: args.limit as number | undefined,
+        cursor: args.cursor as string | undefined,
+        asOf: args.asOf as string | undefined,
+        includeMetadata: args.includeMetadata as boolean | undefined,
+        includeExpired: args.includeExpired as boolean | undefined,
+        includeSuperseded: args.includeSuperseded as boolean | undefined,
+      })) }] };
+    case "search_nodes":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.searchNodes(args.query as string, {
+        limit: args.limit as number | undefined,
+        offset: args.offset as number | undefined,
+        entityTypes: args.entityTypes as string[] | undefined,
+        relationTypes: args.relationTypes as string[] | undefined,
+        matchedObservationsOnly: args.matchedObservationsOnly as boolean | undefined,
+        properties: args.properties as Properties | undefined,
+        minConfidence: args.minConfidence as number | undefined,
+        sources: args.sources as string[] | undefined,
+        authors: args.authors as string[] | undefined,
+        tags: args.tags as string[] | undefined,
+        includeMetadata: args.includeMetadata as boolean | undefined,
+        includeExpired: args.includeExpired as boolean | undefined,
+        includeSuperseded: args.includeSuperseded as boolean | undefined,
+      }), null, 2) }] };
+    case "open_nodes":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.openNodes(args.names as string[], {
+        asOf: args.asOf as string | undefined,
+        includeMetadata: args.includeMetadata as boolean | undefined,
+        includeExpired: args.includeExpired as boolean | undefined,
+        includeSuperseded: args.includeSuperseded as boolean | undefined,
+      }), null, 2) }] };
+    case "export_graph":
+      return { content: [{ type: "text", text: serializeGraph(await manager.exportGraph(), parseFormat(args.format)) }] };
+    case "import_graph": {
+      const { graph, errors } = parseGraph(args.data as string, parseFormat(args.format));
+      const report = await manager.importGraph(graph, { dryRun: Boolean(args.dryRun) });
+      report.errors.push(...errors);
+      return { content: [{ type: "text", text: JSON.stringify(report, null, 2) }] };
+    }
+    case "list_namespaces":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.listNamespaces(principal?.namespace ? [principal.namespace] : undefined), null, 2) }] };
+    case "copy_entities":
+      if (principal) {
+        authorizeNamespace(principal, args.targetNamespace as string);
+      }
+      return { content: [{ type: "text", text: JSON.stringify(await manager.copyEntities(args.entityNames as string[], args.targetNamespace as string), null, 2) }] };
+    case "semantic_search":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.semanticSearch(args.query as string, {
+        limit: args.limit as number | undefined,
+        hybridWeight: args.hybridWeight as number | undefined,
+        minScore: args.minScore as number | undefined,
+      }), null, 2) }] };
+    case "get_neighbors":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.getNeighbors(args.name as string, {
+        direction: args.direction as TraversalDirection | undefined,
+        relationTypes: args.relationTypes as string[] | undefined,
+        depth: args.depth as number | undefined,
+        limit: args.limit as number | undefined,
+      }), null, 2) }] };
+    case "get_subgraph":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.getSubgraph(args.names as string[], {
+        direction: args.direction as TraversalDirection | undefined,
+        relationTypes: args.relationTypes as string[] | undefined,
+        depth: args.depth as number | undefined,
+        limit: args.limit as number | undefined,
+      }), null, 2) }] };
+    case "find_path":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.findPath(args.from as string, args.to as string, {
+        direction: args.direction as TraversalDirection | undefined,
+        relationTypes: args.relationTypes as string[] | undefined,
+        maxDepth: args.maxDepth as number | undefined,
+        maxPaths: args.maxPaths as number | undefined,
+      }), null, 2) }] };
+    case "get_entity_history":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.getEntityHistory(args.name as string, {
+        limit: args.limit as number | undefined,
+        since: args.since as string | undefined,
+      }), null, 2) }] };
+    case "list_trash":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.listTrash({ limit: args.limit as number | undefined }), null, 2) }] };
+    case "restore_entities":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.restoreEntities({
+        entityNames: args.entityNames as string[] | undefined,
+        observations: args.observations as { entityName: string; contents: string[] }[] | undefined,
+        relations: args.relations as Relation[] | undefined,
+      }), null, 2) }] };
+    case "purge_trash":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.purgeTrash({ olderThanDays: args.olderThanDays as number | undefined }), null, 2) }] };
+    case "rename_entity":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.renameEntity(args.oldName as string, args.newName as string), null, 2) }] };
+    case "merge_entities":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.mergeEntities(args.target as string, args.sources as string[]), null, 2) }] };
+    case "add_aliases":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.addAliases(args.aliases as { entityName: string; aliases: string[] }[]), null, 2) }] };
+    case "remove_aliases":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.removeAliases(args.aliases as { entityName: string; aliases: string[] }[]), null, 2) }] };
+    case "find_duplicates":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.findDuplicates({
+        entityTypes: args.entityTypes as string[] | undefined,
+        minScore: args.minScore as number | undefined,
+        limit: args.limit as number | undefined,
+      }), null, 2) }] };
+    case "list_schema":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.listSchema(), null, 2) }] };
+    case "define_schema":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.defineSchema({
+        entityTypes: args.entityTypes as EntityTypeDefinition[] | undefined,
+        relationTypes: args.relationTypes as RelationTypeDefinition[] | undefined,
+      }), null, 2) }] };
+    case "remove_schema_types":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.removeSchemaTypes({
+        entityTypes: args.entityTypes as string[] | undefined,
+        relationTypes: args.relationTypes as string[] | undefined,
+      }), null, 2) }] };
+    case "normalize_types":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.normalizeTypes({ dryRun: args.dryRun as boolean | undefined }), null, 2) }] };
+    case "set_properties":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.setProperties({
+        entities: args.entities as { name: string; properties: Properties }[] | undefined,
+        relations: args.relations as (Relation & { properties: Properties })[] | undefined,
+      }), null, 2) }] };
+    case "unset_properties":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.unsetProperties({
+        entities: args.entities as { name: string; keys: string[] }[] | undefined,
+        relations: args.relations as (Relation & { keys: string[] })[] | undefined,
+      }), null, 2) }] };
+    case "update_observation": {
+      const { id, ...changes } = args;
+      return { content: [{ type: "text", text: JSON.stringify(await manager.updateObservation(id as number, changes as ObservationUpdate), null, 2) }] };
+    }
+    case "supersede_observation":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.supersedeObservation(args.id as number, args.replacement as string | ObservationInput), null, 2) }] };
+    case "consolidate_entity":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.consolidateEntity(args.entityName as string, {
+        minAgeDays: args.minAgeDays as number | undefined,
+        dryRun: args.dryRun as boolean | undefined,
+      }), null, 2) }] };
+    case "list_retention_policies":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.listRetentionPolicies(), null, 2) }] };
+    case "set_retention_policies":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.setRetentionPolicies(args.policies as RetentionPolicy[]), null, 2) }] };
+    case "remove_retention_policies":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.removeRetentionPolicies(args.entityTypes as string[]), null, 2) }] };
+    case "apply_retention":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.applyRetention({ dryRun: args.dryRun as boolean | undefined }), null, 2) }] };
+    case "graph_stats":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.getGraphStats({ limit: args.limit as number | undefined }), null, 2) }] };
+    case "graph_analytics":
+      return { content: [{ type: "text", text: JSON.stringify(await manager.analyzeGraph({
+        centrality: args.centrality as CentralityMeasure | undefined,
+        relationTypes: args.relationTypes as string[] | undefined,
+        limit: args.limit as number | undefined,
+      }), null, 2) }] };
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
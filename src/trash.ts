@@ -0,0 +1,331 @@
+import { DatabaseConnection } from './database.js';
+import { Relation } from './types.js';
+import { AuditContext, applyAuditContext } from './history.js';
+import { recordAccess } from './importance.js';
+
+export interface TrashedEntity {
+  name: string;
+  entityType: string;
+  deletedAt: string;
+  // Observations and relations that went to the trash with the entity
+  observations: number;
+  relations: number;
+}
+
+export interface TrashedObservation {
+  entityName: string;
+  content: string;
+  deletedAt: string;
+}
+
+export interface TrashedRelation extends Relation {
+  deletedAt: string;
+}
+
+// Observations and relations are only listed here when they were deleted on their own
+export interface TrashListing {
+  entities: TrashedEntity[];
+  observations: TrashedObservation[];
+  relations: TrashedRelation[];
+}
+
+export interface RestoreRequest {
+  entityNames?: string[];
+  observations?: { entityName: string; contents: string[] }[];
+  relations?: Relation[];
+}
+
+export interface RestoreReport {
+  entities: string[];
+  observations: number;
+  relations: number;
+  // Items that could not be restored because a live entity or relation already takes their place
+  conflicts: string[];
+  notFound: string[];
+}
+
+export interface PurgeReport {
+  entities: number;
+  observations: number;
+  relations: number;
+}
+
+const DEFAULT_TRASH_LIMIT = 100;
+const MAX_TRASH_LIMIT = 1000;
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export class Trash {
+  private db: DatabaseConnection;
+  private namespace: string | null;
+  private audit: AuditContext;
+
+  // A null namespace covers every namespace (used by the retention job)
+  constructor(namespace: string | null, audit: AuditContext = {}) {
+    this.db = DatabaseConnection.getInstance();
+    this.namespace = namespace;
+    this.audit = audit;
+  }
+
+  async list(options: { limit?: number } = {}): Promise<TrashListing> {
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_TRASH_LIMIT, 1), MAX_TRASH_LIMIT);
+
+    const entities = await this.db.query(`
+      SELECT e.name, e.entity_type, to_json(e.deleted_at) #>> '{}' as deleted_at,
+             (SELECT COUNT(*) FROM observations o WHERE o.deleted_with_entity_id = e.id)::int as observation_count,
+             (SELECT COUNT(*) FROM relations r WHERE r.deleted_with_entity_id = e.id)::int as relation_count
+      FROM entities e
+      WHERE ($1::text IS NULL OR e.namespace = $1) AND e.deleted_at IS NOT NULL
+      ORDER BY e.deleted_at DESC, e.name
+      LIMIT $2
+    `, [this.namespace, limit]);
+
+    const observations = await this.db.query(`
+      SELECT e.name as entity_name, o.content, to_json(o.deleted_at) #>> '{}' as deleted_at
+      FROM observations o
+      JOIN entities e ON e.id = o.entity_id
+      WHERE ($1::text IS NULL OR e.namespace = $1) AND o.deleted_at IS NOT NULL AND o.deleted_with_entity_id IS NULL
+      ORDER BY o.deleted_at DESC, e.name, o.id
+      LIMIT $2
+    `, [this.namespace, limit]);
+
+    const relations = await this.db.query(`
+      SELECT ef.name as from_name, et.name as to_name, r.relation_type, to_json(r.deleted_at) #>> '{}' as deleted_at
+      FROM relations r
+      JOIN entities ef ON r.from_entity_id = ef.id
+      JOIN entities et ON r.to_entity_id = et.id
+      WHERE ($1::text IS NULL OR ef.namespace = $1) AND r.deleted_at IS NOT NULL AND r.deleted_with_entity_id IS NULL
+      ORDER BY r.deleted_at DESC, ef.name, et.name
+      LIMIT $2
+    `, [this.namespace, limit]);
+
+    return {
+      entities: entities.rows.map(row => ({
+        name: row.name,
+        entityType: row.entity_type,
+        deletedAt: row.deleted_at,
+        observations: row.observation_count,
+        relations: row.relation_count,
+      })),
+      observations: observations.rows.map(row => ({
+        entityName: row.entity_name,
+        content: row.content,
+        deletedAt: row.deleted_at,
+      })),
+      relations: relations.rows.map(row => ({
+        from: row.from_name,
+        to: row.to_name,
+        relationType: row.relation_type,
+        deletedAt: row.deleted_at,
+      })),
+    };
+  }
+
+  // Restores the most recently trashed entity of each name together with the observations
+  // and relations that were trashed with it. Relations whose other end is still in the
+  // trash stay there and come back when that entity is restored.
+  async restore(request: RestoreRequest): Promise<RestoreReport> {
+    if (this.namespace === null) {
+      throw new Error('Restoring requires a namespace');
+    }
+
+    const report: RestoreReport = { entities: [], observations: 0, relations: 0, conflicts: [], notFound: [] };
+    const restoredObservationIds: number[] = [];
+    const client = await this.db.getClient();
+
+    try {
+      await client.query('BEGIN');
+      await applyAuditContext(client, this.audit);
+
+      for (const name of request.entityNames ?? []) {
+        const trashed = await client.query(
+          'SELECT id FROM entities WHERE namespace = $1 AND name = $2 AND deleted_at IS NOT NULL ORDER BY deleted_at DESC LIMIT 1',
+          [this.namespace, name]
+        );
+        if (trashed.rows.length === 0) {
+          report.notFound.push(name);
+          continue;
+        }
+        const live = await client.query(`
+          SELECT 1 FROM entities WHERE namespace = $1 AND name = $2 AND deleted_at IS NULL
+          UNION ALL
+          SELECT 1 FROM entity_aliases a
+          JOIN entities e ON e.id = a.entity_id
+          WHERE a.namespace = $1 AND a.alias = $2 AND e.deleted_at IS NULL
+        `, [this.namespace, name]);
+        if (live.rows.length > 0) {
+          report.conflicts.push(`Entity ${name} already exists`);
+          continue;
+        }
+
+        const entityId = trashed.rows[0].id;
+        await client.query('UPDATE entities SET deleted_at = NULL WHERE id = $1', [entityId]);
+
+        const observations = await client.query(
+          'UPDATE observations SET deleted_at = NULL, deleted_with_entity_id = NULL WHERE deleted_with_entity_id = $1',
+          [entityId]
+        );
+        report.observations += observations.rowCount ?? 0;
+
+        const relations = await client.query(`
+          UPDATE relations r SET deleted_at = NULL, deleted_with_entity_id = NULL
+          WHERE r.deleted_with_entity_id = $1
+            AND NOT EXISTS (
+              SELECT 1 FROM entities e
+              WHERE e.id IN (r.from_entity_id, r.to_entity_id) AND e.deleted_at IS NOT NULL
+            )
+            AND NOT EXISTS (
+              SELECT 1 FROM relations l
+              WHERE l.from_entity_id = r.from_entity_id AND l.to_entity_id = r.to_entity_id
+                AND l.relation_type = r.relation_type AND l.deleted_at IS NULL
+            )
+        `, [entityId]);
+        report.relations += relations.rowCount ?? 0;
+
+        // Hand relations to their other, still trashed end; anything left was recreated
+        // while in the trash and stays there as a separately deleted relation
+        await client.query(`
+          UPDATE relations r
+          SET deleted_with_entity_id = CASE WHEN r.from_entity_id = $1 THEN r.to_entity_id ELSE r.from_entity_id END
+          WHERE r.deleted_with_entity_id = $1
+            AND EXISTS (
+              SELECT 1 FROM entities e
+              WHERE e.id = CASE WHEN r.from_entity_id = $1 THEN r.to_entity_id ELSE r.from_entity_id END
+                AND e.deleted_at IS NOT NULL
+            )
+        `, [entityId]);
+        await client.query('UPDATE relations SET deleted_with_entity_id = NULL WHERE deleted_with_entity_id = $1', [entityId]);
+
+        report.entities.push(name);
+      }
+
+      for (const { entityName, contents } of request.observations ?? []) {
+        const restored = await client.query(`
+          UPDATE observations SET deleted_at = NULL, deleted_with_entity_id = NULL
+          WHERE id IN (
+            SELECT DISTINCT ON (o.content) o.id
+            FROM observations o
+            JOIN entities e ON e.id = o.entity_id
+            WHERE e.namespace = $1 AND e.name = $2 AND e.deleted_at IS NULL
+              AND o.content = ANY($3) AND o.deleted_at IS NOT NULL
+              AND NOT EXISTS (
+                SELECT 1 FROM observations l
+                WHERE l.entity_id = o.entity_id AND l.content = o.content AND l.deleted_at IS NULL
+              )
+            ORDER BY o.content, o.deleted_at DESC
+          )
+          RETURNING id, content
+        `, [this.namespace, entityName, contents]);
+        report.observations += restored.rows.length;
+        restoredObservationIds.push(...restored.rows.map(row => row.id));
+
+        const restoredContents = new Set(restored.rows.map(row => row.content));
+        for (const content of contents.filter(c => !restoredContents.has(c))) {
+          report.notFound.push(`Observation "${content}" of ${entityName}`);
+        }
+      }
+
+      for (const relation of request.relations ?? []) {
+        const restored = await client.query(`
+          UPDATE relations SET deleted_at = NULL, deleted_with_entity_id = NULL
+          WHERE id = (
+            SELECT r.id
+            FROM relations r
+            JOIN entities ef ON r.from_entity_id = ef.id
+            JOIN entities et ON r.to_entity_id = et.id
+            WHERE ef.namespace = $1 AND ef.name = $2 AND et.name = $3 AND r.relation_type = $4
+              AND ef.deleted_at IS NULL AND et.deleted_at IS NULL AND r.deleted_at IS NOT NULL
+              AND NOT EXISTS (
+                SELECT 1 FROM relations l
+                WHERE l.from_entity_id = r.from_entity_id AND l.to_entity_id = r.to_entity_id
+                  AND l.relation_type = r.relation_type AND l.deleted_at IS NULL
+              )
+            ORDER BY r.deleted_at DESC
+            LIMIT 1
+          )
+        `, [this.namespace, relation.from, relation.to, relation.relationType]);
+
+        if (restored.rowCount) {
+          report.relations++;
+        } else {
+          report.notFound.push(`Relation ${relation.from} -[${relation.relationType}]-> ${relation.to}`);
+        }
+      }
+
+      await client.query('COMMIT');
+      // Restoring counts as a read, so retention does not archive the observations again
+      await recordAccess(client, [], restoredObservationIds);
+      return report;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Permanently removes trashed rows deleted more than `olderThanDays` days ago, or the
+  // whole trash without it. Removing an entity also removes what was trashed with it, and
+  // removing an observation the history it superseded (migration 013).
+  async purge(options: { olderThanDays?: number } = {}): Promise<PurgeReport> {
+    const olderThanDays = Math.max(options.olderThanDays ?? 0, 0);
+    const client = await this.db.getClient();
+
+    try {
+      await client.query('BEGIN');
+      await applyAuditContext(client, this.audit);
+
+      const relations = await client.query(`
+        DELETE FROM relations r
+        USING entities e
+        WHERE e.id = r.from_entity_id AND ($1::text IS NULL OR e.namespace = $1)
+          AND r.deleted_at IS NOT NULL AND r.deleted_at <= NOW() - $2::float * interval '1 day'
+      `, [this.namespace, olderThanDays]);
+
+      const observations = await client.query(`
+        DELETE FROM observations o
+        USING entities e
+        WHERE e.id = o.entity_id AND ($1::text IS NULL OR e.namespace = $1)
+          AND o.deleted_at IS NOT NULL AND o.deleted_at <= NOW() - $2::float * interval '1 day'
+      `, [this.namespace, olderThanDays]);
+
+      const entities = await client.query(`
+        DELETE FROM entities
+        WHERE ($1::text IS NULL OR namespace = $1)
+          AND deleted_at IS NOT NULL AND deleted_at <= NOW() - $2::float * interval '1 day'
+      `, [this.namespace, olderThanDays]);
+
+      await client.query('COMMIT');
+      return {
+        entities: entities.rowCount ?? 0,
+        observations: observations.rowCount ?? 0,
+        relations: relations.rowCount ?? 0,
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+// Purges trash older than the retention period in every namespace, now and then hourly
+export function startTrashPurger(retentionDays: number): NodeJS.Timeout {
+  const trash = new Trash(null, { tool: 'trash-retention' });
+  const purge = async () => {
+    try {
+      const report = await trash.purge({ olderThanDays: retentionDays });
+      if (report.entities + report.observations + report.relations > 0) {
+        console.error(`Purged ${report.entities} entities, ${report.observations} observations and ${report.relations} relations from the trash`);
+      }
+    } catch (error) {
+      console.error('Trash purge failed:', error);
+    }
+  };
+
+  void purge();
+  const timer = setInterval(purge, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,201 @@
+// Interface definitions
+
+// Structured facts such as dates, URLs or roles, stored as a JSONB object
+export type Properties = Record<string, unknown>;
+
+export interface Entity {
+  name: string;
+  entityType: string;
+  observations: string[];
+  // The same observations with their IDs, timestamps and metadata, when requested
+  observationDetails?: ObservationDetail[];
+  properties?: Properties;
+}
+
+// Where an observation came from and how far it can be trusted; every field is optional
+export interface ObservationMetadata {
+  // A reference to the conversation, document or URL the observation was taken from
+  source?: string;
+  // Between 0 and 1
+  confidence?: number;
+  // The person or agent that asserted it
+  author?: string;
+  tags?: string[];
+  // ISO 8601 timestamp after which the observation is hidden from reads by default
+  validUntil?: string;
+}
+
+export interface ObservationInput extends ObservationMetadata {
+  content: string;
+}
+
+// An observation as returned by reads. The ID stays the same for the observation's lifetime.
+export interface ObservationDetail extends ObservationInput {
+  id: number;
+  createdAt?: string;
+  // The observation that replaced this one through supersede_observation
+  supersededBy?: number;
+}
+
+// Fields left out are kept; null clears a metadata field
+export type ObservationUpdate = { content?: string } & { [K in keyof ObservationMetadata]?: ObservationMetadata[K] | null };
+
+// Observations are given as plain strings or as objects carrying metadata
+export interface NewEntity extends Omit<Entity, 'observations' | 'observationDetails'> {
+  observations: (string | ObservationInput)[];
+}
+
+export interface Relation {
+  from: string;
+  to: string;
+  relationType: string;
+  properties?: Properties;
+}
+
+// How writes treat items that already exist, either stored or given by an earlier item of
+// the same call: `skip` leaves them as they are, `merge` adds what is new to them and `fail`
+// reports them as errors. In `fail` mode any error leaves the whole call unwritten.
+export type WriteMode = 'skip' | 'merge' | 'fail';
+
+export interface WriteOptions {
+  mode?: WriteMode;
+}
+
+export interface RelationWriteOptions extends WriteOptions {
+  // Create endpoints that do not resolve to an entity instead of failing the relation
+  createMissingEntities?: boolean;
+  // Type of the entities created that way (default: unknown)
+  missingEntityType?: string;
+}
+
+export type WriteStatus = 'created' | 'merged' | 'deleted' | 'skipped' | 'error';
+
+// The outcome of one item of a write; results come in the order of the items
+export interface WriteItemResult {
+  status: WriteStatus;
+  // Why the item was skipped, or what is wrong with it
+  reason?: string;
+}
+
+export interface EntityWriteResult extends WriteItemResult {
+  // The stored name; the given one when the item failed
+  name: string;
+  entityType?: string;
+  // Observations a merge added
+  addedObservations?: string[];
+}
+
+export interface RelationWriteResult extends WriteItemResult, Relation {
+  // Endpoints created for the relation with createMissingEntities
+  createdEntities?: string[];
+}
+
+export interface ObservationWriteResult extends WriteItemResult {
+  entityName: string;
+  addedObservations: string[];
+  // IDs of the added observations, in the same order
+  observationIds: number[];
+  // Existing observations a merge added metadata to
+  mergedObservations?: string[];
+}
+
+export interface ObservationDeletionResult extends WriteItemResult {
+  entityName: string;
+  deletedObservations: string[];
+}
+
+export interface KnowledgeGraph {
+  entities: Entity[];
+  relations: Relation[];
+}
+
+// Bulk export/import shape: the same graph, plus the timestamps stored alongside it
+export interface TimestampedObservation extends ObservationInput {
+  createdAt?: string;
+  // Content of the observation that replaced this one, so supersession survives the round trip
+  supersededBy?: string;
+}
+
+export interface GraphSnapshotEntity {
+  name: string;
+  entityType: string;
+  observations: TimestampedObservation[];
+  createdAt?: string;
+  updatedAt?: string;
+  properties?: Properties;
+}
+
+export interface GraphSnapshotRelation extends Relation {
+  createdAt?: string;
+}
+
+export interface GraphSnapshot {
+  entities: GraphSnapshotEntity[];
+  relations: GraphSnapshotRelation[];
+}
+
+export interface ObservationReadOptions {
+  // Return observationDetails alongside the observation contents
+  includeMetadata?: boolean;
+  // Include observations whose validUntil has passed
+  includeExpired?: boolean;
+  // Include superseded observations; observationDetails then link each one to its replacement
+  includeSuperseded?: boolean;
+}
+
+export interface SearchOptions extends ObservationReadOptions {
+  limit?: number;
+  offset?: number;
+  entityTypes?: string[];
+  relationTypes?: string[];
+  // Only entities whose properties contain these key/value pairs
+  properties?: Properties;
+  // Return only the observations that matched instead of every observation
+  matchedObservationsOnly?: boolean;
+  // Only observations meeting these filters are searched and returned, and only entities
+  // with at least one of them match. Observations without a confidence are not filtered out.
+  minConfidence?: number;
+  sources?: string[];
+  authors?: string[];
+  // Observations carrying any of these tags
+  tags?: string[];
+}
+
+export interface SearchResultEntity extends Entity {
+  score: number;
+  // Reads of the entity, decayed over time; part of the score
+  importance: number;
+  highlights: string[];
+}
+
+export interface SearchResult {
+  entities: SearchResultEntity[];
+  relations: Relation[];
+  pagination: {
+    offset: number;
+    limit: number;
+    total: number;
+    nextOffset: number | null;
+  };
+}
+
+export interface MergeReport {
+  target: string;
+  sources: string[];
+  observations: {
+    moved: number;
+    // Observations the target already had; they go to the trash with their source entity
+    duplicates: number;
+  };
+  relations: {
+    // As they read after the merge
+    repointed: Relation[];
+    // As they read before the merge; dropped relations go to the trash with their source entity
+    duplicates: Relation[];
+    selfLoops: Relation[];
+  };
+  // Source names and aliases that now resolve to the target
+  aliases: string[];
+  // Property keys the target took over from the sources
+  properties: string[];
+}
@@ -0,0 +1,84 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { AuthError, Authenticator, hasScope, isSameKey, loadApiKeys, loadApiKeysFile, parseApiKeysEnv } from '../src/auth.js';
+import { requiredScope } from '../src/tools.js';
+
+const tempDirs: string[] = [];
+
+async function keyFile(contents: unknown): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'memory-keys-'));
+  tempDirs.push(dir);
+  const file = path.join(dir, 'keys.json');
+  await fs.writeFile(file, JSON.stringify(contents));
+  return file;
+}
+
+describe('auth', () => {
+  afterAll(() => Promise.all(tempDirs.map(dir => fs.rm(dir, { recursive: true, force: true }))));
+
+  const authenticator = new Authenticator([
+    ...parseApiKeysEnv('reader-key:read,writer-key:write:project-a'),
+  ]);
+
+  it('authenticates bearer tokens and API key headers', () => {
+    expect(authenticator.authenticate({ authorization: 'Bearer reader-key' })).toMatchObject({ name: 'env-key-1', scopes: ['read'], namespace: undefined });
+    expect(authenticator.authenticate({ 'x-api-key': 'writer-key' })).toMatchObject({ scopes: ['write'], namespace: 'project-a' });
+    expect(() => authenticator.authenticate({})).toThrow(AuthError);
+    expect(() => authenticator.authenticate({ authorization: 'Bearer nope' })).toThrow('Invalid credentials');
+  });
+
+  it('rejects environment entries it would have to cut short', () => {
+    expect(() => parseApiKeysEnv('secret:write:team:a')).toThrow('more than three');
+    expect(parseApiKeysEnv('secret:read+write')).toMatchObject([{ scopes: ['read', 'write'], namespace: undefined }]);
+  });
+
+  it('lets each scope include the ones below it', () => {
+    const writer = { name: 'w', scopes: ['write' as const] };
+    expect(hasScope(writer, requiredScope('read_graph'))).toBe(true);
+    expect(hasScope(writer, requiredScope('create_entities'))).toBe(true);
+    expect(hasScope(writer, requiredScope('purge_trash'))).toBe(false);
+    expect(hasScope(writer, requiredScope('copy_entities'))).toBe(false);
+    // Tools without an explicit scope need admin
+    expect(requiredScope('no_such_tool')).toBe('admin');
+  });
+
+  it('pins bound keys to their namespace', () => {
+    const principal = authenticator.authenticate({ 'x-api-key': 'writer-key' });
+    expect(authenticator.resolveNamespace(principal, undefined, 'default')).toBe('project-a');
+    expect(authenticator.resolveNamespace(principal, 'project-a', 'default')).toBe('project-a');
+    expect(() => authenticator.resolveNamespace(principal, 'project-b', 'default')).toThrow(AuthError);
+  });
+
+  it('loads key files and rejects malformed entries', async () => {
+    const keys = await loadApiKeysFile(await keyFile([
+      { name: 'ci', key: 'secret', scopes: ['write'], namespace: 'ci' },
+      { keySha256: 'a'.repeat(64) },
+    ]));
+    expect(keys.map(k => [k.name, k.scopes, k.namespace])).toEqual([['ci', ['write'], 'ci'], ['file-key-2', ['read'], undefined]]);
+
+    await expect(loadApiKeysFile(await keyFile({ key: 'secret' }))).rejects.toThrow('must contain a JSON array');
+    await expect(loadApiKeysFile(await keyFile(['secret']))).rejects.toThrow('must be an object');
+    await expect(loadApiKeysFile(await keyFile([{ name: 'x' }]))).rejects.toThrow('needs a "key" or a hex "keySha256"');
+    await expect(loadApiKeysFile(await keyFile([{ key: 'k', scopes: ['root'] }]))).rejects.toThrow('unknown scope');
+  });
+
+  it('tells keys apart by the key, not by the name', async () => {
+    const file = await keyFile([{ name: 'env-key-1', key: 'other-key', scopes: ['admin'] }]);
+    await expect(loadApiKeys({ keysEnv: 'reader-key:read', keysFile: file })).rejects.toThrow('Duplicate API key name env-key-1');
+    await expect(loadApiKeys({ keysFile: await keyFile([{ name: 'ci', key: 'a' }, { name: 'ci', key: 'b' }]) }))
+      .rejects.toThrow('Duplicate API key name ci');
+
+    // Keys built without the loader can still share a name; sessions compare the keys
+    const [first] = parseApiKeysEnv('first-key:read');
+    const [second] = parseApiKeysEnv('second-key:admin');
+    const shared = new Authenticator([first, { ...second, name: first.name }]);
+    const reader = shared.authenticate({ 'x-api-key': 'first-key' });
+    const admin = shared.authenticate({ 'x-api-key': 'second-key' });
+    expect(reader.name).toBe(admin.name);
+    expect(isSameKey(reader, admin)).toBe(false);
+    expect(isSameKey(reader, shared.authenticate({ authorization: 'Bearer first-key' }))).toBe(true);
+    expect(isSameKey(reader, { name: 'anonymous', scopes: ['admin'] })).toBe(false);
+  });
+});
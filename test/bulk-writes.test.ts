@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { insertEntities, insertObservations } from '../src/bulk-inserts.js';
+import { runScript, testManager, testNamespace, useDatabase } from './helpers.js';
+
+const db = useDatabase();
+
+describe('bulk writes', () => {
+  it('returns one result per item, in order, across batches of many items', async () => {
+    const manager = testManager('bulk');
+    const names = Array.from({ length: 300 }, (_, i) => `entity-${String(i).padStart(3, '0')}`);
+    await manager.createEntities(names.slice(0, 100).map(name => ({ name, entityType: 'node', observations: ['first'] })));
+
+    const created = await manager.createEntities(names.map(name => ({ name, entityType: 'node', observations: ['first', 'second'] })));
+    expect(created.map(r => r.name)).toEqual(names);
+    expect(created.filter(r => r.status === 'created')).toHaveLength(200);
+    expect(created.slice(0, 100).every(r => r.status === 'skipped')).toBe(true);
+
+    const added = await manager.addObservations(names.map(name => ({ entityName: name, contents: ['second', 'third', 'fourth'] })));
+    expect(added[0]).toMatchObject({ entityName: 'entity-000', status: 'created', addedObservations: ['second', 'third', 'fourth'] });
+    expect(added[299]).toMatchObject({ entityName: 'entity-299', status: 'created', addedObservations: ['third', 'fourth'] });
+
+    // The returned IDs are those of the added observations, in the order given
+    const [last] = (await manager.openNodes(['entity-299'], { includeMetadata: true })).entities;
+    expect(last.observationDetails!.map(o => [o.content, o.id]).slice(2))
+      .toEqual([['third', added[299].observationIds[0]], ['fourth', added[299].observationIds[1]]]);
+
+    const relations = names.map((name, i) => ({ from: name, to: names[(i + 1) % names.length], relationType: 'next' }));
+    const linked = await manager.createRelations([...relations, relations[0]]);
+    expect(linked.map(r => r.status)).toEqual([...relations.map(() => 'created'), 'skipped']);
+    expect((await manager.createRelations(relations)).every(r => r.status === 'skipped')).toBe(true);
+  });
+
+  it('leaves rows that conflict out of what the set-based inserts return', async () => {
+    const manager = testManager('bulk-inserts');
+    await manager.createEntities([{ name: 'Taken', entityType: 'node', observations: [] }]);
+
+    const client = await db.getClient();
+    try {
+      await client.query('BEGIN');
+      const ids = await insertEntities(client, manager.namespace, [
+        { name: 'Taken', entityType: 'node' },
+        { name: 'Fresh', entityType: 'node' },
+      ]);
+      expect([...ids.keys()]).toEqual(['Fresh']);
+
+      const observationIds = await insertObservations(client, ['b', 'a', 'c'].map(content => ({ entityId: ids.get('Fresh')!, observation: { content } })));
+      const rows = await client.query('SELECT id, content FROM observations WHERE id = ANY($1)', [observationIds]);
+      const contentById = new Map(rows.rows.map(row => [row.id, row.content]));
+      expect(observationIds.map(id => contentById.get(id))).toEqual(['b', 'a', 'c']);
+    } finally {
+      await client.query('ROLLBACK');
+      client.release();
+    }
+  });
+
+  it('benchmarks the writes in a scratch namespace and empties it again', async () => {
+    const namespace = testNamespace('benchmark');
+    const { code, stdout, stderr } = await runScript('benchmark-writes', ['--namespace', namespace, '--entities', '20', '--observations', '2', '--batch-size', '7']);
+    expect(code, stderr).toBe(0);
+    expect(stdout).toMatch(/create_entities\s+20 items .* \(20 created\)/);
+    expect(stdout).toMatch(/create_relations\s+40 items/);
+    expect((await db.query('SELECT COUNT(*)::int AS count FROM entities WHERE namespace = $1', [namespace])).rows[0].count).toBe(0);
+
+    const manager = testManager('benchmark-taken');
+    await manager.createEntities([{ name: 'Keep me', entityType: 'node', observations: [] }]);
+    const refused = await runScript('benchmark-writes', ['--namespace', manager.namespace, '--entities', '1']);
+    expect(refused.code).toBe(1);
+    expect(refused.stderr).toContain('is not empty');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { LocalSummarizer, createSummarizer } from '../src/summarizers.js';
+import { testManager, useDatabase } from './helpers.js';
+
+const db = useDatabase();
+
+describe('summarizers', () => {
+  it('collapses repeated and near-duplicate facts, keeping the later wording', async () => {
+    const summary = await new LocalSummarizer().summarize({
+      name: 'Ada',
+      entityType: 'person',
+      observations: [
+        { content: 'Summary:\n- likes tea\n- has two cats\n  named Tom and Jerry', summary: true },
+        { content: 'Likes  TEA', summary: false },
+        { content: 'moved to Oslo in May 2020 with family', summary: false },
+        { content: 'moved to Oslo in May 2020 with her family', summary: false },
+        { content: 'plays chess', summary: false },
+      ],
+    });
+    expect(summary).toBe('Summary:\n- has two cats\n  named Tom and Jerry\n- Likes  TEA\n- moved to Oslo in May 2020 with her family\n- plays chess');
+  });
+
+  it('is configured from the environment', () => {
+    expect(createSummarizer({})?.id).toBe('local');
+    expect(createSummarizer({ MEMORY_SUMMARIZER_PROVIDER: 'none' })).toBeNull();
+    expect(createSummarizer({ MEMORY_SUMMARIZER_PROVIDER: 'http', MEMORY_SUMMARIZER_URL: 'http://x', MEMORY_SUMMARIZER_MODEL: 'm' })?.id).toBe('http:m');
+    expect(() => createSummarizer({ MEMORY_SUMMARIZER_PROVIDER: 'http' })).toThrow('MEMORY_SUMMARIZER_URL');
+    expect(() => createSummarizer({ MEMORY_SUMMARIZER_PROVIDER: 'magic' })).toThrow('Unknown summarizer');
+  });
+});
+
+describe('consolidate_entity', () => {
+  it('replaces old observations with a summary that supersedes them', async () => {
+    const manager = testManager('consolidate');
+    await manager.importGraph({
+      entities: [{
+        name: 'Ada',
+        entityType: 'person',
+        observations: [
+          { content: 'likes tea', createdAt: '2024-01-01T00:00:00Z' },
+          { content: 'Likes tea', createdAt: '2024-01-02T00:00:00Z', source: 'chat' },
+          { content: 'plays chess', createdAt: '2024-01-03T00:00:00Z' },
+          { content: 'is travelling', createdAt: '2024-01-04T00:00:00Z', validUntil: '2999-01-01T00:00:00Z' },
+        ],
+      }],
+      relations: [],
+    });
+    await manager.addObservations([{ entityName: 'Ada', contents: ['started a new job'] }]);
+
+    const preview = await manager.consolidateEntity('Ada', { minAgeDays: 30, dryRun: true });
+    expect(preview).toMatchObject({ entityName: 'Ada', summarizer: 'local', consolidated: 3, summary: { content: 'Summary:\n- Likes tea\n- plays chess' } });
+    expect((await manager.openNodes(['Ada'])).entities[0].observations).toHaveLength(5);
+
+    const report = await manager.consolidateEntity('Ada', { minAgeDays: 30 });
+    expect(report.summary).toMatchObject({ content: 'Summary:\n- Likes tea\n- plays chess', source: 'consolidation:local', tags: ['consolidated'] });
+    // Recent observations and those that expire on their own stay as they are
+    expect((await manager.openNodes(['Ada'])).entities[0].observations)
+      .toEqual(['is travelling', 'started a new job', 'Summary:\n- Likes tea\n- plays chess']);
+    const history = (await manager.openNodes(['Ada'], { includeSuperseded: true })).entities[0].observationDetails!;
+    expect(history.filter(o => o.supersededBy === report.summary!.id).map(o => o.content)).toEqual(['likes tea', 'Likes tea', 'plays chess']);
+
+    // The earlier summary is folded into the next one, however recent it is
+    const next = await manager.consolidateEntity('Ada');
+    expect(next).toMatchObject({ consolidated: 2, summary: { content: 'Summary:\n- started a new job\n- Likes tea\n- plays chess' } });
+    expect(await manager.consolidateEntity('Ada')).toMatchObject({ consolidated: 0, summary: null });
+    await expect(manager.consolidateEntity('Nobody')).rejects.toThrow('Entity with name Nobody not found');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { testManager, useDatabase } from './helpers.js';
+
+const db = useDatabase();
+
+describe('find_duplicates', () => {
+  it('clusters entities by name, shared observations and shared neighbours', async () => {
+    const manager = testManager('duplicates');
+    await manager.createEntities([
+      { name: 'Jane Doe', entityType: 'person', observations: ['engineer', 'lives in Oslo'] },
+      { name: 'jane-doe', entityType: 'person', observations: ['Lives in Oslo '] },
+      { name: 'Michael Chen', entityType: 'person', observations: ['plays the cello', 'allergic to nuts'] },
+      { name: 'Mick', entityType: 'person', observations: ['Plays the cello', 'allergic to nuts'] },
+      { name: 'Acme', entityType: 'company', observations: [] },
+      { name: 'Zed', entityType: 'person', observations: ['writes poetry'] },
+    ]);
+    await manager.createRelations([{ from: 'Jane Doe', to: 'Acme', relationType: 'works_at' }]);
+
+    const report = await manager.findDuplicates();
+    expect(report.truncated).toBe(false);
+    expect(report.clusters.map(c => [c.target, c.sources])).toEqual([['Jane Doe', ['jane-doe']], ['Michael Chen', ['Mick']]]);
+
+    const [jane, michael] = report.clusters;
+    expect(jane.entities).toEqual([
+      { name: 'Jane Doe', entityType: 'person', observations: 2, relations: 1 },
+      { name: 'jane-doe', entityType: 'person', observations: 1, relations: 0 },
+    ]);
+    // Names differing only in case and punctuation count as the same name
+    expect(jane.evidence[0]).toMatchObject({ nameSimilarity: 1, observationOverlap: 0.5, sharedObservations: ['lives in Oslo'] });
+    expect(michael.evidence[0]).toMatchObject({ observationOverlap: 1, sharedObservations: ['plays the cello', 'allergic to nuts'] });
+    expect(michael.score).toBeGreaterThanOrEqual(0.7);
+
+    expect((await manager.findDuplicates({ minScore: 0.9 })).clusters.map(c => c.target)).toEqual(['Jane Doe']);
+    expect(await manager.findDuplicates({ limit: 1 })).toMatchObject({ clusters: [{ target: 'Jane Doe' }], truncated: true });
+    expect((await manager.findDuplicates({ entityTypes: ['company'] })).clusters).toEqual([]);
+
+    // A cluster's target and sources can be passed to merge_entities as they are
+    await manager.mergeEntities(jane.target, jane.sources);
+    expect((await manager.findDuplicates()).clusters.map(c => c.target)).toEqual(['Michael Chen']);
+  });
+
+  it('pairs entities that share neighbours', async () => {
+    const manager = testManager('duplicates-neighbors');
+    await manager.createEntities(['Team A', 'Team B', 'Ann', 'Ben', 'Cal', 'Other'].map(name => ({ name, entityType: 'node', observations: [] })));
+    await manager.createRelations(['Ann', 'Ben', 'Cal'].flatMap(member => [
+      { from: member, to: 'Team A', relationType: 'member_of' },
+      { from: member, to: 'Team B', relationType: 'member_of' },
+    ]));
+    await manager.createRelations([{ from: 'Other', to: 'Ann', relationType: 'knows' }]);
+
+    const [cluster] = (await manager.findDuplicates({ minScore: 0.3 })).clusters;
+    expect(cluster.evidence.find(e => e.entities.includes('Team A') && e.entities.includes('Team B')))
+      .toMatchObject({ neighborOverlap: 1, sharedNeighbors: ['Ann', 'Ben', 'Cal'] });
+  });
+});
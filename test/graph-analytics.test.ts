@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { testManager, useDatabase } from './helpers.js';
+
+const db = useDatabase();
+
+describe('graph analytics', () => {
+  it('computes stats and centrality', async () => {
+    const manager = testManager('analytics');
+    await manager.createEntities([
+      { name: 'Hub', entityType: 'team', observations: ['central'] },
+      { name: 'A', entityType: 'person', observations: [] },
+      { name: 'B', entityType: 'person', observations: [] },
+      { name: 'Loner', entityType: 'person', observations: [] },
+    ]);
+    await manager.createRelations([
+      { from: 'A', to: 'Hub', relationType: 'member_of' },
+      { from: 'B', to: 'Hub', relationType: 'member_of' },
+      { from: 'A', to: 'B', relationType: 'knows' },
+    ]);
+
+    const stats = await manager.getGraphStats();
+    expect(stats).toMatchObject({
+      entities: 4,
+      relations: 3,
+      observations: 1,
+      maxDegree: 2,
+      orphans: { count: 1, names: ['Loner'] },
+      withoutObservations: { count: 3, names: ['A', 'B', 'Loner'] },
+      components: { count: 2 },
+    });
+
+    const analytics = await manager.analyzeGraph({ centrality: 'degree', relationTypes: ['member_of'] });
+    expect(analytics.centrality.entities[0]).toMatchObject({ name: 'Hub', degree: 2 });
+    await expect(manager.analyzeGraph({ centrality: 'fame' as never })).rejects.toThrow();
+  });
+
+  it('recomputes cached results after a change or an expiry', async () => {
+    const manager = testManager('analytics-cache');
+    await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+
+    const first = await manager.getGraphStats();
+    expect(await manager.getGraphStats()).toEqual(first);
+
+    const now = (await db.query('SELECT EXTRACT(EPOCH FROM clock_timestamp()) * 1000 AS now')).rows[0].now;
+    const validUntil = new Date(Number(now) + 1500).toISOString();
+    await manager.addObservations([{ entityName: 'Alice', contents: [{ content: 'is on call', validUntil }] }]);
+    const changed = await manager.getGraphStats();
+    expect(changed).toMatchObject({ observations: 1, withoutObservations: { count: 0 } });
+    expect(changed.computedAt).not.toBe(first.computedAt);
+
+    // Nothing is logged when the observation lapses; the cache has to notice anyway
+    await new Promise(resolve => setTimeout(resolve, 2000));
+    expect(await manager.getGraphStats()).toMatchObject({ observations: 0, withoutObservations: { count: 1 } });
+  });
+});
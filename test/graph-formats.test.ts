@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { GRAPH_FORMATS, parseGraph, serializeGraph } from '../src/graph-formats.js';
+import { GraphSnapshot } from '../src/types.js';
+
+const snapshot: GraphSnapshot = {
+  entities: [
+    {
+      name: 'Alice & "Al"',
+      entityType: 'person',
+      observations: [
+        { content: 'lives in Oslo', createdAt: '2024-01-01T00:00:00.000Z', supersededBy: 'lives in Bergen' },
+        { content: 'lives in Bergen', source: 'chat', confidence: 0.5, tags: ['home'], validUntil: '2030-01-01T00:00:00Z' },
+      ],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-02-01T00:00:00.000Z',
+      properties: { team: 'a' },
+    },
+    { name: 'Bob', entityType: 'person', observations: [] },
+  ],
+  relations: [{ from: 'Alice & "Al"', to: 'Bob', relationType: 'knows', createdAt: '2024-01-02T00:00:00.000Z', properties: { since: 2020 } }],
+};
+
+describe('graph formats', () => {
+  it.each(GRAPH_FORMATS)('round-trips %s', format => {
+    const parsed = parseGraph(serializeGraph(snapshot, format), format);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.graph).toEqual(JSON.parse(JSON.stringify(snapshot)));
+  });
+
+  it('rejects JSON-LD that is not a graph', () => {
+    expect(() => parseGraph('{"name": "Alice"}', 'jsonld')).toThrow('no @graph array');
+    expect(() => parseGraph('"Alice"', 'jsonld')).toThrow('no @graph array');
+    expect(() => parseGraph('[{"@type": "Entity", "name": "Alice"}]', 'jsonld')).toThrow('requires string "name" and "entityType"');
+    expect(() => parseGraph('[{"@type": "Relation", "relationType": "knows", "from": 1, "to": "x"}]', 'jsonld'))
+      .toThrow('Relation endpoint must be an entity @id');
+    expect(() => parseGraph('[{"@type": "Entity", "name": "A", "entityType": "t", "observations": [1]}]', 'jsonld'))
+      .toThrow('Observations of A must be strings');
+  });
+
+  it('validates observation metadata', () => {
+    const entity = (observations: unknown[]) => JSON.stringify([{ '@type': 'Entity', name: 'A', entityType: 't', observations }]);
+    expect(parseGraph(entity(['plain', { content: 'dated', createdAt: '2024-01-01T00:00:00Z', tags: [] }]), 'jsonld').graph.entities[0].observations)
+      .toEqual([{ content: 'plain' }, { content: 'dated', createdAt: '2024-01-01T00:00:00Z' }]);
+    expect(() => parseGraph(entity([{ content: 'x', confidence: 2 }]), 'jsonld')).toThrow('confidence');
+    expect(() => parseGraph(entity([{ content: 'x', validUntil: 'soon' }]), 'jsonld')).toThrow('Invalid validUntil');
+  });
+
+  it('reports bad JSONL lines and keeps the rest', () => {
+    const data = [
+      '{"type": "entity", "name": "Alice", "entityType": "person", "observations": ["likes tea"]}',
+      'not json',
+      '{"type": "relation", "from": "Alice"}',
+    ].join('\n');
+    const parsed = parseGraph(data, 'jsonl');
+    expect(parsed.graph.entities.map(entity => entity.name)).toEqual(['Alice']);
+    expect(parsed.errors.map(error => error.line)).toEqual([2, 3]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { TraversalDirection } from '../src/graph-traversal.js';
+import { testManager, useDatabase } from './helpers.js';
+
+const db = useDatabase();
+
+// A has two shortest routes to D, and E leads back to A
+async function diamond(label: string) {
+  const manager = testManager(label);
+  await manager.createEntities(['A', 'B', 'C', 'D', 'E'].map(name => ({ name, entityType: 'node', observations: [`${name} observation`] })));
+  await manager.createRelations([
+    { from: 'A', to: 'B', relationType: 'knows' },
+    { from: 'A', to: 'C', relationType: 'knows' },
+    { from: 'B', to: 'D', relationType: 'knows' },
+    { from: 'C', to: 'D', relationType: 'knows' },
+    { from: 'D', to: 'E', relationType: 'manages' },
+    { from: 'E', to: 'A', relationType: 'knows' },
+  ]);
+  return manager;
+}
+
+describe('graph traversal', () => {
+  it('finds neighbors by distance and direction', async () => {
+    const manager = await diamond('neighbors');
+
+    const near = await manager.getNeighbors('A');
+    expect(near.neighbors).toEqual([
+      { name: 'B', entityType: 'node', distance: 1 },
+      { name: 'C', entityType: 'node', distance: 1 },
+      { name: 'E', entityType: 'node', distance: 1 },
+    ]);
+
+    const outgoing = await manager.getNeighbors('A', { direction: 'outgoing', depth: 2 });
+    expect(outgoing.neighbors.map(n => [n.name, n.distance])).toEqual([['B', 1], ['C', 1], ['D', 2]]);
+    expect(outgoing.relations).toEqual([
+      { from: 'A', to: 'B', relationType: 'knows' },
+      { from: 'A', to: 'C', relationType: 'knows' },
+      { from: 'B', to: 'D', relationType: 'knows' },
+      { from: 'C', to: 'D', relationType: 'knows' },
+    ]);
+    expect(outgoing.truncated).toBe(false);
+
+    const limited = await manager.getNeighbors('A', { direction: 'outgoing', depth: 2, limit: 1 });
+    expect(limited).toMatchObject({ neighbors: [{ name: 'B' }], truncated: true });
+    expect((await manager.getNeighbors('D', { relationTypes: ['manages'] })).neighbors.map(n => n.name)).toEqual(['E']);
+    await expect(manager.getNeighbors('A', { direction: 'sideways' as TraversalDirection })).rejects.toThrow('Invalid direction');
+    await expect(manager.getNeighbors('Nobody')).rejects.toThrow('Nobody');
+  });
+
+  it('extracts the subgraph around entities with their observations', async () => {
+    const manager = await diamond('subgraph');
+
+    const subgraph = await manager.getSubgraph(['D'], { depth: 1 });
+    expect(subgraph.entities.map(e => e.name)).toEqual(['D', 'B', 'C', 'E']);
+    expect(subgraph.entities[0].observations).toEqual(['D observation']);
+    expect(subgraph.relations).toEqual([
+      { from: 'B', to: 'D', relationType: 'knows' },
+      { from: 'C', to: 'D', relationType: 'knows' },
+      { from: 'D', to: 'E', relationType: 'manages' },
+    ]);
+    expect(subgraph.truncated).toBe(false);
+    expect(await manager.getSubgraph(['D'], { depth: 1, limit: 2 })).toMatchObject({ truncated: true });
+    expect(await manager.getSubgraph([])).toEqual({ entities: [], relations: [], truncated: false });
+  });
+
+  it('finds the shortest paths between entities', async () => {
+    const manager = await diamond('paths');
+
+    expect(await manager.findPath('A', 'D', { direction: 'outgoing', maxPaths: 5 })).toEqual({
+      from: 'A',
+      to: 'D',
+      length: 2,
+      paths: [
+        { entities: ['A', 'B', 'D'], relations: [{ from: 'A', to: 'B', relationType: 'knows' }, { from: 'B', to: 'D', relationType: 'knows' }] },
+        { entities: ['A', 'C', 'D'], relations: [{ from: 'A', to: 'C', relationType: 'knows' }, { from: 'C', to: 'D', relationType: 'knows' }] },
+      ],
+    });
+    expect((await manager.findPath('A', 'D')).paths).toHaveLength(1);
+
+    // Against the direction of the relations, E is one step back from A
+    expect(await manager.findPath('A', 'E')).toMatchObject({ length: 1, paths: [{ entities: ['A', 'E'] }] });
+    expect(await manager.findPath('A', 'E', { direction: 'outgoing' })).toMatchObject({ length: 3 });
+    expect(await manager.findPath('A', 'E', { direction: 'outgoing', relationTypes: ['knows'] })).toEqual({ from: 'A', to: 'E', length: null, paths: [] });
+    expect(await manager.findPath('A', 'E', { direction: 'outgoing', maxDepth: 2 })).toMatchObject({ length: null });
+    expect(await manager.findPath('A', 'A')).toEqual({ from: 'A', to: 'A', length: 0, paths: [{ entities: ['A'], relations: [] }] });
+  });
+});
@@ -0,0 +1,77 @@
+import { execFile } from 'child_process';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { Notification, PoolClient } from 'pg';
+import { promisify } from 'util';
+import { afterAll, beforeAll } from 'vitest';
+import { DatabaseConnection } from '../src/database.js';
+import { DatabaseKnowledgeGraphManager } from '../src/knowledge-graph-manager.js';
+
+// PGlite serves every connection from one backend, so a notification arrives on whichever
+// connection committed the change rather than on the one listening. Passing each one on to
+// the other connections lets LISTEN work as it does on a server.
+function forwardNotifications(db: DatabaseConnection): void {
+  const clients = new Set<PoolClient>();
+  const forwarded = new WeakSet<Notification>();
+  db.getPool().on('connect', client => {
+    clients.add(client);
+    client.on('notification', message => {
+      if (forwarded.has(message)) {
+        return;
+      }
+      forwarded.add(message);
+      for (const other of clients) {
+        if (other !== client) {
+          other.emit('notification', message);
+        }
+      }
+    });
+  });
+  db.getPool().on('remove', client => clients.delete(client));
+}
+
+// Migrates the test database before the file's tests and closes the pool after them
+export function useDatabase(): DatabaseConnection {
+  const db = DatabaseConnection.getInstance();
+  forwardNotifications(db);
+  beforeAll(() => db.initializeDatabase());
+  afterAll(() => db.close());
+  return db;
+}
+
+// Every test writes to namespaces of its own, so files can share one database
+export function testNamespace(label: string): string {
+  return `test-${label}-${randomUUID().slice(0, 8)}`;
+}
+
+// The database clock, which stamps the change log. PGlite's clock only counts milliseconds,
+// so this waits a little on both sides to keep earlier and later writes off its timestamp.
+export async function databaseNow(db: DatabaseConnection): Promise<string> {
+  const tick = () => new Promise(resolve => setTimeout(resolve, 2));
+  await tick();
+  const result = await db.query(`SELECT to_json(clock_timestamp()) #>> '{}' AS now`);
+  await tick();
+  return result.rows[0].now;
+}
+
+export function testManager(label: string): DatabaseKnowledgeGraphManager {
+  return new DatabaseKnowledgeGraphManager(testNamespace(label));
+}
+
+// Runs a script from src/scripts the way npm runs the built one, against the test database
+export async function runScript(
+  script: string,
+  args: string[],
+  env: NodeJS.ProcessEnv = {}
+): Promise<{ code: number; stdout: string; stderr: string }> {
+  const viteNode = path.resolve('node_modules/.bin/vite-node');
+  try {
+    const { stdout, stderr } = await promisify(execFile)(viteNode, [`src/scripts/${script}.ts`, '--', ...args], {
+      env: { ...process.env, ...env },
+    });
+    return { code: 0, stdout, stderr };
+  } catch (error) {
+    const failed = error as { code?: number; stdout?: string; stderr?: string };
+    return { code: failed.code ?? 1, stdout: failed.stdout ?? '', stderr: failed.stderr ?? '' };
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { FullGraphPage } from '../src/graph-reader.js';
+import { databaseNow, testManager, useDatabase } from './helpers.js';
+
+const db = useDatabase();
+
+describe('history', () => {
+  it('reads the graph as it was', async () => {
+    const manager = testManager('as-of');
+    await manager.createEntities([
+      { name: 'Alice', entityType: 'person', observations: ['likes tea'] },
+      { name: 'Bob', entityType: 'person', observations: [] },
+    ]);
+    await manager.createRelations([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+    const before = await databaseNow(db);
+
+    await manager.addObservations([{ entityName: 'Alice', contents: ['likes cake'] }]);
+    await manager.deleteRelations([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+    await manager.deleteEntities(['Bob']);
+
+    const past = await manager.openNodes(['Alice', 'Bob'], { asOf: before });
+    expect(past.entities.map(entity => [entity.name, entity.observations])).toEqual([['Alice', ['likes tea']], ['Bob', []]]);
+    expect(past.relations).toEqual([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+    expect((await manager.openNodes(['Bob'], { asOf: before })).entities.map(entity => entity.name)).toEqual(['Bob']);
+
+    const page = await manager.readGraph({ asOf: before }) as FullGraphPage;
+    expect(page.entities.map(entity => entity.name)).toEqual(['Alice', 'Bob']);
+
+    const current = await manager.openNodes(['Alice', 'Bob']);
+    expect(current.entities.map(entity => [entity.name, entity.observations])).toEqual([['Alice', ['likes tea', 'likes cake']]]);
+    expect(current.relations).toEqual([]);
+  });
+
+  it('lists the changes to an entity across renames and deletion', async () => {
+    const manager = testManager('entity-history');
+    await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: ['likes tea'] }]);
+    await manager.renameEntity('Alice', 'Alicia');
+    await manager.deleteEntities(['Alicia']);
+
+    const changes = await manager.getEntityHistory('Alice');
+    expect(changes.map(change => [change.kind, change.operation])).toEqual([
+      ['observation', 'UPDATE'],
+      ['entity', 'UPDATE'],
+      ['entity', 'UPDATE'],
+      ['observation', 'INSERT'],
+      ['entity', 'INSERT'],
+    ]);
+    const rename = changes[2];
+    expect([rename.before?.name, rename.after?.name]).toEqual(['Alice', 'Alicia']);
+    expect(changes[0].after?.deleted_at).toBeTruthy();
+
+    expect(await manager.getEntityHistory('Alicia', { limit: 1 })).toEqual([changes[0]]);
+    await expect(manager.getEntityHistory('Nobody')).rejects.toThrow('No history found for entity Nobody');
+    await expect(manager.openNodes(['Alice'], { asOf: 'yesterday' })).rejects.toThrow('Invalid asOf timestamp');
+  });
+});
@@ -0,0 +1,152 @@
+import { once } from 'events';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { Authenticator, parseApiKeysEnv } from '../src/auth.js';
+import { HttpServerOptions, NAMESPACE_HEADER, startHttpServer } from '../src/http-server.js';
+import { testNamespace, useDatabase } from './helpers.js';
+
+useDatabase();
+
+const servers: Server[] = [];
+const clients: Client[] = [];
+
+afterEach(async () => {
+  await Promise.all(clients.splice(0).map(client => client.close()));
+  for (const server of servers.splice(0)) {
+    server.closeAllConnections();
+    server.close();
+  }
+});
+
+async function start(options: Partial<HttpServerOptions> = {}): Promise<string> {
+  const server = startHttpServer({
+    host: '127.0.0.1',
+    port: 0,
+    defaultNamespace: testNamespace('http'),
+    authenticator: new Authenticator(parseApiKeysEnv('reader-key:read,writer-key:write,bound-key:write:bound-namespace')),
+    corsOrigins: ['https://app.example'],
+    ...options,
+  });
+  servers.push(server);
+  await once(server, 'listening');
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+async function connect(url: string, key: string, headers: Record<string, string> = {}): Promise<{ client: Client; sessionId: string }> {
+  const transport = new StreamableHTTPClientTransport(new URL(`${url}/mcp`), {
+    requestInit: { headers: { Authorization: `Bearer ${key}`, ...headers } },
+  });
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  clients.push(client);
+  await client.connect(transport);
+  return { client, sessionId: transport.sessionId! };
+}
+
+function post(url: string, key: string, body: unknown, sessionId?: string): Promise<Response> {
+  return fetch(`${url}/mcp`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      'X-API-Key': key,
+      ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'raw', version: '1.0.0' } },
+};
+
+function callTool(name: string) {
+  return { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name, arguments: {} } };
+}
+
+describe('http server', () => {
+  it('authenticates clients and holds them to their scopes', async () => {
+    const url = await start();
+    expect((await fetch(`${url}/health`)).status).toBe(200);
+
+    const anonymous = await post(url, '', initialize);
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get('www-authenticate')).toContain('Bearer');
+    expect((await post(url, 'wrong-key', initialize)).status).toBe(401);
+
+    const { client, sessionId } = await connect(url, 'reader-key');
+    const tools = (await client.listTools()).tools.map(tool => tool.name);
+    expect(tools).toContain('read_graph');
+    expect(tools).not.toContain('create_entities');
+    const read = await client.callTool({ name: 'read_graph', arguments: { mode: 'counts' } });
+    expect(read.isError).toBeFalsy();
+
+    // Calls outside the key's scopes are refused with a real 403 before they reach the server
+    const refused = await post(url, 'reader-key', callTool('create_entities'), sessionId);
+    expect(refused.status).toBe(403);
+    expect((await refused.json()).error.message).toBe('Tool create_entities requires the write scope');
+
+    const cors = await fetch(`${url}/health`, { headers: { Origin: 'https://evil.example' } });
+    expect(cors.status).toBe(403);
+    const preflight = await fetch(`${url}/mcp`, { method: 'OPTIONS', headers: { Origin: 'https://app.example' } });
+    expect(preflight.headers.get('access-control-allow-origin')).toBe('https://app.example');
+  });
+
+  it('pins sessions to the key that created them, not to its name', async () => {
+    const [reader] = parseApiKeysEnv('reader-key:read');
+    const [writer] = parseApiKeysEnv('writer-key:admin');
+    const url = await start({ authenticator: new Authenticator([reader, { ...writer, name: reader.name }]) });
+
+    const { sessionId } = await connect(url, 'writer-key');
+    const hijack = await post(url, 'reader-key', { jsonrpc: '2.0', id: 3, method: 'tools/list' }, sessionId);
+    expect(hijack.status).toBe(403);
+    expect((await hijack.json()).error.message).toBe('Session belongs to a different key');
+
+    expect((await post(url, 'reader-key', { jsonrpc: '2.0', id: 3, method: 'tools/list' }, 'no-such-session')).status).toBe(404);
+  });
+
+  it('holds namespace-bound keys to their namespace', async () => {
+    const url = await start();
+    await expect(connect(url, 'bound-key', { [NAMESPACE_HEADER]: 'other-namespace' })).rejects.toThrow();
+    const { client } = await connect(url, 'bound-key', { [NAMESPACE_HEADER]: 'bound-namespace' });
+    expect((await client.listTools()).tools.length).toBeGreaterThan(0);
+  });
+
+  it('closes sessions that have been idle too long', async () => {
+    const url = await start({ sessionIdleTimeoutMs: 200 });
+
+    const initialized = await post(url, 'reader-key', initialize);
+    const idleSession = initialized.headers.get('mcp-session-id')!;
+    await initialized.text();
+    // The SDK client keeps a GET stream open, which counts as activity
+    const { client } = await connect(url, 'reader-key');
+
+    await new Promise(resolve => setTimeout(resolve, 700));
+    expect((await post(url, 'reader-key', { jsonrpc: '2.0', id: 3, method: 'tools/list' }, idleSession)).status).toBe(404);
+    expect((await client.listTools()).tools.length).toBeGreaterThan(0);
+  });
+
+  it('serves the legacy SSE transport', async () => {
+    const url = await start();
+    const transport = new SSEClientTransport(new URL(`${url}/sse`), {
+      requestInit: { headers: { 'X-API-Key': 'writer-key' } },
+    });
+    const client = new Client({ name: 'legacy', version: '1.0.0' });
+    clients.push(client);
+    await client.connect(transport);
+
+    const created = await client.callTool({
+      name: 'create_entities',
+      arguments: { entities: [{ name: 'Alice', entityType: 'person', observations: [] }] },
+    });
+    expect(created.isError).toBeFalsy();
+    const purge = await client.callTool({ name: 'purge_trash', arguments: {} }).catch(error => error);
+    expect(String(purge)).toContain('403');
+  });
+});
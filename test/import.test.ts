@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { testManager, useDatabase } from './helpers.js';
+
+useDatabase();
+
+describe('import', () => {
+  it('resolves aliases and registered spellings like the write tools', async () => {
+    const manager = testManager('import');
+    await manager.defineSchema({
+      entityTypes: [{ name: 'person', synonyms: ['people'] }, { name: 'team' }],
+      relationTypes: [{ name: 'manages', inverse: 'managed_by' }],
+    });
+    await manager.createEntities([
+      { name: 'Alice', entityType: 'person', observations: ['likes tea'] },
+      { name: 'Platform', entityType: 'team', observations: [] },
+    ]);
+    await manager.addAliases([{ entityName: 'Alice', aliases: ['Al'] }]);
+
+    const report = await manager.importGraph({
+      entities: [
+        { name: 'Al', entityType: 'people', observations: [{ content: 'likes tea' }, { content: 'likes cake' }] },
+        { name: 'Bob', entityType: 'People', observations: [{ content: 'rides a bike' }] },
+        { name: 'Platform', entityType: 'person', observations: [] },
+      ],
+      relations: [
+        { from: 'Bob', to: 'Al', relationType: 'managed_by' },
+        { from: 'Al', to: 'Bob', relationType: 'manages' },
+        { from: 'Al', to: 'Nobody', relationType: 'manages' },
+      ],
+    });
+
+    expect(report.entities).toEqual({ created: 1, skipped: 1, conflicted: 1 });
+    expect(report.observations).toEqual({ created: 2, skipped: 1 });
+    expect(report.relations).toEqual({ created: 1, skipped: 1, missingEndpoints: 1 });
+    expect(report.unresolvedRelations).toEqual([{ from: 'Al', to: 'Nobody', relationType: 'manages', missing: ['Nobody'] }]);
+
+    const graph = await manager.openNodes(['Alice', 'Bob', 'Al']);
+    expect(graph.entities.map(entity => [entity.name, entity.entityType, entity.observations])).toEqual([
+      ['Alice', 'person', ['likes tea', 'likes cake']],
+      ['Bob', 'person', ['rides a bike']],
+    ]);
+    expect(graph.relations).toEqual([{ from: 'Alice', to: 'Bob', relationType: 'manages' }]);
+  });
+
+  it('writes nothing on a dry run', async () => {
+    const manager = testManager('import-dry-run');
+    const report = await manager.importGraph(
+      { entities: [{ name: 'Alice', entityType: 'person', observations: [{ content: 'likes tea' }] }], relations: [] },
+      { dryRun: true }
+    );
+    expect(report.entities.created).toBe(1);
+    expect((await manager.openNodes(['Alice'])).entities).toEqual([]);
+  });
+});
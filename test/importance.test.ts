@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { halfLifeFromEnv } from '../src/importance.js';
+import { testManager, useDatabase } from './helpers.js';
+
+const db = useDatabase();
+
+const LONG_AGO = '2020-01-01T00:00:00Z';
+
+describe('importance', () => {
+  it('halves the weight of a read every half-life', async () => {
+    expect(halfLifeFromEnv({})).toBe(30);
+    expect(() => halfLifeFromEnv({ MEMORY_IMPORTANCE_HALF_LIFE_DAYS: '0' })).toThrow('Invalid MEMORY_IMPORTANCE_HALF_LIFE_DAYS');
+
+    const result = await db.query(`
+      SELECT memory_decayed_importance(4, NOW() - interval '30 days', 30) AS decayed,
+             memory_decayed_importance(NULL, NULL, 30) AS unread
+    `);
+    expect(Number(result.rows[0].decayed)).toBeCloseTo(2);
+    expect(Number(result.rows[0].unread)).toBe(0);
+  });
+
+  it('counts reads and lets them break ties in search', async () => {
+    const manager = testManager('importance');
+    await manager.createEntities(['Ann', 'Bob'].map(name => ({ name, entityType: 'person', observations: ['plays chess'] })));
+
+    const before = await manager.searchNodes('chess');
+    expect(before.entities.map(e => [e.name, e.importance])).toEqual([['Ann', 0], ['Bob', 0]]);
+
+    await manager.openNodes(['Bob']);
+    await manager.openNodes(['Bob']);
+    const after = await manager.searchNodes('chess');
+    expect(after.entities.map(e => e.name)).toEqual(['Bob', 'Ann']);
+    // The first search counted one read of each; Bob was also opened twice
+    expect(after.entities[0].importance).toBeCloseTo(3, 3);
+    expect(after.entities[1].importance).toBeCloseTo(1, 3);
+  });
+});
+
+describe('retention', () => {
+  it('validates and lists policies', async () => {
+    const manager = testManager('retention-policies');
+    await expect(manager.setRetentionPolicies([{ entityType: 'note', maxIdleDays: 0 }])).rejects.toThrow('Invalid maxIdleDays for note');
+    await expect(manager.setRetentionPolicies([{ entityType: 'note', maxIdleDays: 1, minImportance: -1 }])).rejects.toThrow('Invalid minImportance');
+
+    expect(await manager.setRetentionPolicies([{ entityType: 'note', maxIdleDays: 90 }, { entityType: 'chat', maxIdleDays: 7, minImportance: 0.5 }]))
+      .toEqual([{ entityType: 'chat', maxIdleDays: 7, minImportance: 0.5 }, { entityType: 'note', maxIdleDays: 90, minImportance: 1 }]);
+    expect(await manager.removeRetentionPolicies(['chat', 'missing'])).toEqual(['chat']);
+    expect(await manager.listRetentionPolicies()).toEqual([{ entityType: 'note', maxIdleDays: 90, minImportance: 1 }]);
+  });
+
+  it('moves idle, unread observations of entities with a policy to the trash', async () => {
+    const manager = testManager('retention');
+    await manager.importGraph({
+      entities: [
+        { name: 'Standup', entityType: 'note', observations: [{ content: 'old and forgotten', createdAt: LONG_AGO }, { content: 'old but read', createdAt: LONG_AGO }] },
+        { name: 'Ada', entityType: 'person', observations: [{ content: 'old, without a policy', createdAt: LONG_AGO }] },
+      ],
+      relations: [],
+    });
+    await manager.addObservations([{ entityName: 'Standup', contents: ['new'] }]);
+    await manager.searchNodes('read', { matchedObservationsOnly: true });
+    await manager.setRetentionPolicies([{ entityType: 'note', maxIdleDays: 30 }]);
+
+    const preview = await manager.applyRetention({ dryRun: true });
+    expect(preview).toEqual({
+      observations: [{
+        id: expect.any(Number),
+        entityName: 'Standup',
+        entityType: 'note',
+        content: 'old and forgotten',
+        importance: 0,
+        accessCount: 0,
+        lastAccessedAt: null,
+      }],
+      dryRun: true,
+    });
+    expect((await manager.applyRetention()).observations.map(o => o.content)).toEqual(['old and forgotten']);
+
+    const graph = await manager.openNodes(['Ada', 'Standup']);
+    expect(graph.entities.map(e => e.observations)).toEqual([['old, without a policy'], ['old but read', 'new']]);
+    expect((await manager.listTrash()).observations).toMatchObject([{ entityName: 'Standup', content: 'old and forgotten' }]);
+    expect(await manager.restoreEntities({ observations: [{ entityName: 'Standup', contents: ['old and forgotten'] }] }))
+      .toMatchObject({ observations: 1 });
+    expect((await manager.applyRetention({ dryRun: true })).observations).toEqual([]);
+  });
+});
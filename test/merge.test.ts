@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { testManager, useDatabase } from './helpers.js';
+
+useDatabase();
+
+describe('rename and merge', () => {
+  it('renames an entity unless the name is taken', async () => {
+    const manager = testManager('rename');
+    await manager.createEntities([
+      { name: 'Phil', entityType: 'person', observations: ['likes tea'] },
+      { name: 'Bob', entityType: 'person', observations: [] },
+    ]);
+    await manager.createRelations([{ from: 'Phil', to: 'Bob', relationType: 'knows' }]);
+    await manager.addAliases([{ entityName: 'Phil', aliases: ['Phil D'] }, { entityName: 'Bob', aliases: ['Bobby'] }]);
+
+    await expect(manager.renameEntity('Phil', 'Bob')).rejects.toThrow('already exists');
+    await expect(manager.renameEntity('Phil', 'Bobby')).rejects.toThrow();
+
+    // An entity may take one of its own aliases as its name
+    expect(await manager.renameEntity('Phil', 'Phil D')).toEqual({ oldName: 'Phil', newName: 'Phil D' });
+    const graph = await manager.openNodes(['Phil D', 'Bob']);
+    expect(graph.entities.map(entity => [entity.name, entity.observations])).toEqual([['Bob', []], ['Phil D', ['likes tea']]]);
+    expect(graph.relations).toEqual([{ from: 'Phil D', to: 'Bob', relationType: 'knows' }]);
+    expect((await manager.openNodes(['Phil'])).entities).toEqual([]);
+  });
+
+  it('folds sources into the target and trashes what did not move', async () => {
+    const manager = testManager('merge');
+    await manager.createEntities([
+      { name: 'Phil', entityType: 'person', observations: ['likes tea'], properties: { team: 'a' } },
+      { name: 'phil_dougherty', entityType: 'person', observations: ['likes tea', 'rides a bike'], properties: { team: 'b', city: 'Oslo' } },
+      { name: 'Bob', entityType: 'person', observations: [] },
+    ]);
+    await manager.addAliases([{ entityName: 'phil_dougherty', aliases: ['PD'] }]);
+    await manager.createRelations([
+      { from: 'Phil', to: 'Bob', relationType: 'knows' },
+      { from: 'phil_dougherty', to: 'Bob', relationType: 'knows' },
+      { from: 'phil_dougherty', to: 'Bob', relationType: 'manages' },
+      { from: 'phil_dougherty', to: 'Phil', relationType: 'same_as' },
+    ]);
+
+    const report = await manager.mergeEntities('Phil', ['phil_dougherty']);
+    expect(report).toMatchObject({
+      target: 'Phil',
+      sources: ['phil_dougherty'],
+      observations: { moved: 1, duplicates: 1 },
+      relations: {
+        repointed: [{ from: 'Phil', to: 'Bob', relationType: 'manages' }],
+        duplicates: [{ from: 'phil_dougherty', to: 'Bob', relationType: 'knows' }],
+        selfLoops: [{ from: 'phil_dougherty', to: 'Phil', relationType: 'same_as' }],
+      },
+      properties: ['city'],
+    });
+    expect([...report.aliases].sort()).toEqual(['PD', 'phil_dougherty']);
+
+    const phil = (await manager.openNodes(['PD'])).entities[0];
+    expect(phil).toMatchObject({ name: 'Phil', observations: ['likes tea', 'rides a bike'], properties: { team: 'a', city: 'Oslo' } });
+    const trashed = await manager.listTrash();
+    expect(trashed.entities.map(entity => entity.name)).toEqual(['phil_dougherty']);
+
+    await expect(manager.mergeEntities('Phil', ['PD'])).rejects.toThrow('into itself');
+  });
+
+  it('keeps current observations when a source has older copies of them', async () => {
+    const manager = testManager('merge-history');
+    await manager.createEntities([
+      { name: 'Phil', entityType: 'person', observations: ['works remotely'] },
+      { name: 'phil_d', entityType: 'person', observations: [] },
+    ]);
+    const [old] = (await manager.addObservations([{ entityName: 'phil_d', contents: ['lives in Oslo'] }]))[0].observationIds;
+    await manager.supersedeObservation(old, 'works remotely');
+    await manager.addObservations([{ entityName: 'phil_d', contents: ['lives in Oslo', { content: 'is on call', validUntil: '2000-01-01T00:00:00Z' }] }]);
+
+    const report = await manager.mergeEntities('Phil', ['phil_d']);
+    // The superseded and the live "lives in Oslo" and the expired "is on call" move; "works remotely" is a duplicate
+    expect(report.observations).toEqual({ moved: 3, duplicates: 1 });
+
+    const phil = (await manager.openNodes(['Phil'], { includeSuperseded: true, includeExpired: true })).entities[0];
+    expect([...phil.observations].sort()).toEqual(['is on call', 'lives in Oslo', 'lives in Oslo', 'works remotely']);
+    expect((await manager.openNodes(['Phil'])).entities[0].observations).toEqual(['works remotely', 'lives in Oslo']);
+
+    // The superseded copy now points at the target's own "works remotely"
+    const details = phil.observationDetails!;
+    const current = details.find(detail => detail.content === 'works remotely')!;
+    expect(details.find(detail => detail.id === old)).toMatchObject({ content: 'lives in Oslo', supersededBy: current.id });
+  });
+});
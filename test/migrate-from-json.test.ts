@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DatabaseKnowledgeGraphManager } from '../src/knowledge-graph-manager.js';
+import { runScript, testNamespace, useDatabase } from './helpers.js';
+
+useDatabase();
+
+describe('migrate-from-json', () => {
+  let dir: string;
+  let file: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'memory-json-'));
+    file = path.join(dir, 'memory.json');
+    await fs.writeFile(file, [
+      JSON.stringify({ type: 'relation', from: 'Alice', to: 'Bob', relationType: 'knows' }),
+      JSON.stringify({ type: 'entity', name: 'Alice', entityType: 'person', observations: ['likes tea'] }),
+      '',
+      'not json',
+      JSON.stringify({ type: 'entity', name: 'Bob', entityType: 'person', observations: ['rides a bike', 'rides a bike'] }),
+      JSON.stringify({ type: 'relation', from: 'Alice', to: 'Carol', relationType: 'knows' }),
+    ].join('\n'));
+  });
+
+  afterAll(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('imports a memory.json file and can be re-run', async () => {
+    const namespace = testNamespace('json');
+    const first = await runScript('migrate-from-json', [file, '--namespace', namespace]);
+    expect(first.code).toBe(0);
+    expect(first.stdout).toContain(`Imported ${file} into namespace ${namespace}`);
+    expect(first.stdout).toContain('entities:     2 created, 0 skipped, 0 conflicted');
+    expect(first.stdout).toContain('observations: 2 created, 1 skipped');
+    expect(first.stdout).toContain('relations:    1 created, 0 skipped, 1 missing endpoints');
+    expect(first.stdout).toContain('line 4:');
+
+    const graph = await new DatabaseKnowledgeGraphManager(namespace).openNodes(['Alice', 'Bob']);
+    expect(graph.entities.map(entity => [entity.name, entity.observations])).toEqual([['Alice', ['likes tea']], ['Bob', ['rides a bike']]]);
+    expect(graph.relations).toEqual([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+
+    const second = await runScript('migrate-from-json', [file, '--namespace', namespace]);
+    expect(second.stdout).toContain('entities:     0 created, 2 skipped, 0 conflicted');
+    expect(second.stdout).toContain('relations:    0 created, 1 skipped, 1 missing endpoints');
+  });
+
+  it('writes nothing on a dry run and takes the namespace from MEMORY_NAMESPACE', async () => {
+    const namespace = testNamespace('json-env');
+    const dryRun = await runScript('migrate-from-json', [file, '--dry-run'], { MEMORY_NAMESPACE: namespace });
+    expect(dryRun.code).toBe(0);
+    expect(dryRun.stdout).toContain(`Dry run: Imported ${file} into namespace ${namespace}`);
+    expect((await new DatabaseKnowledgeGraphManager(namespace).openNodes(['Alice'])).entities).toEqual([]);
+
+    const missing = await runScript('migrate-from-json', [path.join(dir, 'missing.json'), '--namespace', namespace]);
+    expect(missing.code).toBe(1);
+    expect(missing.stderr).toContain('Import failed');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { MigrationRunner } from '../src/migrations.js';
+import { useDatabase } from './helpers.js';
+
+const db = useDatabase();
+
+async function appliedVersions(): Promise<string[]> {
+  const result = await db.query('SELECT version FROM schema_migrations ORDER BY version::int');
+  return result.rows.map(row => row.version);
+}
+
+async function tableExists(name: string): Promise<boolean> {
+  const result = await db.query('SELECT to_regclass($1) IS NOT NULL AS exists', [name]);
+  return result.rows[0].exists;
+}
+
+describe('MigrationRunner', () => {
+  const runner = new MigrationRunner(db.getPool());
+
+  it('applies every migration, and nothing more on a second run', async () => {
+    const migrations = await runner.loadMigrations();
+    expect(await appliedVersions()).toEqual(migrations.map(m => m.version));
+    expect(await runner.up()).toEqual([]);
+    expect(await runner.pending()).toEqual([]);
+  });
+
+  it('reverts the most recent migrations and applies them again', async () => {
+    const before = await appliedVersions();
+
+    const reverted = await runner.down(2);
+    expect(reverted.map(m => m.version)).toEqual(before.slice(-2).reverse());
+    expect(await appliedVersions()).toEqual(before.slice(0, -2));
+    expect((await runner.pending()).map(m => m.version)).toEqual(before.slice(-2));
+
+    const applied = await runner.up();
+    expect(applied.map(m => m.version)).toEqual(before.slice(-2));
+    expect(await appliedVersions()).toEqual(before);
+  });
+
+  it('reverts a migration that created tables', async () => {
+    // 011_access_tracking adds entity_access; revert down to it and back up
+    const before = await appliedVersions();
+    const steps = before.length - before.indexOf('011');
+    await runner.down(steps);
+    expect(await tableExists('entity_access')).toBe(false);
+    expect(await tableExists('entities')).toBe(true);
+
+    await runner.up();
+    expect(await tableExists('entity_access')).toBe(true);
+    expect(await appliedVersions()).toEqual(before);
+  });
+
+  it.each([0, -1, 1.5, NaN])('rejects %s steps without reverting anything', async (steps) => {
+    const before = await appliedVersions();
+    await expect(runner.down(steps)).rejects.toThrow(/Invalid steps/);
+    expect(await appliedVersions()).toEqual(before);
+    expect(await tableExists('entities')).toBe(true);
+  });
+
+  it('stops after the target version', async () => {
+    const before = await appliedVersions();
+    await runner.down(3);
+    const applied = await runner.up(before[before.length - 2]);
+    expect(applied.map(m => m.version)).toEqual(before.slice(-3, -1));
+    expect((await runner.pending()).map(m => m.version)).toEqual(before.slice(-1));
+    await runner.up();
+    expect(await appliedVersions()).toEqual(before);
+  });
+});
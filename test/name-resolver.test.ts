@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { NameResolver, hasTrigramSupport, nameResolverOptionsFromEnv } from '../src/name-resolver.js';
+import { testManager, useDatabase } from './helpers.js';
+
+const db = useDatabase();
+
+describe('aliases', () => {
+  it('resolves aliases to the entity they belong to', async () => {
+    const manager = testManager('aliases');
+    await manager.createEntities([
+      { name: 'Robert Smith', entityType: 'person', observations: ['likes jazz'] },
+      { name: 'Acme', entityType: 'company', observations: [] },
+    ]);
+
+    expect(await manager.addAliases([{ entityName: 'Robert Smith', aliases: ['Bob', 'Bobby', 'Bob'] }]))
+      .toEqual([{ entityName: 'Robert Smith', addedAliases: ['Bob', 'Bobby'] }]);
+    expect(await manager.addAliases([{ entityName: 'Bob', aliases: ['Bob'] }])).toEqual([{ entityName: 'Robert Smith', addedAliases: [] }]);
+    await expect(manager.addAliases([{ entityName: 'Acme', aliases: ['Bob'] }])).rejects.toThrow('Bob is already an alias of Robert Smith');
+    await expect(manager.addAliases([{ entityName: 'Acme', aliases: ['Robert Smith'] }])).rejects.toThrow('is the name of another entity');
+
+    await manager.addObservations([{ entityName: 'Bobby', contents: ['plays piano'] }]);
+    await manager.createRelations([{ from: 'Bob', to: 'Acme', relationType: 'works_at' }]);
+    const graph = await manager.openNodes(['Bob', 'Acme']);
+    expect(graph.entities.map(e => [e.name, e.observations])).toEqual([['Acme', []], ['Robert Smith', ['likes jazz', 'plays piano']]]);
+    expect(graph.relations).toEqual([{ from: 'Robert Smith', to: 'Acme', relationType: 'works_at' }]);
+    expect((await manager.searchNodes('bobby')).entities.map(e => e.name)).toEqual(['Robert Smith']);
+
+    expect(await manager.removeAliases([{ entityName: 'Robert Smith', aliases: ['Bobby', 'Rob'] }]))
+      .toEqual([{ entityName: 'Robert Smith', removedAliases: ['Bobby'] }]);
+    expect((await manager.openNodes(['Bobby'])).entities).toEqual([]);
+  });
+});
+
+describe('name matching', () => {
+  it('is configured from the environment', () => {
+    expect(nameResolverOptionsFromEnv({})).toEqual({ matching: 'exact', fuzzyThreshold: 0.5 });
+    expect(nameResolverOptionsFromEnv({ MEMORY_NAME_MATCHING: 'fuzzy', MEMORY_FUZZY_MATCH_THRESHOLD: '0.3' })).toEqual({ matching: 'fuzzy', fuzzyThreshold: 0.3 });
+    expect(() => nameResolverOptionsFromEnv({ MEMORY_NAME_MATCHING: 'loose' })).toThrow('Unknown name matching mode');
+    expect(() => nameResolverOptionsFromEnv({ MEMORY_FUZZY_MATCH_THRESHOLD: '2' })).toThrow('Invalid MEMORY_FUZZY_MATCH_THRESHOLD');
+  });
+
+  it('falls back to case-insensitive and trigram matches only when they are unambiguous', async ctx => {
+    const manager = testManager('matching');
+    await manager.createEntities([
+      { name: 'Kubernetes cluster', entityType: 'system', observations: [] },
+      { name: 'Postgres', entityType: 'system', observations: [] },
+      { name: 'postgres', entityType: 'system', observations: [] },
+    ]);
+    await manager.addAliases([{ entityName: 'Kubernetes cluster', aliases: ['K8s'] }]);
+    const { namespace } = manager;
+
+    const exact = new NameResolver(namespace, { matching: 'exact', fuzzyThreshold: 0.5 });
+    expect(await exact.resolve(db, 'K8s')).toMatchObject({ name: 'Kubernetes cluster', matchedBy: 'alias' });
+    expect(await exact.resolve(db, 'k8s')).toBeNull();
+
+    const caseInsensitive = new NameResolver(namespace, { matching: 'case-insensitive', fuzzyThreshold: 0.5 });
+    expect(await caseInsensitive.resolve(db, 'k8s')).toMatchObject({ name: 'Kubernetes cluster', matchedBy: 'case-insensitive' });
+    expect(await caseInsensitive.resolve(db, 'KUBERNETES CLUSTER')).toMatchObject({ name: 'Kubernetes cluster' });
+    // Two entities differ only by case, so neither is picked
+    expect(await caseInsensitive.resolve(db, 'POSTGRES')).toBeNull();
+    expect(await caseInsensitive.resolve(db, 'postgres')).toMatchObject({ name: 'postgres', matchedBy: 'name' });
+    expect(await caseInsensitive.resolve(db, 'Kubernetes clustre')).toBeNull();
+
+    if (!(await hasTrigramSupport(db))) {
+      ctx.skip();
+    }
+    const fuzzy = new NameResolver(namespace, { matching: 'fuzzy', fuzzyThreshold: 0.5 });
+    expect(await fuzzy.resolve(db, 'Kubernetes clustre')).toMatchObject({ name: 'Kubernetes cluster', matchedBy: 'fuzzy' });
+    expect(await fuzzy.resolve(db, 'Postgress')).toBeNull();
+    expect(await fuzzy.resolve(db, 'Kubernetes clustre', { exactOnly: true })).toBeNull();
+    expect(await fuzzy.resolve(db, 'Redis')).toBeNull();
+    await expect(caseInsensitive.require(db, 'Kubernetes')).rejects.toThrow('Entity with name Kubernetes not found. Did you mean: Kubernetes cluster?');
+  });
+});
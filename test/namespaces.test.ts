@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { callTool } from '../src/tools.js';
+import { AuthError, Principal } from '../src/auth.js';
+import { testManager, testNamespace, useDatabase } from './helpers.js';
+
+useDatabase();
+
+function parse(result: { content: { text: string }[] }) {
+  return JSON.parse(result.content[0].text);
+}
+
+describe('namespaces', () => {
+  it('keeps each namespace to itself', async () => {
+    const a = testManager('isolation');
+    const b = testManager('isolation');
+    await a.createEntities([{ name: 'Alice', entityType: 'person', observations: ['in a'] }]);
+    await b.createEntities([{ name: 'Alice', entityType: 'robot', observations: ['in b'] }]);
+
+    expect((await a.openNodes(['Alice'])).entities).toEqual([
+      expect.objectContaining({ entityType: 'person', observations: ['in a'] }),
+    ]);
+    await b.deleteEntities(['Alice']);
+    expect((await a.openNodes(['Alice'])).entities).toHaveLength(1);
+  });
+
+  it('copies entities, their observations and the relations among them', async () => {
+    const source = testManager('copy');
+    const target = testManager('copy');
+    await source.createEntities([
+      { name: 'Alice', entityType: 'person', observations: ['likes tea'] },
+      { name: 'Bob', entityType: 'person', observations: ['likes coffee'] },
+      { name: 'Carol', entityType: 'person', observations: [] },
+    ]);
+    await source.createRelations([
+      { from: 'Alice', to: 'Bob', relationType: 'knows' },
+      { from: 'Alice', to: 'Carol', relationType: 'knows' },
+    ]);
+    await target.createEntities([{ name: 'Bob', entityType: 'person', observations: ['lives in Oslo'] }]);
+
+    const report = await source.copyEntities(['Alice', 'Bob'], target.namespace);
+    expect(report.entities).toEqual({ created: 1, skipped: 1, conflicted: 0 });
+    expect(report.relations).toEqual({ created: 1, skipped: 0, missingEndpoints: 0 });
+
+    const graph = await target.openNodes(['Alice', 'Bob', 'Carol']);
+    // Copied observations keep their timestamps, so they need not come last
+    expect(graph.entities.map(e => [e.name, [...e.observations].sort()])).toEqual([
+      ['Alice', ['likes tea']],
+      ['Bob', ['likes coffee', 'lives in Oslo']],
+    ]);
+    expect(graph.relations).toEqual([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+    expect((await source.openNodes(['Alice'])).entities[0].observations).toEqual(['likes tea']);
+
+    await expect(source.copyEntities(['Alice'], source.namespace)).rejects.toThrow('Source and target namespace must differ');
+  });
+
+  it('holds keys bound to a namespace to it', async () => {
+    const own = testManager('bound');
+    const other = testManager('bound');
+    await own.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+    await other.createEntities([{ name: 'Bob', entityType: 'person', observations: [] }]);
+    const bound: Principal = { name: 'tenant', scopes: ['admin'], namespace: own.namespace };
+    const unbound: Principal = { name: 'operator', scopes: ['admin'] };
+
+    const listed = parse(await callTool(own, 'list_namespaces', {}, bound));
+    expect(listed).toEqual([{ namespace: own.namespace, entityCount: 1, relationCount: 0 }]);
+    const all = parse(await callTool(own, 'list_namespaces', {}, unbound)).map((n: { namespace: string }) => n.namespace);
+    expect(all).toEqual(expect.arrayContaining([own.namespace, other.namespace]));
+
+    const copy = callTool(own, 'copy_entities', { entityNames: ['Alice'], targetNamespace: other.namespace }, bound);
+    await expect(copy).rejects.toBeInstanceOf(AuthError);
+    expect((await other.openNodes(['Alice'])).entities).toEqual([]);
+
+    const target = testNamespace('bound');
+    await callTool(own, 'copy_entities', { entityNames: ['Alice'], targetNamespace: target }, unbound);
+    expect(parse(await callTool(own, 'list_namespaces', {}, unbound))).toContainEqual({ namespace: target, entityCount: 1, relationCount: 0 });
+  });
+});
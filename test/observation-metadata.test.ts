@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { FullGraphPage } from '../src/graph-reader.js';
+import { testManager, useDatabase } from './helpers.js';
+
+const db = useDatabase();
+
+const PAST = '2000-01-01T00:00:00.000Z';
+const FUTURE = '2999-01-01T00:00:00.000Z';
+
+async function withMetadata(label: string) {
+  const manager = testManager(label);
+  await manager.createEntities([
+    {
+      name: 'Ada',
+      entityType: 'person',
+      observations: [
+        { content: 'prefers tea', source: 'chat-1', confidence: 0.9, author: 'agent-a', tags: ['drinks'] },
+        { content: 'maybe likes coffee', source: 'chat-2', confidence: 0.2, author: 'agent-b', tags: ['drinks', 'guess'] },
+        { content: 'is on holiday this week', validUntil: PAST },
+        { content: 'leads the tea club', validUntil: FUTURE },
+        'plain tea fact',
+      ],
+    },
+    { name: 'Bob', entityType: 'person', observations: [{ content: 'drinks tea', confidence: 0.1 }] },
+  ]);
+  return manager;
+}
+
+describe('observation metadata', () => {
+  it('returns metadata on request and hides expired observations by default', async () => {
+    const manager = await withMetadata('metadata-reads');
+
+    const [ada] = (await manager.openNodes(['Ada'])).entities;
+    expect(ada.observations).toEqual(['prefers tea', 'maybe likes coffee', 'leads the tea club', 'plain tea fact']);
+    expect(ada.observationDetails).toBeUndefined();
+
+    const [detailed] = (await manager.openNodes(['Ada'], { includeMetadata: true, includeExpired: true })).entities;
+    expect(detailed.observations).toContain('is on holiday this week');
+    // Timestamps come back in Postgres' format
+    expect(detailed.observationDetails!.map(({ id, createdAt, validUntil, ...rest }) =>
+      validUntil ? { ...rest, validUntil: new Date(validUntil).toISOString() } : rest)).toEqual([
+      { content: 'prefers tea', source: 'chat-1', confidence: 0.9, author: 'agent-a', tags: ['drinks'] },
+      { content: 'maybe likes coffee', source: 'chat-2', confidence: 0.2, author: 'agent-b', tags: ['drinks', 'guess'] },
+      { content: 'is on holiday this week', validUntil: PAST },
+      { content: 'leads the tea club', validUntil: FUTURE },
+      { content: 'plain tea fact' },
+    ]);
+
+    const page = await manager.readGraph({ entityTypes: ['person'] }) as FullGraphPage;
+    expect(page.entities.find(e => e.name === 'Ada')?.observations).not.toContain('is on holiday this week');
+    expect((await manager.searchNodes('holiday')).entities).toEqual([]);
+    expect((await manager.searchNodes('holiday', { includeExpired: true })).entities.map(e => e.name)).toEqual(['Ada']);
+  });
+
+  it('filters search by confidence, source, author and tags', async () => {
+    const manager = await withMetadata('metadata-search');
+    const search = async (options: Parameters<typeof manager.searchNodes>[1]) =>
+      (await manager.searchNodes('tea', { ...options, includeMetadata: true })).entities.map(e => [e.name, e.observations]);
+
+    // Observations without a confidence pass a confidence filter
+    expect(await search({ minConfidence: 0.5 })).toEqual([
+      ['Ada', ['prefers tea', 'leads the tea club', 'plain tea fact']],
+    ]);
+    expect(await search({ sources: ['chat-2'] })).toEqual([]);
+    expect(await search({ sources: ['chat-1', 'chat-2'] })).toEqual([['Ada', ['prefers tea', 'maybe likes coffee']]]);
+    expect(await search({ authors: ['agent-a'] })).toEqual([['Ada', ['prefers tea']]]);
+    expect(await search({ tags: ['guess', 'other'] })).toEqual([]);
+    expect(await search({ tags: ['drinks'], matchedObservationsOnly: true })).toEqual([['Ada', ['prefers tea']]]);
+    expect(await search({})).toEqual([
+      ['Ada', ['prefers tea', 'maybe likes coffee', 'leads the tea club', 'plain tea fact']],
+      ['Bob', ['drinks tea']],
+    ]);
+    await expect(manager.searchNodes('tea', { minConfidence: 2 })).rejects.toThrow('Invalid minConfidence: 2');
+  });
+
+  it('rejects invalid metadata', async () => {
+    const manager = testManager('metadata-invalid');
+    expect(await manager.createEntities([
+      { name: 'Ada', entityType: 'person', observations: [{ content: 'x', confidence: 1.5 }] },
+      { name: 'Bob', entityType: 'person', observations: [{ content: 'y', validUntil: 'next week' }] },
+    ])).toMatchObject([
+      { name: 'Ada', status: 'error', reason: 'Observation confidence of Ada must be a number between 0 and 1' },
+      { name: 'Bob', status: 'error', reason: expect.stringContaining('Invalid validUntil timestamp of Bob') },
+    ]);
+  });
+});
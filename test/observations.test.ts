@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { testManager, useDatabase } from './helpers.js';
+
+useDatabase();
+
+describe('observation IDs', () => {
+  it('updates an observation in place', async () => {
+    const manager = testManager('update');
+    const [created] = await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+    expect(created.status).toBe('created');
+    const [likesTea, likesCake] = (await manager.addObservations([
+      { entityName: 'Alice', contents: [{ content: 'likes tea', source: 'chat', tags: ['food'] }, 'likes cake'] },
+    ]))[0].observationIds;
+
+    const updated = await manager.updateObservation(likesTea, { content: 'likes green tea', source: null, confidence: 0.8 });
+    expect(updated).toEqual({
+      entityName: 'Alice',
+      observation: expect.objectContaining({ id: likesTea, content: 'likes green tea', confidence: 0.8, tags: ['food'] }),
+    });
+    expect(updated.observation.source).toBeUndefined();
+
+    await expect(manager.updateObservation(likesTea, { content: 'likes cake' })).rejects.toThrow('already has the observation');
+    await expect(manager.updateObservation(likesTea, { confidence: 2 })).rejects.toThrow('confidence');
+    await expect(manager.updateObservation(likesCake + 1000, { content: 'x' })).rejects.toThrow('not found');
+    // IDs of other namespaces are not found either
+    await expect(testManager('update').updateObservation(likesTea, { content: 'x' })).rejects.toThrow('not found');
+  });
+
+  it('supersedes an observation and keeps the old one as history', async () => {
+    const manager = testManager('supersede');
+    await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: ['lives in Oslo', 'works remotely'] }]);
+    const details = (await manager.openNodes(['Alice'], { includeMetadata: true })).entities[0].observationDetails!;
+    const [oslo, remote] = details.map(detail => detail.id);
+
+    const result = await manager.supersedeObservation(oslo, { content: 'lives in Bergen', source: 'move notice' });
+    expect(result.superseded).toMatchObject({ id: oslo, content: 'lives in Oslo', supersededBy: result.observation.id });
+    expect(result.observation).toMatchObject({ content: 'lives in Bergen', source: 'move notice' });
+    expect((await manager.openNodes(['Alice'])).entities[0].observations).toEqual(['works remotely', 'lives in Bergen']);
+
+    // A replacement the entity already has is linked to rather than repeated
+    const bergen = result.observation.id;
+    const linked = await manager.supersedeObservation(bergen, 'works remotely');
+    expect(linked.observation.id).toBe(remote);
+
+    await expect(manager.supersedeObservation(oslo, 'lives in Trondheim')).rejects.toThrow(`has been superseded by observation ${bergen}`);
+    await expect(manager.updateObservation(oslo, { content: 'x' })).rejects.toThrow('has been superseded');
+
+    const history = (await manager.openNodes(['Alice'], { includeSuperseded: true })).entities[0];
+    expect(history.observationDetails!.map(detail => [detail.content, detail.supersededBy])).toEqual([
+      ['lives in Oslo', bergen],
+      ['works remotely', undefined],
+      ['lives in Bergen', remote],
+    ]);
+  });
+
+  it('exports supersession by content so it survives an import', async () => {
+    const source = testManager('supersede-export');
+    await source.createEntities([{ name: 'Alice', entityType: 'person', observations: ['lives in Oslo'] }]);
+    const [oslo] = (await source.openNodes(['Alice'], { includeMetadata: true })).entities[0].observationDetails!;
+    await source.supersedeObservation(oslo.id, 'lives in Bergen');
+
+    const snapshot = await source.exportGraph();
+    expect(snapshot.entities[0].observations).toEqual([
+      expect.objectContaining({ content: 'lives in Oslo', supersededBy: 'lives in Bergen' }),
+      expect.objectContaining({ content: 'lives in Bergen' }),
+    ]);
+
+    const target = testManager('supersede-import');
+    await target.importGraph(snapshot);
+    const alice = (await target.openNodes(['Alice'], { includeSuperseded: true })).entities[0];
+    const bergen = alice.observationDetails!.find(detail => detail.content === 'lives in Bergen')!;
+    expect(alice.observationDetails!.find(detail => detail.content === 'lives in Oslo')!.supersededBy).toBe(bergen.id);
+    expect((await target.openNodes(['Alice'])).entities[0].observations).toEqual(['lives in Bergen']);
+  });
+});
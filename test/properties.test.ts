@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Properties } from '../src/types.js';
+import { testManager, useDatabase } from './helpers.js';
+
+const db = useDatabase();
+
+describe('properties', () => {
+  it('sets and unsets properties of entities and relations', async () => {
+    const manager = testManager('properties');
+    await manager.createEntities([
+      { name: 'Ada', entityType: 'person', observations: [], properties: { role: 'engineer', level: 3 } },
+      { name: 'Acme', entityType: 'company', observations: [] },
+    ]);
+    await manager.createRelations([{ from: 'Ada', to: 'Acme', relationType: 'works_at', properties: { since: '2020-01-01' } }]);
+
+    expect(await manager.setProperties({
+      entities: [{ name: 'Ada', properties: { level: 4, manager: { name: 'Bob' } } }],
+      relations: [{ from: 'Ada', to: 'Acme', relationType: 'works_at', properties: { remote: true } }],
+    })).toEqual({
+      entities: [{ name: 'Ada', properties: { role: 'engineer', level: 4, manager: { name: 'Bob' } } }],
+      relations: [{ from: 'Ada', to: 'Acme', relationType: 'works_at', properties: { since: '2020-01-01', remote: true } }],
+    });
+
+    expect(await manager.unsetProperties({
+      entities: [{ name: 'Ada', keys: ['manager', 'missing'] }],
+      relations: [{ from: 'Ada', to: 'Acme', relationType: 'works_at', keys: ['since', 'remote'] }],
+    })).toEqual({
+      entities: [{ name: 'Ada', properties: { role: 'engineer', level: 4 } }],
+      relations: [{ from: 'Ada', to: 'Acme', relationType: 'works_at', properties: {} }],
+    });
+
+    // Empty property maps are left out of reads
+    const graph = await manager.openNodes(['Ada', 'Acme']);
+    expect(graph.entities.map(e => e.properties)).toEqual([undefined, { role: 'engineer', level: 4 }]);
+    expect(graph.relations).toEqual([{ from: 'Ada', to: 'Acme', relationType: 'works_at' }]);
+
+    await expect(manager.setProperties({ entities: [{ name: 'Ada', properties: ['x'] as unknown as Properties }] }))
+      .rejects.toThrow('Properties of Ada must be a JSON object');
+    await expect(manager.setProperties({ relations: [{ from: 'Acme', to: 'Ada', relationType: 'works_at', properties: {} }] }))
+      .rejects.toThrow('Relation Acme -[works_at]-> Ada not found');
+    // A failed item leaves the earlier ones of the call unwritten
+    await expect(manager.setProperties({ entities: [{ name: 'Ada', properties: { level: 5 } }, { name: 'Nobody', properties: {} }] }))
+      .rejects.toThrow('Nobody');
+    expect((await manager.openNodes(['Ada'])).entities[0].properties).toEqual({ role: 'engineer', level: 4 });
+  });
+
+  it('filters search results by contained properties', async () => {
+    const manager = testManager('properties-search');
+    await manager.createEntities([
+      { name: 'Alpha project', entityType: 'project', observations: [], properties: { status: 'active', tags: ['db', 'api'] } },
+      { name: 'Beta project', entityType: 'project', observations: [], properties: { status: 'archived', tags: ['db'] } },
+      { name: 'Gamma project', entityType: 'project', observations: [] },
+    ]);
+
+    const names = async (properties: Properties) => (await manager.searchNodes('project', { properties })).entities.map(e => e.name);
+    expect(await names({ status: 'active' })).toEqual(['Alpha project']);
+    expect(await names({ tags: ['db'] })).toEqual(['Alpha project', 'Beta project']);
+    expect(await names({ status: 'active', tags: ['cli'] })).toEqual([]);
+    expect(await names({})).toEqual(['Alpha project', 'Beta project', 'Gamma project']);
+    await expect(manager.searchNodes('project', { properties: 'active' as unknown as Properties })).rejects.toThrow('the search filter must be a JSON object');
+  });
+});
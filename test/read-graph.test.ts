@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { ConnectedPage, FullGraphPage, NamesPage, TypeCounts } from '../src/graph-reader.js';
+import { databaseNow, testManager, useDatabase } from './helpers.js';
+
+const db = useDatabase();
+
+describe('read_graph', () => {
+  it('pages through the graph with cursors', async () => {
+    const manager = testManager('pages');
+    const names = ['Ada', 'Bea', 'Cy', 'Dee', 'Eve'];
+    await manager.createEntities(names.map(name => ({ name, entityType: 'person', observations: [] })));
+    await manager.createRelations([{ from: 'Ada', to: 'Eve', relationType: 'knows' }]);
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await manager.readGraph({ mode: 'names', limit: 2, cursor }) as NamesPage;
+      expect(page.pagination.total).toBe(5);
+      seen.push(...page.entities.map(entity => entity.name));
+      cursor = page.pagination.nextCursor ?? undefined;
+    } while (cursor);
+    expect(seen).toEqual(names);
+
+    const first = await manager.readGraph({ limit: 1 }) as FullGraphPage;
+    expect(first.relations).toEqual([{ from: 'Ada', to: 'Eve', relationType: 'knows' }]);
+    await expect(manager.readGraph({ mode: 'full', limit: 1, cursor: first.pagination.nextCursor! }))
+      .resolves.toMatchObject({ entities: [expect.objectContaining({ name: 'Bea' })], relations: [] });
+    await expect(manager.readGraph({ mode: 'names', cursor: first.pagination.nextCursor! })).rejects.toThrow('full mode');
+    await expect(manager.readGraph({ cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+  });
+
+  it('filters by type and change time and summarizes the graph', async () => {
+    const manager = testManager('filters');
+    await manager.createEntities([
+      { name: 'Ada', entityType: 'person', observations: ['writes code'] },
+      { name: 'Bea', entityType: 'person', observations: [] },
+      { name: 'Acme', entityType: 'company', observations: [] },
+    ]);
+    await manager.createRelations([
+      { from: 'Ada', to: 'Acme', relationType: 'works_at' },
+      { from: 'Ada', to: 'Bea', relationType: 'knows' },
+    ]);
+    const since = await databaseNow(db);
+    await manager.addObservations([{ entityName: 'Bea', contents: ['rides a bike'] }]);
+
+    const people = await manager.readGraph({ entityTypes: ['person'] }) as FullGraphPage;
+    expect(people.entities.map(entity => entity.name)).toEqual(['Ada', 'Bea']);
+    expect(people.relations).toEqual([{ from: 'Ada', to: 'Bea', relationType: 'knows' }]);
+
+    const employed = await manager.readGraph({ mode: 'names', relationTypes: ['works_at'] }) as NamesPage;
+    expect(employed.entities).toEqual([{ name: 'Acme', entityType: 'company' }, { name: 'Ada', entityType: 'person' }]);
+
+    const changed = await manager.readGraph({ mode: 'names', updatedSince: since }) as NamesPage;
+    expect(changed.entities.map(entity => entity.name)).toEqual(['Bea']);
+
+    const counts = await manager.readGraph({ mode: 'counts' }) as TypeCounts;
+    expect(counts).toMatchObject({
+      entities: 3,
+      relations: 2,
+      entityTypes: [{ entityType: 'person', count: 2 }, { entityType: 'company', count: 1 }],
+    });
+
+    const connected = await manager.readGraph({ mode: 'top-connected', limit: 2 }) as ConnectedPage;
+    expect(connected.entities).toEqual([
+      { name: 'Ada', entityType: 'person', degree: 2 },
+      { name: 'Acme', entityType: 'company', degree: 1 },
+    ]);
+    const rest = await manager.readGraph({ mode: 'top-connected', cursor: connected.pagination.nextCursor! }) as ConnectedPage;
+    expect(rest.entities.map(entity => entity.name)).toEqual(['Bea']);
+    await expect(manager.readGraph({ mode: 'everything' as never })).rejects.toThrow('Invalid mode');
+  });
+});
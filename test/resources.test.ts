@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpError, ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { DatabaseKnowledgeGraphManager } from '../src/knowledge-graph-manager.js';
+import { createMcpServer } from '../src/mcp-server.js';
+import { GRAPH_SUMMARY_URI, entityUri, parseResourceUri } from '../src/resources.js';
+import { Relation } from '../src/types.js';
+import { testManager, useDatabase } from './helpers.js';
+
+useDatabase();
+
+const clients: Client[] = [];
+
+afterEach(async () => {
+  await Promise.all(clients.splice(0).map(client => client.close()));
+});
+
+async function connect(manager: DatabaseKnowledgeGraphManager): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMcpServer(manager).connect(serverTransport);
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  clients.push(client);
+  await client.connect(clientTransport);
+  return client;
+}
+
+async function readJson<T = unknown>(client: Client, uri: string): Promise<T> {
+  const [content] = (await client.readResource({ uri })).contents;
+  if (!('text' in content)) {
+    throw new Error(`${uri} is not a text resource`);
+  }
+  return JSON.parse(content.text);
+}
+
+async function withGraph(label: string): Promise<DatabaseKnowledgeGraphManager> {
+  const manager = testManager(label);
+  await manager.createEntities([
+    { name: 'Ada Lovelace', entityType: 'person', observations: ['wrote the first program'], properties: { born: 1815 } },
+    { name: 'Charles Babbage', entityType: 'person', observations: [] },
+    { name: 'Analytical Engine', entityType: 'machine', observations: [] },
+  ]);
+  await manager.createRelations([
+    { from: 'Ada Lovelace', to: 'Analytical Engine', relationType: 'programmed' },
+    { from: 'Charles Babbage', to: 'Analytical Engine', relationType: 'designed' },
+  ]);
+  await manager.addAliases([{ entityName: 'Ada Lovelace', aliases: ['Ada'] }]);
+  return manager;
+}
+
+describe('resources', () => {
+  it('parses resource URIs', () => {
+    expect(parseResourceUri(entityUri('A/B c'))).toEqual({ kind: 'entity', name: 'A/B c' });
+    expect(parseResourceUri('memory://type/person')).toEqual({ kind: 'type', entityType: 'person' });
+    expect(parseResourceUri(GRAPH_SUMMARY_URI)).toEqual({ kind: 'summary' });
+    for (const uri of ['memory://entity/', 'memory://entity/%E0%A4%A', 'file:///etc/passwd']) {
+      expect(() => parseResourceUri(uri)).toThrow('Unknown resource');
+    }
+  });
+
+  it('lists and reads the graph as resources', async () => {
+    const client = await connect(await withGraph('resources'));
+
+    expect(client.getServerCapabilities()?.resources).toEqual({ subscribe: true });
+    const { resources } = await client.listResources();
+    expect(resources.map(r => [r.uri, r.description])).toEqual([
+      [GRAPH_SUMMARY_URI, expect.any(String)],
+      ['memory://entity/Ada%20Lovelace', 'person'],
+      ['memory://entity/Analytical%20Engine', 'machine'],
+      ['memory://entity/Charles%20Babbage', 'person'],
+    ]);
+    expect((await client.listResourceTemplates()).resourceTemplates.map(t => t.uriTemplate))
+      .toEqual(['memory://entity/{name}', 'memory://type/{entityType}']);
+
+    // Aliases resolve to the entity, which comes with all of its relations
+    expect(await readJson(client, 'memory://entity/Ada')).toEqual({
+      entity: { name: 'Ada Lovelace', entityType: 'person', observations: ['wrote the first program'], properties: { born: 1815 } },
+      relations: [{ from: 'Ada Lovelace', to: 'Analytical Engine', relationType: 'programmed' }],
+      truncated: false,
+    });
+    expect((await readJson<{ relations: Relation[] }>(client, entityUri('Analytical Engine'))).relations.map(r => r.relationType))
+      .toEqual(['designed', 'programmed']);
+    expect(await readJson(client, 'memory://type/person')).toEqual({
+      entityType: 'person',
+      total: 2,
+      entities: [
+        { name: 'Ada Lovelace', uri: 'memory://entity/Ada%20Lovelace' },
+        { name: 'Charles Babbage', uri: 'memory://entity/Charles%20Babbage' },
+      ],
+      truncated: false,
+    });
+    expect(await readJson(client, GRAPH_SUMMARY_URI)).toMatchObject({ entities: 3, relations: 2 });
+
+    const missing = await client.readResource({ uri: entityUri('Ada Lovelase') }).catch(error => error);
+    expect(missing).toBeInstanceOf(McpError);
+    expect(missing.code).toBe(-32002);
+    expect(missing.message).toContain('Did you mean');
+    await expect(client.readResource({ uri: 'memory://nothing' })).rejects.toThrow('Unknown resource');
+  });
+
+  it('notifies subscribers when an entity they read changes', async () => {
+    const manager = await withGraph('subscriptions');
+    const client = await connect(manager);
+    const updates: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updates.push(notification.params.uri);
+    });
+    const waitFor = async (uri: string) => {
+      for (let i = 0; i < 50 && !updates.includes(uri); i++) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+      expect(updates).toContain(uri);
+    };
+
+    const ada = 'memory://entity/Ada';
+    const machines = 'memory://type/machine';
+    await client.subscribeResource({ uri: ada });
+    await client.subscribeResource({ uri: machines });
+
+    // A rename keeps the subscription on the entity the alias resolved to
+    await manager.renameEntity('Ada Lovelace', 'Augusta Ada King');
+    await manager.addObservations([{ entityName: 'Augusta Ada King', contents: ['translated Menabrea'] }]);
+    await waitFor(ada);
+    expect(updates).not.toContain(machines);
+
+    // Changes to other entities of the namespace, or to other namespaces, leave the entity alone
+    const adaUpdates = updates.length;
+    await testManager('subscriptions-other').createEntities([{ name: 'Ada', entityType: 'machine', observations: [] }]);
+    await manager.createEntities([{ name: 'Difference Engine', entityType: 'machine', observations: [] }]);
+    await waitFor(machines);
+    expect(updates.slice(adaUpdates)).toEqual([machines]);
+
+    await client.unsubscribeResource({ uri: ada });
+    await manager.addObservations([{ entityName: 'Augusta Ada King', contents: ['died in 1852'] }]);
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(updates.slice(adaUpdates)).toEqual([machines]);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EntityTypeDefinition, RelationTypeDefinition, SchemaRegistry, schemaModeFromEnv } from '../src/schema.js';
+import { testManager, useDatabase } from './helpers.js';
+
+// The manager reads the mode once, on its first write
+vi.stubEnv('MEMORY_SCHEMA_MODE', 'strict');
+
+const db = useDatabase();
+
+const definitions: { entityTypes: EntityTypeDefinition[]; relationTypes: RelationTypeDefinition[] } = {
+  entityTypes: [
+    { name: 'person', synonyms: ['people', 'human'] },
+    { name: 'company' },
+  ],
+  relationTypes: [
+    { name: 'works_at', sourceTypes: ['person'], targetTypes: ['company'], inverse: 'employs', cardinality: 'many-to-one' },
+    { name: 'knows', synonyms: ['friend_of'] },
+  ],
+};
+
+describe('schema', () => {
+  it('is configured from the environment', () => {
+    expect(schemaModeFromEnv({})).toBe('warn');
+    expect(() => schemaModeFromEnv({ MEMORY_SCHEMA_MODE: 'lenient' })).toThrow('Unknown schema mode');
+  });
+
+  it('rejects definitions that contradict each other', async () => {
+    const manager = testManager('schema-define');
+    await expect(manager.defineSchema({ entityTypes: [{ name: 'person', synonyms: ['org'] }, { name: 'org' }] }))
+      .rejects.toThrow('"org" is used by both org and person');
+    await expect(manager.defineSchema({ entityTypes: [{ name: 'person' }], relationTypes: [{ name: 'owns', targetTypes: ['car'] }] }))
+      .rejects.toThrow('refers to unregistered entity types: car');
+    await expect(manager.defineSchema({ relationTypes: [{ name: 'owns', cardinality: 'few' as never }] })).rejects.toThrow('Invalid cardinality');
+    expect((await manager.listSchema()).entityTypes).toEqual([]);
+  });
+
+  it('maps synonyms and inverses to the registered types and rejects the rest in strict mode', async () => {
+    const manager = testManager('schema-strict');
+    await manager.defineSchema(definitions);
+
+    expect(await manager.createEntities([
+      { name: 'Ada', entityType: 'People', observations: [] },
+      { name: 'Bob', entityType: 'person', observations: [] },
+      { name: 'Acme', entityType: 'company', observations: [] },
+      { name: 'Globex', entityType: 'company', observations: [] },
+      { name: 'Rex', entityType: 'dog', observations: [] },
+    ])).toMatchObject([
+      { name: 'Ada', status: 'created', entityType: 'person' },
+      { name: 'Bob', status: 'created' },
+      { name: 'Acme', status: 'created' },
+      { name: 'Globex', status: 'created' },
+      { name: 'Rex', status: 'error', reason: expect.stringContaining('Schema violation: Rex has unknown entity type "dog"') },
+    ]);
+
+    expect(await manager.createRelations([
+      { from: 'Acme', to: 'Ada', relationType: 'employs' },
+      { from: 'Ada', to: 'Bob', relationType: 'friend_of' },
+      { from: 'Acme', to: 'Bob', relationType: 'works_at' },
+      { from: 'Ada', to: 'Globex', relationType: 'works_at' },
+      { from: 'Ada', to: 'Bob', relationType: 'likes' },
+    ])).toMatchObject([
+      { from: 'Ada', to: 'Acme', relationType: 'works_at', status: 'created' },
+      { from: 'Ada', to: 'Bob', relationType: 'knows', status: 'created' },
+      { status: 'error', reason: expect.stringContaining('works_at cannot start at an entity of type company') },
+      { status: 'error', reason: expect.stringContaining('works_at is many-to-one, and the source already has a target') },
+      { status: 'error', reason: expect.stringContaining('unknown relation type "likes"') },
+    ]);
+
+    const schema = await manager.listSchema();
+    expect(schema.mode).toBe('strict');
+    expect(schema.entityTypes.map(t => [t.name, t.count])).toEqual([['company', 2], ['person', 2]]);
+    expect(schema.relationTypes.map(t => [t.name, t.count])).toEqual([['knows', 1], ['works_at', 1]]);
+  });
+
+  it('only warns about violations in warn mode and ignores the schema when off', async () => {
+    const manager = testManager('schema-warn');
+    await manager.defineSchema(definitions);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const validator = await new SchemaRegistry(manager.namespace, {}, 'warn').validator(db);
+      expect(validator.canonicalEntityType('human', 'Ada')).toBe('person');
+      expect(validator.canonicalEntityType('dog', 'Rex')).toBe('dog');
+      expect(warn).toHaveBeenCalledWith('Schema warning: Rex has unknown entity type "dog" (registered: company, person)');
+
+      const off = await new SchemaRegistry(manager.namespace, {}, 'off').validator(db);
+      expect(off.canonicalEntityType('human', 'Ada')).toBe('human');
+      expect(warn).toHaveBeenCalledTimes(1);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('normalizes the types already stored', async () => {
+    const manager = testManager('schema-normalize');
+    await manager.createEntities([
+      { name: 'Ada', entityType: 'human', observations: [] },
+      { name: 'Bob', entityType: 'people', observations: [] },
+      { name: 'Acme', entityType: 'company', observations: [] },
+      { name: 'Rex', entityType: 'dog', observations: [] },
+    ]);
+    await manager.createRelations([
+      { from: 'Acme', to: 'Ada', relationType: 'employs' },
+      { from: 'Ada', to: 'Acme', relationType: 'works_at' },
+      { from: 'Ada', to: 'Bob', relationType: 'friend_of' },
+      { from: 'Rex', to: 'Ada', relationType: 'belongs_to' },
+    ]);
+    // Registered after the writes, so they were not checked
+    await manager.defineSchema(definitions);
+
+    const preview = await manager.normalizeTypes({ dryRun: true });
+    expect(preview).toEqual({
+      entityTypes: [{ from: 'human', to: 'person', count: 1 }, { from: 'people', to: 'person', count: 1 }],
+      relationTypes: [
+        { from: 'employs', to: 'works_at', reversed: true, count: 1 },
+        { from: 'friend_of', to: 'knows', reversed: false, count: 1 },
+      ],
+      duplicateRelations: 1,
+      unmapped: { entityTypes: ['dog'], relationTypes: ['belongs_to'] },
+      dryRun: true,
+    });
+    expect((await manager.openNodes(['Ada'])).entities[0].entityType).toBe('human');
+
+    expect(await manager.normalizeTypes()).toEqual({ ...preview, dryRun: false });
+    const graph = await manager.openNodes(['Ada', 'Acme', 'Bob']);
+    expect(graph.entities.map(e => e.entityType)).toEqual(['company', 'person', 'person']);
+    expect(graph.relations).toEqual([
+      { from: 'Ada', to: 'Acme', relationType: 'works_at' },
+      { from: 'Ada', to: 'Bob', relationType: 'knows' },
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { testManager, useDatabase } from './helpers.js';
+
+const db = useDatabase();
+
+describe('search_nodes', () => {
+  it('ranks name matches above observation matches and highlights what matched', async () => {
+    const manager = testManager('search-rank');
+    await manager.createEntities([
+      { name: 'Aardvark', entityType: 'note', observations: ['mentions kubernetes once'] },
+      { name: 'Kubernetes', entityType: 'tool', observations: ['runs the containers', 'upgraded in March'] },
+      { name: 'Zebra', entityType: 'note', observations: ['unrelated'] },
+    ]);
+
+    const result = await manager.searchNodes('kubernetes');
+    expect(result.entities.map(e => e.name)).toEqual(['Kubernetes', 'Aardvark']);
+    expect(result.entities[0].score).toBeGreaterThan(result.entities[1].score);
+    expect(result.entities[1].highlights).toEqual(['mentions **kubernetes** once']);
+    expect(result.entities[1].observations).toEqual(['mentions kubernetes once']);
+
+    // Stemmed words match, and only the matching observations can be returned
+    const upgrades = await manager.searchNodes('upgrades', { matchedObservationsOnly: true });
+    expect(upgrades.entities).toMatchObject([{ name: 'Kubernetes', observations: ['upgraded in March'], highlights: ['**upgraded** in March'] }]);
+    // Substrings of words still match
+    expect((await manager.searchNodes('ardva')).entities.map(e => e.name)).toEqual(['Aardvark']);
+  });
+
+  it('pages with limit and offset', async () => {
+    const manager = testManager('search-pages');
+    await manager.createEntities(['Ann', 'Bob', 'Cat', 'Dan', 'Eli'].map(name => ({ name, entityType: 'person', observations: ['plays chess'] })));
+
+    const seen: string[] = [];
+    let offset: number | null = 0;
+    while (offset !== null) {
+      const page = await manager.searchNodes('chess', { limit: 2, offset });
+      expect(page.pagination).toMatchObject({ offset, limit: 2, total: 5 });
+      seen.push(...page.entities.map(e => e.name));
+      offset = page.pagination.nextOffset;
+    }
+    // Equal scores fall back to name order, so pages neither repeat nor skip entities
+    expect(seen).toEqual(['Ann', 'Bob', 'Cat', 'Dan', 'Eli']);
+  });
+
+  it('filters by entity type and relation type', async () => {
+    const manager = testManager('search-filters');
+    await manager.createEntities([
+      { name: 'Ada', entityType: 'person', observations: ['works on compilers'] },
+      { name: 'Bea', entityType: 'person', observations: ['studies compilers'] },
+      { name: 'Compilers course', entityType: 'course', observations: [] },
+    ]);
+    await manager.createRelations([{ from: 'Bea', to: 'Compilers course', relationType: 'attends' }]);
+
+    expect((await manager.searchNodes('compilers', { entityTypes: ['person'] })).entities.map(e => e.name)).toEqual(['Ada', 'Bea']);
+    const attending = await manager.searchNodes('compilers', { relationTypes: ['attends'] });
+    expect(attending.entities.map(e => e.name)).toEqual(['Compilers course', 'Bea']);
+    expect(attending.relations).toEqual([{ from: 'Bea', to: 'Compilers course', relationType: 'attends' }]);
+  });
+});
@@ -0,0 +1,112 @@
+import { once } from 'events';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { HashingEmbeddingProvider, HttpEmbeddingProvider, createEmbeddingProvider } from '../src/embeddings.js';
+import { SemanticIndex, hasEmbeddingColumns } from '../src/semantic-search.js';
+import { testManager, useDatabase } from './helpers.js';
+
+const db = useDatabase();
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, x, i) => sum + x * b[i], 0);
+}
+
+describe('embedding providers', () => {
+  it('hashes text into unit vectors that favour shared words and stems', async () => {
+    const provider = new HashingEmbeddingProvider(64);
+    const [invoice, invoicing, garden, empty] = await provider.embed(['Invoice', 'invoicing clients', 'garden', '!!']);
+    expect(invoice).toHaveLength(64);
+    expect(cosine(invoice, invoice)).toBeCloseTo(1);
+    expect(cosine(invoice, invoicing)).toBeGreaterThan(cosine(invoice, garden));
+    expect(empty.every(x => x === 0)).toBe(true);
+    expect(await provider.embed(['Invoice'])).toEqual([invoice]);
+    expect(() => new HashingEmbeddingProvider(4)).toThrow('Invalid embedding dimensions');
+  });
+
+  it('is configured from the environment', () => {
+    expect(createEmbeddingProvider({})?.id).toBe('hash-256');
+    expect(createEmbeddingProvider({ MEMORY_EMBEDDING_PROVIDER: 'none' })).toBeNull();
+    expect(createEmbeddingProvider({ MEMORY_EMBEDDING_PROVIDER: 'http', MEMORY_EMBEDDING_URL: 'http://x', MEMORY_EMBEDDING_MODEL: 'm' })?.id).toBe('http:m');
+    expect(() => createEmbeddingProvider({ MEMORY_EMBEDDING_PROVIDER: 'http' })).toThrow('MEMORY_EMBEDDING_URL');
+    expect(() => createEmbeddingProvider({ MEMORY_EMBEDDING_PROVIDER: 'magic' })).toThrow('Unknown embedding provider');
+  });
+
+  it('calls an OpenAI-compatible endpoint in batches and keeps the input order', async () => {
+    const requests: { model: string; input: string[] }[] = [];
+    const server = createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk);
+      }
+      const body = JSON.parse(Buffer.concat(chunks).toString());
+      requests.push(body);
+      if (body.input.includes('fail')) {
+        res.writeHead(500);
+        res.end('model unavailable');
+        return;
+      }
+      // Answered in reverse, as the API allows; index restores the order
+      const data = body.input.map((text: string, index: number) => ({ index, embedding: [text.length, index] })).reverse();
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ data }));
+    });
+    server.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+
+    try {
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/embeddings`;
+      const provider = new HttpEmbeddingProvider({ url, model: 'test-model', batchSize: 2 });
+      expect(await provider.embed(['a', 'bb', 'ccc'])).toEqual([[1, 0], [2, 1], [3, 0]]);
+      expect(requests).toEqual([{ model: 'test-model', input: ['a', 'bb'] }, { model: 'test-model', input: ['ccc'] }]);
+      await expect(provider.embed(['fail'])).rejects.toThrow('HTTP 500: model unavailable');
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe('semantic search', () => {
+  let available = false;
+  beforeAll(async () => {
+    available = await hasEmbeddingColumns(db);
+  });
+
+  it('ranks entities by their closest name or observation', async ctx => {
+    if (!available) {
+      ctx.skip();
+    }
+    const manager = testManager('semantic');
+    await manager.createEntities([
+      { name: 'Billing', entityType: 'team', observations: ['handles invoicing for clients', 'meets on Mondays'] },
+      { name: 'Gardening club', entityType: 'group', observations: ['grows tomatoes'] },
+      { name: 'Old team', entityType: 'team', observations: [{ content: 'sends invoices', validUntil: '2000-01-01T00:00:00Z' }] },
+    ]);
+
+    const results = await manager.semanticSearch('invoices', { hybridWeight: 0 });
+    expect(results[0]).toMatchObject({ name: 'Billing', matchedObservation: 'handles invoicing for clients' });
+    expect(results[0].semanticScore).toBeGreaterThan(results.find(r => r.name === 'Gardening club')?.semanticScore ?? 0);
+    // Expired observations are not searched
+    expect(results.find(r => r.name === 'Old team')?.matchedObservation ?? null).toBeNull();
+
+    expect(await manager.semanticSearch('invoices', { minScore: 0.99 })).toEqual([]);
+    expect(await manager.semanticSearch('tomatoes', { limit: 1 })).toMatchObject([{ name: 'Gardening club' }]);
+    await expect(manager.semanticSearch('?!')).rejects.toThrow('Query has no searchable terms');
+  });
+
+  it('embeds new and edited text before searching and on backfill', async ctx => {
+    if (!available) {
+      ctx.skip();
+    }
+    const manager = testManager('semantic-backfill');
+    const index = new SemanticIndex(new HashingEmbeddingProvider(256), manager.namespace);
+    await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: ['likes tea'] }]);
+    expect(await index.backfill()).toEqual({ entities: 1, observations: 1 });
+    expect(await index.backfill()).toEqual({ entities: 0, observations: 0 });
+
+    const [observation] = (await manager.openNodes(['Alice'], { includeMetadata: true })).entities[0].observationDetails!;
+    await manager.updateObservation(observation.id, { content: 'collects vinyl records' });
+    expect(await index.backfill()).toEqual({ entities: 0, observations: 1 });
+    expect((await manager.semanticSearch('vinyl', { hybridWeight: 0 }))[0]).toMatchObject({ name: 'Alice', matchedObservation: 'collects vinyl records' });
+  });
+});
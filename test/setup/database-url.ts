@@ -0,0 +1,4 @@
+import { inject } from 'vitest';
+
+// Read by DatabaseConnection when a test first uses it
+process.env.DATABASE_URL = inject('databaseUrl');
@@ -0,0 +1,31 @@
+import type { TestProject } from 'vitest/node';
+import { PGlite } from '@electric-sql/pglite';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
+import { vector } from '@electric-sql/pglite-pgvector';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    databaseUrl: string;
+  }
+}
+
+// Tests run against TEST_DATABASE_URL, which they may empty, or else against an in-memory
+// PGlite served over the Postgres wire protocol. PGlite loads pgvector and pg_trgm, so the
+// migrations enable semantic search and fuzzy matching as they would on a full server.
+export default async function setup(project: TestProject) {
+  if (process.env.TEST_DATABASE_URL) {
+    project.provide('databaseUrl', process.env.TEST_DATABASE_URL);
+    return;
+  }
+
+  const db = await PGlite.create({ extensions: { vector, pg_trgm } });
+  const server = new PGLiteSocketServer({ db, host: '127.0.0.1', port: 0, maxConnections: 20 });
+  await server.start();
+  project.provide('databaseUrl', `postgresql://postgres@${server.getServerConn()}/postgres`);
+
+  return async () => {
+    await server.stop();
+    await db.close();
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { testManager, useDatabase } from './helpers.js';
+
+const db = useDatabase();
+
+describe('trash', () => {
+  it('restores a deleted entity with its observations and relations', async () => {
+    const manager = testManager('trash');
+    await manager.createEntities([
+      { name: 'Alice', entityType: 'person', observations: ['likes tea'] },
+      { name: 'Bob', entityType: 'person', observations: [] },
+    ]);
+    await manager.createRelations([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+
+    expect(await manager.deleteEntities(['Alice', 'Carol'])).toEqual([
+      { name: 'Alice', entityType: 'person', status: 'deleted' },
+      expect.objectContaining({ name: 'Carol', status: 'skipped' }),
+    ]);
+    expect((await manager.openNodes(['Alice', 'Bob'])).entities.map(e => e.name)).toEqual(['Bob']);
+
+    const trash = await manager.listTrash();
+    expect(trash.entities).toEqual([expect.objectContaining({ name: 'Alice', observations: 1, relations: 1 })]);
+
+    const report = await manager.restoreEntities({ entityNames: ['Alice'] });
+    expect(report).toMatchObject({ entities: ['Alice'], observations: 1, relations: 1, conflicts: [], notFound: [] });
+    const graph = await manager.openNodes(['Alice', 'Bob']);
+    expect(graph.entities.find(e => e.name === 'Alice')?.observations).toEqual(['likes tea']);
+    expect(graph.relations).toEqual([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+  });
+
+  it('reports a restore whose name has been taken again as a conflict', async () => {
+    const manager = testManager('trash');
+    await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+    await manager.deleteEntities(['Alice']);
+    await manager.createEntities([{ name: 'Alice', entityType: 'robot', observations: [] }]);
+
+    const report = await manager.restoreEntities({ entityNames: ['Alice'] });
+    expect(report.entities).toEqual([]);
+    expect(report.conflicts).toHaveLength(1);
+    expect((await manager.openNodes(['Alice'])).entities[0].entityType).toBe('robot');
+  });
+
+  it('purges only what is old enough, and only in its own namespace', async () => {
+    const manager = testManager('trash');
+    const other = testManager('trash');
+    for (const m of [manager, other]) {
+      await m.createEntities([{ name: 'Alice', entityType: 'person', observations: ['likes tea'] }]);
+      await m.deleteEntities(['Alice']);
+    }
+
+    expect(await manager.purgeTrash({ olderThanDays: 1 })).toEqual({ entities: 0, observations: 0, relations: 0 });
+    expect((await manager.listTrash()).entities).toHaveLength(1);
+
+    expect(await manager.purgeTrash()).toEqual({ entities: 1, observations: 1, relations: 0 });
+    expect((await manager.listTrash()).entities).toEqual([]);
+    expect((await manager.restoreEntities({ entityNames: ['Alice'] })).notFound).toEqual(['Alice']);
+    const rows = await db.query('SELECT COUNT(*)::int AS count FROM entities WHERE namespace = $1', [manager.namespace]);
+    expect(rows.rows[0].count).toBe(0);
+
+    expect((await other.listTrash()).entities).toHaveLength(1);
+  });
+
+  it('does not bring back a superseded observation when its replacement is purged', async () => {
+    const manager = testManager('trash');
+    await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+    const [{ observationIds: [id] }] = await manager.addObservations([{ entityName: 'Alice', contents: ['lives in Paris'] }]);
+    await manager.supersedeObservation(id, 'lives in Berlin');
+
+    await manager.deleteObservations([{ entityName: 'Alice', observations: ['lives in Berlin'] }]);
+    await manager.purgeTrash();
+
+    const graph = await manager.openNodes(['Alice'], { includeSuperseded: true });
+    expect(graph.entities[0].observations).toEqual([]);
+    const rows = await db.query('SELECT COUNT(*)::int AS count FROM observations WHERE id = $1', [id]);
+    expect(rows.rows[0].count).toBe(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { testManager, useDatabase } from './helpers.js';
+
+useDatabase();
+
+describe('write modes', () => {
+  it('skips, merges or fails entities that exist', async () => {
+    const manager = testManager('entities');
+    await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: ['likes tea'], properties: { team: 'a' } }]);
+
+    const skipped = await manager.createEntities([{ name: 'Alice', entityType: 'robot', observations: ['beeps'] }]);
+    expect(skipped).toEqual([expect.objectContaining({ name: 'Alice', status: 'skipped', entityType: 'person' })]);
+
+    const merged = await manager.createEntities(
+      [{ name: 'Alice', entityType: 'engineer', observations: ['likes tea', 'writes code'], properties: { role: 'lead' } }],
+      { mode: 'merge' }
+    );
+    expect(merged).toEqual([{ name: 'Alice', status: 'merged', entityType: 'engineer', addedObservations: ['writes code'] }]);
+    expect((await manager.openNodes(['Alice'])).entities[0]).toMatchObject({
+      entityType: 'engineer',
+      observations: ['likes tea', 'writes code'],
+      properties: { team: 'a', role: 'lead' },
+    });
+
+    const failed = await manager.createEntities(
+      [{ name: 'Bob', entityType: 'person', observations: [] }, { name: 'Alice', entityType: 'person', observations: [] }],
+      { mode: 'fail' }
+    );
+    expect(failed.map(result => result.status)).toEqual(['skipped', 'error']);
+    expect((await manager.openNodes(['Bob'])).entities).toEqual([]);
+  });
+
+  it('treats items repeated within a call like stored ones', async () => {
+    const manager = testManager('repeats');
+    const results = await manager.createEntities([
+      { name: 'Alice', entityType: 'person', observations: ['likes tea'] },
+      { name: 'Alice', entityType: 'person', observations: ['likes cake'] },
+    ], { mode: 'merge' });
+    expect(results.map(result => result.status)).toEqual(['created', 'merged']);
+    expect((await manager.openNodes(['Alice'])).entities[0].observations).toEqual(['likes tea', 'likes cake']);
+  });
+
+  it('skips, merges or fails relations that exist', async () => {
+    const manager = testManager('relations');
+    await manager.createEntities([
+      { name: 'Alice', entityType: 'person', observations: [] },
+      { name: 'Bob', entityType: 'person', observations: [] },
+    ]);
+    await manager.createRelations([{ from: 'Alice', to: 'Bob', relationType: 'knows', properties: { since: 2020 } }]);
+
+    expect((await manager.createRelations([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]))[0].status).toBe('skipped');
+    const merged = await manager.createRelations([{ from: 'Alice', to: 'Bob', relationType: 'knows', properties: { via: 'work' } }], { mode: 'merge' });
+    expect(merged[0].status).toBe('merged');
+    expect((await manager.openNodes(['Alice', 'Bob'])).relations[0].properties).toEqual({ since: 2020, via: 'work' });
+
+    const failed = await manager.createRelations([
+      { from: 'Bob', to: 'Alice', relationType: 'knows' },
+      { from: 'Alice', to: 'Bob', relationType: 'knows' },
+    ], { mode: 'fail' });
+    expect(failed.map(result => result.status)).toEqual(['skipped', 'error']);
+    expect((await manager.openNodes(['Alice', 'Bob'])).relations).toHaveLength(1);
+
+    const missing = await manager.createRelations([{ from: 'Alice', to: 'Carol', relationType: 'knows' }]);
+    expect(missing[0]).toMatchObject({ status: 'error' });
+    const created = await manager.createRelations(
+      [{ from: 'Alice', to: 'Carol', relationType: 'knows' }],
+      { createMissingEntities: true, missingEntityType: 'person' }
+    );
+    expect(created[0]).toMatchObject({ status: 'created', createdEntities: ['Carol'] });
+  });
+
+  it('skips, merges or fails observations that exist', async () => {
+    const manager = testManager('observations');
+    await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [{ content: 'likes tea', tags: ['food'] }] }]);
+
+    const skipped = await manager.addObservations([{ entityName: 'Alice', contents: ['likes tea', 'likes cake'] }]);
+    expect(skipped[0]).toMatchObject({ status: 'created', addedObservations: ['likes cake'] });
+
+    const merged = await manager.addObservations(
+      [{ entityName: 'Alice', contents: [{ content: 'likes tea', source: 'chat', tags: ['drink'] }] }],
+      { mode: 'merge' }
+    );
+    expect(merged[0]).toMatchObject({ status: 'merged', mergedObservations: ['likes tea'] });
+    const details = (await manager.openNodes(['Alice'], { includeMetadata: true })).entities[0].observationDetails;
+    expect(details?.find(detail => detail.content === 'likes tea')).toMatchObject({ source: 'chat', tags: ['food', 'drink'] });
+
+    const failed = await manager.addObservations([
+      { entityName: 'Alice', contents: ['likes pie'] },
+      { entityName: 'Alice', contents: ['likes tea'] },
+    ], { mode: 'fail' });
+    expect(failed.map(result => result.status)).toEqual(['skipped', 'error']);
+    expect((await manager.openNodes(['Alice'])).entities[0].observations).not.toContain('likes pie');
+
+    const missing = await manager.addObservations([{ entityName: 'Nobody', contents: ['exists'] }]);
+    expect(missing[0].status).toBe('error');
+  });
+
+  it('renews observations whose validity has lapsed', async () => {
+    const manager = testManager('lapsed');
+    await manager.createEntities([{
+      name: 'Alice',
+      entityType: 'person',
+      observations: [{ content: 'is on call', validUntil: '2000-01-01T00:00:00Z' }],
+    }]);
+    expect((await manager.openNodes(['Alice'])).entities[0].observations).toEqual([]);
+
+    const added = await manager.addObservations([{ entityName: 'Alice', contents: ['is on call'] }]);
+    expect(added[0]).toMatchObject({ status: 'created', addedObservations: ['is on call'] });
+    expect((await manager.openNodes(['Alice'])).entities[0].observations).toEqual(['is on call']);
+
+    await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [{ content: 'is away', validUntil: '2000-01-01T00:00:00Z' }] }], { mode: 'merge' });
+    const merged = await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: ['is away'] }], { mode: 'merge' });
+    expect(merged[0].addedObservations).toEqual(['is away']);
+  });
+});
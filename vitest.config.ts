@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    globalSetup: ['test/setup/postgres.ts'],
+    setupFiles: ['test/setup/database-url.ts'],
+    // Every file shares one database, and the migration tests revert its schema
+    fileParallelism: false,
+    // Migrations and connection retries log to stderr; only show it for failing tests
+    silent: 'passed-only',
+    testTimeout: 30000,
+    hookTimeout: 60000,
+  },
+});